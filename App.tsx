@@ -1,129 +1,622 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Mic, MicOff, Music, Activity, AlertCircle, FileAudio, MessageSquare } from 'lucide-react';
-import { LiveManager } from './services/liveManager';
+import { Mic, MicOff, Music, Activity, AlertCircle, FileAudio, RefreshCw, BarChart3, AudioWaveform, Piano, History, Bug } from 'lucide-react';
+import { DEFAULT_HARMONY_SETTINGS, DEFAULT_INPUT_SETTINGS, DEFAULT_MIDI_SETTINGS, DEFAULT_VAD_SETTINGS, LiveManager } from './services/liveManager';
+import { LiveTransport } from './services/liveTransport';
+import { GeminiLiveTransport } from './services/geminiTransport';
+import { MockLiveTransport, createDemoTurn } from './services/mockTransport';
+import { BUILT_IN_PRESETS, DEFAULT_SESSION_CONFIG } from './services/presetStore';
+import { createHistoryTurn, saveTurn } from './services/historyStore';
+import { buildBatchZip } from './services/batchExport';
+import { PresetLink, SESSION_BUNDLE_EXTENSION, buildPresetLink, buildSessionBundle, parseSessionBundle, readPresetLink } from './services/sessionBundle';
+import { renderMidiFile } from './services/midiSynth';
+import { DEFAULT_METRONOME_SETTINGS } from './services/metronome';
+import { ArrangementPlayer, addTurnClips, bounceArrangement, createArrangement } from './services/arrangement';
+import { ChatTranscript } from './services/chatTranscript';
+import { encodeWAV, mixOverLoop } from './utils/audioUtils';
+import { downloadBlob, isMidiFile, timestampForFilename } from './utils/fileUtils';
+import { createLogger } from './utils/logger';
 import Visualizer from './components/Visualizer';
 import FileUpload from './components/FileUpload';
-import { ConnectionState } from './types';
+import TakeDownload from './components/TakeDownload';
+import SessionSettings from './components/SessionSettings';
+import AnalysisPanel from './components/AnalysisPanel';
+import HistoryDrawer from './components/HistoryDrawer';
+import TurnControls from './components/TurnControls';
+import JamPanel from './components/JamPanel';
+import HarmonyPanel from './components/HarmonyPanel';
+import ArrangementPanel from './components/ArrangementPanel';
+import InputSettingsPanel from './components/InputSettingsPanel';
+import MidiInputPanel from './components/MidiInputPanel';
+import MetronomePanel from './components/MetronomePanel';
+import ClipEditor from './components/ClipEditor';
+import BatchPanel from './components/BatchPanel';
+import DebugOverlay from './components/DebugOverlay';
+import SessionShare from './components/SessionShare';
+import ChatPanel from './components/ChatPanel';
+import LyricTimeline from './components/LyricTimeline';
+import PresetPrompt from './components/PresetPrompt';
+import { SessionRecorder } from './services/sessionRecorder';
+import { SessionMetrics } from './services/sessionMetrics';
+import { Arrangement, BatchItem, ChatMessage, ClipSelection, ConnectionState, HarmonySettings, HarmonyTake, HistoryTurn, InputSettings, PerformanceMode, JamRound, MetronomeBeat, MetronomeSettings, MidiInputSettings, JamSettings, JamStatus, OUTPUT_SAMPLE_RATE, PlaybackState, ReconnectStatus, SessionConfig, TurnAnalysis, TurnMode, VadSettings, VisualizerMode } from './types';
 
-const API_KEY = process.env.API_KEY || '';
+const log = createLogger('App');
+
+// Append ?mock to the URL to run against the scripted offline transport
+const USE_MOCK_TRANSPORT = new URLSearchParams(window.location.search).has('mock');
+
+// Append ?debug to open the metrics overlay on load
+const SHOW_DEBUG_ON_LOAD = new URLSearchParams(window.location.search).has('debug');
+
+const createTransport = (): LiveTransport => {
+  if (USE_MOCK_TRANSPORT) {
+    return new MockLiveTransport({ turns: Array.from({ length: 20 }, () => createDemoTurn()) });
+  }
+  // Authenticates with short-lived tokens from our server; the API key never reaches the browser
+  return new GeminiLiveTransport();
+};
+
+const VISUALIZER_MODES: { mode: VisualizerMode; label: string; Icon: typeof BarChart3 }[] = [
+  { mode: 'spectrum', label: 'Spectrum', Icon: BarChart3 },
+  { mode: 'waveform', label: 'Waveform', Icon: AudioWaveform },
+  { mode: 'pianoRoll', label: 'Piano Roll', Icon: Piano },
+];
 
 const App: React.FC = () => {
-  const [connectionState, setConnectionState] = useState<string>(ConnectionState.DISCONNECTED);
+  const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
+  const [reconnectStatus, setReconnectStatus] = useState<ReconnectStatus | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [isMicActive, setIsMicActive] = useState(false);
-  const [aiText, setAiText] = useState<string | null>(null);
+  // One transcript for the page, so the chat carries across sessions
+  const [transcript] = useState(() => new ChatTranscript());
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [clipInstruction, setClipInstruction] = useState<string | null>(null);
+  // Transcription of the turn in progress; finished turns carry their own lyrics
+  const [liveLyrics, setLiveLyrics] = useState({ input: '', output: '' });
+  // Kept after disconnect so the last session can still be downloaded
+  const [recorder, setRecorder] = useState<SessionRecorder | null>(null);
+  const [metrics, setMetrics] = useState<SessionMetrics | null>(null);
+  const [isDebugOpen, setIsDebugOpen] = useState(SHOW_DEBUG_ON_LOAD);
+  const [analysis, setAnalysis] = useState<TurnAnalysis | null>(null);
+  const [visualizerMode, setVisualizerMode] = useState<VisualizerMode>('spectrum');
+  const [sessionConfig, setSessionConfig] = useState<SessionConfig>(DEFAULT_SESSION_CONFIG);
+  const [presetName, setPresetName] = useState(BUILT_IN_PRESETS[0].name);
+  // A preset from a link or bundle, held until the user confirms it
+  const [pendingPreset, setPendingPreset] = useState<{ preset: PresetLink; source: string } | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [turnMode, setTurnMode] = useState<TurnMode>('auto');
+  const [vadSettings, setVadSettings] = useState<VadSettings>(DEFAULT_VAD_SETTINGS);
+  const [isActivityActive, setIsActivityActive] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);
+  const [playbackState, setPlaybackState] = useState<PlaybackState>('idle');
+  const [lastContinuation, setLastContinuation] = useState<Float32Array | null>(null);
+  const [jamSettings, setJamSettings] = useState<JamSettings>({ rounds: 4, mixMic: false, micLevel: 0.5 });
+  const [jamStatus, setJamStatus] = useState<JamStatus | null>(null);
+  const [jamRounds, setJamRounds] = useState<JamRound[]>([]);
+  const [performanceMode, setPerformanceMode] = useState<PerformanceMode>('continue');
+  const [harmonySettings, setHarmonySettings] = useState<HarmonySettings>(DEFAULT_HARMONY_SETTINGS);
+  const [harmonyTakes, setHarmonyTakes] = useState<HarmonyTake[]>([]);
+  const [isHarmonyLoopPlaying, setIsHarmonyLoopPlaying] = useState(false);
+  // Kept across sessions so takes can still be arranged and bounced
+  const [arrangement, setArrangement] = useState<Arrangement>(() => createArrangement());
+  const [isArrangementPlaying, setIsArrangementPlaying] = useState(false);
+  const [isBouncing, setIsBouncing] = useState(false);
+  // Turns finished or imported since the page loaded; what a session bundle exports
+  const [sessionTurns, setSessionTurns] = useState<HistoryTurn[]>([]);
+  const [inputSettings, setInputSettings] = useState<InputSettings>(DEFAULT_INPUT_SETTINGS);
+  const [midiSettings, setMidiSettings] = useState<MidiInputSettings>(DEFAULT_MIDI_SETTINGS);
+  const [isMidiActive, setIsMidiActive] = useState(false);
+  const [metronomeSettings, setMetronomeSettings] = useState<MetronomeSettings>(DEFAULT_METRONOME_SETTINGS);
+  const [metronomeBeat, setMetronomeBeat] = useState<MetronomeBeat | null>(null);
+  const [isCountingIn, setIsCountingIn] = useState(false);
+  const [clipToEdit, setClipToEdit] = useState<File | null>(null);
+  const [maxClipSeconds, setMaxClipSeconds] = useState(15);
+  // Kept after disconnect so finished results can still be exported
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
   const liveManagerRef = useRef<LiveManager | null>(null);
+  const arrangementPlayerRef = useRef<ArrangementPlayer | null>(null);
+  const arrangementContextRef = useRef<AudioContext | null>(null); // Used while no session is open
 
   // Analysers for visualization
   const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
   const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
 
   useEffect(() => {
-    if (!API_KEY) {
-      setError("API Key is missing. Please set process.env.API_KEY.");
-      setConnectionState(ConnectionState.ERROR);
-    }
-    
     // Cleanup on unmount
     return () => {
       if (liveManagerRef.current) {
         liveManagerRef.current.disconnect();
       }
+      arrangementPlayerRef.current?.dispose();
+      arrangementContextRef.current?.close();
     };
   }, []);
 
+  // A shared link offers its preset for confirmation; the fragment is cleared so a reload doesn't offer it again
+  useEffect(() => {
+    try {
+      const link = readPresetLink();
+      if (!link) return;
+      setPendingPreset({ preset: link, source: 'a shared link' });
+    } catch (e: any) {
+      log.error("Invalid preset link", e);
+      setError(e.message);
+    }
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, []);
+
+  // Ctrl+Shift+D toggles the metrics overlay
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey && e.shiftKey && e.code === 'KeyD') {
+        e.preventDefault();
+        setIsDebugOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Push-to-talk: hold Space, unless typing into a form field
+  useEffect(() => {
+    if (turnMode !== 'pushToTalk' || connectionState !== ConnectionState.CONNECTED) return;
+
+    const isTyping = (e: KeyboardEvent) =>
+      e.target instanceof HTMLElement && ['INPUT', 'TEXTAREA', 'SELECT'].includes(e.target.tagName);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      if (!e.repeat) handleTalkChange(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      handleTalkChange(false);
+    };
+    // Don't leave the turn open if the window loses focus mid-hold
+    const handleBlur = () => handleTalkChange(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      handleTalkChange(false);
+    };
+  }, [turnMode, connectionState]);
+
+  const handleTalkChange = (held: boolean) => {
+    setIsTalking(held);
+    liveManagerRef.current?.setPushToTalk(held);
+  };
+
+  const handleEndTurn = () => {
+    try {
+      liveManagerRef.current?.endUserTurn();
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  useEffect(() => {
+    transcript.onChange = setChatMessages;
+    return () => {
+      transcript.onChange = () => {};
+    };
+  }, [transcript]);
+
+  const handleSendPrompt = async (text: string) => {
+    setError(null);
+    try {
+      const manager = await ensureSession();
+      await manager.sendTextPrompt(text);
+    } catch (e: any) {
+      log.error("Failed to send prompt", e);
+      setError(e.message || "Failed to send prompt");
+      throw e;
+    }
+  };
+
+  // Held here too, so instructions typed before connecting reach the next session
+  const handleAttachInstruction = (text: string | null) => {
+    setClipInstruction(text);
+    liveManagerRef.current?.setClipInstruction(text);
+  };
+
+  const handleVadChange = (settings: VadSettings) => {
+    setVadSettings(settings);
+    liveManagerRef.current?.setVadSettings(settings);
+  };
+
+  // Applied live; a device or processing change swaps the mic stream mid-session
+  const handleInputSettingsChange = (settings: InputSettings) => {
+    setInputSettings(settings);
+    liveManagerRef.current?.setInputSettings(settings).catch((e) => {
+      log.error("Failed to switch input", e);
+      setError(`Could not switch input: ${e.message}`);
+      setInputSettings(liveManagerRef.current?.getInputSettings() ?? settings);
+    });
+  };
+
+  const handleMidiSettingsChange = (settings: MidiInputSettings) => {
+    setMidiSettings(settings);
+    const manager = liveManagerRef.current;
+    if (!manager) return;
+    manager.setMidiSettings(settings)
+      .catch((e) => {
+        log.error("Failed to enable MIDI input", e);
+        setError(`Could not enable MIDI input: ${e.message}`);
+        setMidiSettings(manager.getMidiSettings());
+      })
+      .finally(() => setIsMidiActive(manager.isMidiActive()));
+  };
+
+  const handleMetronomeChange = (settings: MetronomeSettings) => {
+    setMetronomeSettings(settings);
+    if (!settings.enabled) setMetronomeBeat(null);
+    liveManagerRef.current?.setMetronomeSettings(settings);
+  };
+
+  // The system instruction follows the mode from the next connect; each clip's prompt follows it straight away
+  const handlePerformanceModeChange = (mode: PerformanceMode) => {
+    setPerformanceMode(mode);
+    liveManagerRef.current?.setPerformanceMode(mode);
+  };
+
+  const handleHarmonySettingsChange = (settings: HarmonySettings) => {
+    setHarmonySettings(settings);
+    liveManagerRef.current?.setHarmonySettings(settings);
+  };
+
+  // Mixed at the panel's current levels, so a take can be rebalanced after the fact
+  const handleHarmonyExport = (take: HarmonyTake) => {
+    const mix = mixOverLoop(take.bed, take.harmony, harmonySettings.bedLevel, harmonySettings.harmonyLevel);
+    downloadBlob(encodeWAV([mix], OUTPUT_SAMPLE_RATE), `melody-weaver-harmony-${take.index}-${timestampForFilename(new Date(take.completedAt))}.wav`);
+  };
+
+  // Plays on the session's output context when there is one, so the arrangement
+  // and live playback share a clock; otherwise on a context of its own
+  const getArrangementPlayer = () => {
+    let context = liveManagerRef.current?.getOutputContext() ?? null;
+    if (!context) {
+      context = arrangementContextRef.current ??= new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    let player = arrangementPlayerRef.current;
+    if (player?.getContext() !== context) {
+      player?.dispose();
+      player = new ArrangementPlayer(context, context.destination);
+      player.onEnded = () => setIsArrangementPlaying(false);
+      arrangementPlayerRef.current = player;
+    }
+    return player;
+  };
+
+  const handleArrangementChange = (next: Arrangement) => {
+    setArrangement(next);
+    arrangementPlayerRef.current?.updateMix(next);
+  };
+
+  const handleArrangementPlay = async () => {
+    const player = getArrangementPlayer();
+    const context = player.getContext();
+    if (context.state === 'suspended') await context.resume();
+    player.play(arrangement);
+    setIsArrangementPlaying(player.isPlaying());
+  };
+
+  const handleArrangementStop = () => {
+    arrangementPlayerRef.current?.stop();
+    setIsArrangementPlaying(false);
+  };
+
+  const handleArrangementBounce = async () => {
+    setIsBouncing(true);
+    try {
+      const mix = await bounceArrangement(arrangement);
+      const wav = encodeWAV([mix.getChannelData(0), mix.getChannelData(1)], mix.sampleRate);
+      downloadBlob(wav, `melody-weaver-arrangement-${timestampForFilename(new Date())}.wav`);
+    } catch (e: any) {
+      log.error("Bounce failed", e);
+      setError(`Bounce failed: ${e.message}`);
+    } finally {
+      setIsBouncing(false);
+    }
+  };
+
   const startSession = async () => {
     setError(null);
-    setAiText(null);
+    setReconnectStatus(null);
+    setLiveLyrics({ input: '', output: '' });
     // Always start fresh if we are starting a session
     if (liveManagerRef.current) {
         liveManagerRef.current.disconnect();
     }
     
-    const manager = new LiveManager(API_KEY);
+    const manager = new LiveManager(createTransport(), sessionConfig, { turnMode, vad: vadSettings, input: inputSettings, midi: midiSettings, metronome: metronomeSettings, performanceMode, harmony: harmonySettings, transcript });
     liveManagerRef.current = manager;
+    setRecorder(manager.getRecorder());
+    setMetrics(manager.getMetrics());
+    manager.setClipInstruction(clipInstruction);
 
     manager.onStatusChange = (status) => {
       setConnectionState(status);
-      if (status === 'CONNECTED') {
+      if (status === ConnectionState.CONNECTED) {
         setInputAnalyser(manager.getInputAnalyser());
         setOutputAnalyser(manager.getOutputAnalyser());
         setIsMicActive(manager.isMicEnabled());
-      } else if (status === 'DISCONNECTED') {
+        setIsMidiActive(manager.isMidiActive());
+        setMidiSettings(manager.getMidiSettings());
+        setReconnectStatus(null);
+      } else if (status === ConnectionState.DISCONNECTED) {
         setIsMicActive(false);
+        setIsMidiActive(false);
+        setMetronomeBeat(null);
       }
     };
 
+    manager.onMetronomeBeat = setMetronomeBeat;
+    manager.onCountInChange = setIsCountingIn;
+
+    manager.onReconnectStatus = (status) => {
+      setReconnectStatus(status);
+    };
+
+    manager.onInputTranscription = (text) => {
+      setLiveLyrics(lyrics => ({ ...lyrics, input: lyrics.input + text }));
+    };
+
+    manager.onOutputTranscription = (text) => {
+      setLiveLyrics(lyrics => ({ ...lyrics, output: lyrics.output + text }));
+    };
+
+    manager.onTurnComplete = (turn) => {
+      setLiveLyrics({ input: '', output: '' });
+      setAnalysis(turn.analysis);
+      setLastContinuation(turn.output);
+      setArrangement(current => addTurnClips(current, turn));
+      const historyTurn = createHistoryTurn(turn, presetName);
+      setSessionTurns(turns => [...turns, historyTurn]);
+      saveTurn(historyTurn)
+        .then(() => setHistoryVersion(v => v + 1))
+        .catch((e) => log.error("Failed to save turn to history", e));
+    };
+
+    manager.onBatchUpdate = (items) => {
+      setBatchItems(items);
+      setIsBatchRunning(manager.isBatchActive());
+    };
+
+    manager.onJamRound = (round) => {
+      setJamRounds(rounds => [...rounds, round]);
+    };
+
+    manager.onJamStatusChange = (status) => {
+      setJamStatus(status);
+    };
+
+    manager.onHarmonyTake = (take) => {
+      setHarmonyTakes(takes => [...takes, take]);
+    };
+
+    manager.onHarmonyLoopChange = setIsHarmonyLoopPlaying;
+
+    manager.onPlaybackStateChange = (state) => {
+      setPlaybackState(state);
+    };
+
+    manager.onActivityChange = (active) => {
+      setIsActivityActive(active);
+    };
+
     manager.onError = (err) => {
       setError(err);
     };
 
-    manager.onTextReceived = (text) => {
-      setAiText(text);
-      // Clear text after a few seconds if it's just a short acknowledgment, 
-      // but keep if it's an instruction
-      setTimeout(() => setAiText(null), 5000);
-    };
+    manager.onClipInstructionChange = setClipInstruction;
 
     try {
         await manager.connect();
         return manager;
     } catch (e) {
-        console.error("Connection failed", e);
+        log.error("Connection failed", e);
         throw e;
     }
   };
 
   const toggleConnection = async () => {
-    if (connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.CONNECTING) {
+    if (connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.CONNECTING || connectionState === ConnectionState.RECONNECTING) {
       liveManagerRef.current?.disconnect();
       liveManagerRef.current = null;
       setConnectionState(ConnectionState.DISCONNECTED);
       setInputAnalyser(null);
       setOutputAnalyser(null);
       setIsMicActive(false);
-      setAiText(null);
+      setIsMidiActive(false);
+      setMetronomeBeat(null);
+      setIsHarmonyLoopPlaying(false);
+      setReconnectStatus(null);
     } else {
       await startSession();
     }
   };
 
-  const handleFileUpload = async (file: File) => {
+  // Returns the current session, starting one if needed
+  const ensureSession = async (): Promise<LiveManager> => {
+    let manager = liveManagerRef.current;
+    
+    const isDisconnected = !manager || 
+                           connectionState === ConnectionState.DISCONNECTED || 
+                           connectionState === ConnectionState.ERROR;
+                           
+    if (isDisconnected) {
+      manager = await startSession();
+    } else if (connectionState === ConnectionState.CONNECTING) {
+       throw new Error("Connection in progress. Please wait a moment.");
+    }
+    
+    if (!manager) {
+        throw new Error("Failed to initialize session");
+    }
+    return manager;
+  };
+
+  // Runs an upload against the current session
+  const runUpload = async (send: (manager: LiveManager) => Promise<void>) => {
     if (isUploading) return;
     
     setIsUploading(true);
     setError(null);
-    setAiText(null);
 
     try {
-      let manager = liveManagerRef.current;
-      
-      const isDisconnected = !manager || 
-                             connectionState === ConnectionState.DISCONNECTED || 
-                             connectionState === ConnectionState.ERROR;
-                             
-      if (isDisconnected) {
-        manager = await startSession();
-      } else if (connectionState === ConnectionState.CONNECTING) {
-         throw new Error("Connection in progress. Please wait a moment.");
-      }
-      
-      if (!manager) {
-          throw new Error("Failed to initialize session");
-      }
-
-      await manager.sendAudioFile(file);
+      await send(await ensureSession());
     } catch (e: any) {
-      console.error("Upload process failed", e);
+      log.error("Upload process failed", e);
       setError(e.message || "Upload failed");
     } finally {
       setIsUploading(false);
     }
   };
 
+  const startJam = async (seed: Float32Array, startRound: number) => {
+    const manager = liveManagerRef.current;
+    if (!manager) return;
+    setError(null);
+    try {
+      await manager.startJam(seed, jamSettings, startRound);
+    } catch (e: any) {
+      log.error("Jam failed to start", e);
+      setError(e.message || "Jam failed to start");
+    }
+  };
+
+  const handleStartJam = () => {
+    if (!lastContinuation) return;
+    setJamRounds([]);
+    startJam(lastContinuation, 0);
+  };
+
+  // Drops the rounds after the branch point and carries on from there
+  const handleBranchJam = (round: JamRound) => {
+    setJamRounds(rounds => rounds.filter(r => r.index <= round.index));
+    startJam(round.response, round.index);
+  };
+
+  const handleFileUpload = (file: File) => runUpload(manager => manager.sendAudioFile(file));
+
+  // MIDI files skip the clip editor: they are rendered through the synth and sent as is
+  const handleMidiFileUpload = (file: File) => runUpload(async manager => {
+    const buffer = await renderMidiFile(await file.arrayBuffer(), midiSettings.timbre, maxClipSeconds);
+    await manager.sendAudioBuffer(buffer, file.name);
+  });
+
+  const handleFileSelect = (file: File) => {
+    if (isMidiFile(file)) handleMidiFileUpload(file);
+    else setClipToEdit(file);
+  };
+
+  // Only the selected region of an edited clip is sent
+  const handleClipSend = (file: File, buffer: AudioBuffer, selection: ClipSelection) => {
+    setClipToEdit(null);
+    runUpload(manager => manager.sendAudioBuffer(buffer, file.name, selection));
+  };
+
+  const handleBatchAdd = async (files: File[]) => {
+    setError(null);
+    try {
+      const manager = await ensureSession();
+      manager.enqueueBatch(files);
+    } catch (e: any) {
+      log.error("Batch failed to start", e);
+      setError(e.message || "Batch failed to start");
+    }
+  };
+
+  const handleBatchClear = () => {
+    liveManagerRef.current?.clearBatch();
+    setBatchItems([]);
+  };
+
+  const handleBatchExport = async () => {
+    try {
+      const zip = await buildBatchZip(batchItems, presetName);
+      downloadBlob(new Blob([zip], { type: 'application/zip' }), `melody-weaver-batch-${timestampForFilename(new Date())}.zip`);
+    } catch (e: any) {
+      log.error("Batch export failed", e);
+      setError(`Batch export failed: ${e.message}`);
+    }
+  };
+
+  // Feeds a past continuation back through the regular upload path
+  const handleReuseTurn = (turn: HistoryTurn) => {
+    const wav = encodeWAV([turn.output], OUTPUT_SAMPLE_RATE);
+    setIsHistoryOpen(false);
+    handleFileUpload(new File([wav], `${turn.name}.wav`, { type: 'audio/wav' }));
+  };
+
+  const handleExportBundle = async () => {
+    try {
+      const bundle = await buildSessionBundle(sessionTurns, presetName, sessionConfig);
+      downloadBlob(new Blob([bundle], { type: 'application/zip' }), `melody-weaver-session-${timestampForFilename(new Date())}${SESSION_BUNDLE_EXTENSION}`);
+    } catch (e: any) {
+      log.error("Session export failed", e);
+      setError(`Session export failed: ${e.message}`);
+    }
+  };
+
+  // Imported turns go into the history for playback and re-prompting; the preset
+  // is selected for the next connection
+  const handleImportBundle = async (file: File) => {
+    setError(null);
+    try {
+      const bundle = parseSessionBundle(new Uint8Array(await file.arrayBuffer()));
+      for (const turn of bundle.turns) await saveTurn(turn);
+      // The bundle's preset is as untrusted as a link's, so it waits for confirmation too
+      if (bundle.config) {
+        setPendingPreset({ preset: { name: bundle.presetName, config: bundle.config }, source: file.name });
+      }
+      setSessionTurns(turns => [...turns, ...bundle.turns]);
+      setArrangement(current => bundle.turns.reduce(addTurnClips, current));
+      const last = bundle.turns[bundle.turns.length - 1];
+      if (last) {
+        setLastContinuation(last.output);
+        setAnalysis(last.analysis);
+      }
+      setHistoryVersion(v => v + 1);
+      setIsHistoryOpen(true);
+      log.info(`Imported ${bundle.turns.length} turns from ${file.name}`);
+    } catch (e: any) {
+      log.error("Session import failed", e);
+      setError(`Could not import ${file.name}: ${e.message}`);
+    }
+  };
+
+  const handleCopyPresetLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildPresetLink(presetName, sessionConfig));
+    } catch (e: any) {
+      log.error("Failed to copy link", e);
+      setError("Could not copy the link to the clipboard");
+      throw e;
+    }
+  };
+
+  const handleApplyPendingPreset = () => {
+    if (!pendingPreset) return;
+    const { preset, source } = pendingPreset;
+    setSessionConfig(preset.config);
+    setPresetName(preset.name);
+    log.info(`Loaded preset "${preset.name}" from ${source}`);
+    setPendingPreset(null);
+  };
+
   const isConnected = connectionState === ConnectionState.CONNECTED;
   const isConnecting = connectionState === ConnectionState.CONNECTING;
+  const isReconnecting = connectionState === ConnectionState.RECONNECTING;
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100 flex flex-col items-center justify-center p-4 relative overflow-hidden">
@@ -149,43 +642,77 @@ const App: React.FC = () => {
         {/* Main Controls */}
         <div className="flex flex-col items-center gap-6 w-full">
           
+          {/* Visualization Mode */}
+          <div className="flex gap-1 bg-slate-900/50 border border-slate-800 rounded-full p-1 self-end">
+            {VISUALIZER_MODES.map(({ mode, label, Icon }) => (
+              <button
+                key={mode}
+                onClick={() => setVisualizerMode(mode)}
+                title={label}
+                className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold transition-colors
+                  ${visualizerMode === mode ? 'bg-slate-700 text-slate-100' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                <Icon size={12} /> {label}
+              </button>
+            ))}
+          </div>
+
           {/* Visualizers Container */}
           <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-4 h-48">
-            {/* Input Visualizer */}
-            <div className="relative bg-slate-900/50 border border-slate-800 rounded-xl overflow-hidden backdrop-blur-sm shadow-xl">
-              <div className="absolute top-2 left-3 text-xs font-bold text-cyan-500 uppercase tracking-widest flex items-center gap-2">
-                {isMicActive ? <Mic size={12} /> : <FileAudio size={12} />} 
-                {isMicActive ? 'Mic Input' : 'File Input'}
-              </div>
-              <div className="w-full h-full p-2">
-                <Visualizer 
-                  analyser={inputAnalyser} 
-                  color="#22d3ee" 
-                  isActive={isConnected && (isMicActive || isUploading)} 
-                />
+            {visualizerMode === 'pianoRoll' ? (
+              /* Combined piano roll: input and AI pitch overlaid for melodic continuity */
+              <div className="relative md:col-span-2 bg-slate-900/50 border border-slate-800 rounded-xl overflow-hidden backdrop-blur-sm shadow-xl">
+                <div className="absolute top-2 left-3 text-xs font-bold uppercase tracking-widest flex items-center gap-3">
+                  <span className="text-cyan-500 flex items-center gap-1">
+                    {isMicActive ? <Mic size={12} /> : <FileAudio size={12} />} {isMicActive ? 'Mic Input' : 'File Input'}
+                  </span>
+                  <span className="text-purple-500 flex items-center gap-1"><Music size={12} /> AI Response</span>
+                </div>
+                <div className="w-full h-full p-2">
+                  <Visualizer
+                    mode="pianoRoll"
+                    analyser={inputAnalyser}
+                    color="#22d3ee"
+                    overlayAnalyser={outputAnalyser}
+                    overlayColor="#a855f7"
+                    isActive={isConnected}
+                  />
+                </div>
               </div>
-            </div>
+            ) : (
+              <>
+                {/* Input Visualizer */}
+                <div className="relative bg-slate-900/50 border border-slate-800 rounded-xl overflow-hidden backdrop-blur-sm shadow-xl">
+                  <div className="absolute top-2 left-3 text-xs font-bold text-cyan-500 uppercase tracking-widest flex items-center gap-2">
+                    {isMicActive ? <Mic size={12} /> : <FileAudio size={12} />} 
+                    {isMicActive ? 'Mic Input' : 'File Input'}
+                  </div>
+                  <div className="w-full h-full p-2">
+                    <Visualizer 
+                      mode={visualizerMode}
+                      analyser={inputAnalyser} 
+                      color="#22d3ee" 
+                      isActive={isConnected && (isMicActive || isUploading)} 
+                    />
+                  </div>
+                </div>
 
-            {/* Output Visualizer */}
-            <div className="relative bg-slate-900/50 border border-slate-800 rounded-xl overflow-hidden backdrop-blur-sm shadow-xl">
-               <div className="absolute top-2 left-3 text-xs font-bold text-purple-500 uppercase tracking-widest flex items-center gap-2">
-                <Music size={12} /> AI Response
-              </div>
-              <div className="w-full h-full p-2">
-                <Visualizer 
-                  analyser={outputAnalyser} 
-                  color="#a855f7" 
-                  isActive={isConnected} 
-                />
-              </div>
-              {/* AI Text Overlay */}
-              {aiText && (
-                <div className="absolute bottom-4 left-4 right-4 bg-slate-950/80 p-3 rounded-lg border border-purple-500/30 text-sm text-purple-200 backdrop-blur flex items-start gap-2 animate-in fade-in slide-in-from-bottom-2">
-                  <MessageSquare size={16} className="mt-0.5 shrink-0" />
-                  <span>{aiText}</span>
+                {/* Output Visualizer */}
+                <div className="relative bg-slate-900/50 border border-slate-800 rounded-xl overflow-hidden backdrop-blur-sm shadow-xl">
+                   <div className="absolute top-2 left-3 text-xs font-bold text-purple-500 uppercase tracking-widest flex items-center gap-2">
+                    <Music size={12} /> AI Response
+                  </div>
+                  <div className="w-full h-full p-2">
+                    <Visualizer 
+                      mode={visualizerMode}
+                      analyser={outputAnalyser} 
+                      color="#a855f7" 
+                      isActive={isConnected} 
+                    />
+                  </div>
                 </div>
-              )}
-            </div>
+              </>
+            )}
           </div>
 
           {/* Action Area */}
@@ -198,7 +725,7 @@ const App: React.FC = () => {
               title={isMicActive ? "Mute Microphone / Disconnect" : "Disconnect / Connect Mic"}
               className={`
                 relative flex items-center justify-center w-24 h-24 rounded-full transition-all duration-500
-                ${isConnected 
+                ${isConnected || isReconnecting
                   ? 'bg-red-500/10 text-red-500 border-2 border-red-500/50 hover:bg-red-500/20 shadow-[0_0_30px_rgba(239,68,68,0.3)]' 
                   : 'bg-cyan-500 text-slate-950 hover:bg-cyan-400 shadow-[0_0_30px_rgba(34,211,238,0.4)]'
                 }
@@ -207,6 +734,8 @@ const App: React.FC = () => {
             >
               {isConnecting ? (
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-current"></div>
+              ) : isReconnecting ? (
+                <RefreshCw size={32} className="animate-spin" />
               ) : isConnected ? (
                 isMicActive ? <MicOff size={32} /> : <FileAudio size={32} className="animate-pulse" />
               ) : (
@@ -220,32 +749,89 @@ const App: React.FC = () => {
             {/* File Upload */}
             <div className="flex flex-col items-center">
                <FileUpload 
-                 onFileSelect={handleFileUpload} 
-                 disabled={isUploading} 
+                 onFileSelect={handleFileSelect} 
+                 disabled={isUploading || isBatchRunning} 
                  isUploading={isUploading}
                />
                <span className="text-xs text-slate-500 mt-2">
-                 Supported: .mp3, .wav (auto-converts)
+                 Supported: .mp3, .wav (trim before sending), .mid
                </span>
             </div>
 
           </div>
 
+          {/* Session Recording & History */}
+          <div className="flex flex-wrap justify-center items-center gap-3">
+            <TakeDownload recorder={recorder} disabled={isUploading} />
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700"
+            >
+              <History size={16} /> History
+            </button>
+            <SessionShare
+              turnCount={sessionTurns.length}
+              onExport={handleExportBundle}
+              onImport={handleImportBundle}
+              onCopyLink={handleCopyPresetLink}
+              disabled={isUploading}
+            />
+            <button
+              onClick={() => setIsDebugOpen(open => !open)}
+              title="Session metrics (Ctrl+Shift+D)"
+              className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold border border-slate-700 hover:bg-slate-700
+                ${isDebugOpen ? 'bg-slate-700 text-cyan-400' : 'bg-slate-800 text-slate-300'}`}
+            >
+              <Bug size={16} /> Metrics
+            </button>
+          </div>
+
           {/* Status Text */}
-          <div className="h-6">
+          <div className="min-h-6 flex flex-col items-center gap-1">
             {isConnecting && (
               <span className="text-cyan-400 animate-pulse flex items-center gap-2 text-sm font-medium">
                 <Activity size={16} /> Connecting to Gemini Live...
               </span>
             )}
             
+            {isReconnecting && reconnectStatus && (
+              <span className="text-orange-400 animate-pulse flex items-center gap-2 text-sm font-medium">
+                <RefreshCw size={16} className="animate-spin" />
+                Connection lost. Reconnecting (attempt {reconnectStatus.attempt}/{reconnectStatus.maxAttempts})...
+              </span>
+            )}
+
+            {connectionState === ConnectionState.ERROR && reconnectStatus?.gaveUp && reconnectStatus.attempt > 0 && (
+              <span className="text-red-400 flex items-center gap-2 text-sm font-medium">
+                <AlertCircle size={16} /> Gave up after {reconnectStatus.attempt} reconnect attempts. Start a new session to try again.
+              </span>
+            )}
+
+            {isConnected && isCountingIn && (
+              <span className="text-yellow-400 flex items-center gap-2 text-sm font-medium">
+                <Activity size={16} className="animate-pulse" /> Counting in... capture starts on the downbeat
+              </span>
+            )}
+
             {isConnected && isUploading && (
               <span className="text-yellow-400 flex items-center gap-2 text-sm font-medium animate-pulse">
                  Processing and sending audio clip...
               </span>
             )}
 
-            {isConnected && !isUploading && (
+            {isConnected && !isUploading && playbackState === 'playing' && (
+              <span className="text-purple-400 flex items-center gap-2 text-sm font-medium">
+                <Music size={16} className="animate-pulse" /> AI is playing...
+              </span>
+            )}
+
+            {isConnected && !isUploading && playbackState === 'waiting' && (
+              <span className="text-purple-300 flex items-center gap-2 text-sm font-medium animate-pulse">
+                <Activity size={16} /> Waiting for the AI to respond...
+              </span>
+            )}
+
+            {isConnected && !isUploading && !isCountingIn && playbackState === 'idle' && (
                <span className="text-green-400 flex items-center gap-2 text-sm font-medium">
                 {isMicActive ? (
                    <>
@@ -272,6 +858,117 @@ const App: React.FC = () => {
           </div>
         </div>
         
+        {/* Typed directions and the model's text replies */}
+        <ChatPanel
+          messages={chatMessages}
+          onClear={() => transcript.clear()}
+          onSend={handleSendPrompt}
+          onAttach={handleAttachInstruction}
+          clipInstruction={clipInstruction}
+          sendDisabled={isUploading || isConnecting}
+        />
+
+        {/* Transcribed words, per turn */}
+        <LyricTimeline turns={sessionTurns} live={liveLyrics} />
+
+        {/* Input device and processing */}
+        <InputSettingsPanel
+          settings={inputSettings}
+          onChange={handleInputSettingsChange}
+          isMicActive={isMicActive}
+        />
+
+        {/* Metronome */}
+        <MetronomePanel
+          settings={metronomeSettings}
+          onChange={handleMetronomeChange}
+          beat={metronomeBeat}
+          isCountingIn={isCountingIn}
+          onCountIn={() => liveManagerRef.current?.countIn()}
+          canCountIn={connectionState === ConnectionState.CONNECTED}
+        />
+
+        {/* MIDI keyboard */}
+        <MidiInputPanel
+          settings={midiSettings}
+          onChange={handleMidiSettingsChange}
+          isActive={isMidiActive}
+        />
+
+        {/* Turn taking */}
+        <TurnControls
+          mode={turnMode}
+          onModeChange={setTurnMode}
+          vad={vadSettings}
+          onVadChange={handleVadChange}
+          isSessionActive={isConnected || isConnecting || isReconnecting}
+          isConnected={isConnected}
+          isActivityActive={isActivityActive}
+          isTalking={isTalking}
+          onTalkChange={handleTalkChange}
+          onEndTurn={handleEndTurn}
+        />
+
+        {/* Batch queue */}
+        <BatchPanel
+          items={batchItems}
+          isRunning={isBatchRunning}
+          disabled={isUploading || isConnecting}
+          onAddFiles={handleBatchAdd}
+          onCancel={() => liveManagerRef.current?.cancelBatch()}
+          onClear={handleBatchClear}
+          onExport={handleBatchExport}
+        />
+
+        {/* Continue or harmony */}
+        <HarmonyPanel
+          mode={performanceMode}
+          onModeChange={handlePerformanceModeChange}
+          settings={harmonySettings}
+          onSettingsChange={handleHarmonySettingsChange}
+          isLoopPlaying={isHarmonyLoopPlaying}
+          onStopLoop={() => liveManagerRef.current?.stopHarmonyLoop()}
+          takes={harmonyTakes}
+          onExport={handleHarmonyExport}
+        />
+
+        {/* Multitrack arrangement of takes */}
+        <ArrangementPanel
+          arrangement={arrangement}
+          onChange={handleArrangementChange}
+          isPlaying={isArrangementPlaying}
+          getPosition={() => arrangementPlayerRef.current?.getPosition() ?? 0}
+          onPlay={handleArrangementPlay}
+          onStop={handleArrangementStop}
+          onBounce={handleArrangementBounce}
+          isBouncing={isBouncing}
+        />
+
+        {/* Jam loop */}
+        <JamPanel
+          settings={jamSettings}
+          onSettingsChange={setJamSettings}
+          status={jamStatus}
+          rounds={jamRounds}
+          canStart={isConnected && !isUploading && lastContinuation !== null}
+          isMicActive={isMicActive}
+          onStart={handleStartJam}
+          onStop={() => liveManagerRef.current?.stopJam()}
+          onBranch={handleBranchJam}
+        />
+
+        {/* Input vs continuation analysis */}
+        <AnalysisPanel analysis={analysis} />
+
+        {/* Settings */}
+        <SessionSettings
+          config={sessionConfig}
+          onChange={setSessionConfig}
+          presetName={presetName}
+          onPresetNameChange={setPresetName}
+          isSessionActive={isConnected || isConnecting || isReconnecting}
+        />
+
         {/* Instructions */}
         <div className="bg-slate-900/40 p-6 rounded-2xl border border-slate-800 max-w-2xl w-full">
           <h3 className="text-slate-300 font-semibold mb-3 flex items-center gap-2">
@@ -298,6 +995,36 @@ const App: React.FC = () => {
           </ul>
         </div>
       </div>
+
+      {clipToEdit && (
+        <ClipEditor
+          file={clipToEdit}
+          maxSeconds={maxClipSeconds}
+          onMaxSecondsChange={setMaxClipSeconds}
+          onSend={(buffer, selection) => handleClipSend(clipToEdit, buffer, selection)}
+          onCancel={() => setClipToEdit(null)}
+        />
+      )}
+
+      {isDebugOpen && <DebugOverlay metrics={metrics} onClose={() => setIsDebugOpen(false)} />}
+
+      <HistoryDrawer
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        refreshKey={historyVersion}
+        onReuse={handleReuseTurn}
+        canReuse={!isUploading}
+      />
+
+      {/* After the history drawer, which an import opens, so the prompt stays on top */}
+      {pendingPreset && (
+        <PresetPrompt
+          preset={pendingPreset.preset}
+          source={pendingPreset.source}
+          onApply={handleApplyPendingPreset}
+          onDismiss={() => setPendingPreset(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { AudioAnalysis, TurnAnalysis } from '../types';
+import { midiToNoteName } from '../utils/musicAnalysis';
+
+interface AnalysisPanelProps {
+  analysis: TurnAnalysis | null;
+}
+
+const formatScore = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const scoreColor = (value: number | null) => {
+  if (value === null) return 'text-slate-500';
+  if (value >= 0.75) return 'text-green-400';
+  if (value >= 0.5) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+const pitchRange = (analysis: AudioAnalysis) => {
+  if (analysis.contour.length === 0) return '—';
+  const midis = analysis.contour.map(p => p.midi);
+  return `${midiToNoteName(Math.min(...midis))}–${midiToNoteName(Math.max(...midis))}`;
+};
+
+const SideSummary: React.FC<{ label: string; color: string; analysis: AudioAnalysis }> = ({ label, color, analysis }) => (
+  <div className="space-y-1">
+    <div className={`text-xs font-bold uppercase tracking-widest ${color}`}>{label}</div>
+    <div className="text-sm text-slate-300">Key: {analysis.key?.name ?? '—'}</div>
+    <div className="text-sm text-slate-300">Tempo: {analysis.tempo ? `${Math.round(analysis.tempo.bpm)} BPM` : '—'}</div>
+    <div className="text-sm text-slate-300">Range: {pitchRange(analysis)}</div>
+  </div>
+);
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis }) => {
+  if (!analysis) return null;
+  const { match } = analysis;
+
+  return (
+    <div className="bg-slate-900/40 p-6 rounded-2xl border border-slate-800 max-w-2xl w-full">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-slate-300 font-semibold flex items-center gap-2">
+          <Gauge size={16} /> Match Score
+        </h3>
+        <span className={`text-3xl font-black ${scoreColor(match.overall)}`}>{formatScore(match.overall)}</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+        <div>
+          <div className="text-xs text-slate-500 uppercase tracking-wider">Key</div>
+          <div className={`font-semibold ${scoreColor(match.key)}`}>{formatScore(match.key)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-slate-500 uppercase tracking-wider">Tempo</div>
+          <div className={`font-semibold ${scoreColor(match.tempo)}`}>{formatScore(match.tempo)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-slate-500 uppercase tracking-wider">Notes</div>
+          <div className={`font-semibold ${scoreColor(match.pitchClasses)}`}>{formatScore(match.pitchClasses)}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <SideSummary label="Your input" color="text-cyan-500" analysis={analysis.input} />
+        <SideSummary label="AI continuation" color="text-purple-500" analysis={analysis.output} />
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisPanel;
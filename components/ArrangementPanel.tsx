@@ -0,0 +1,305 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ListMusic, ChevronDown, ChevronUp, Play, Square, Download, Plus, Trash2, X } from 'lucide-react';
+import { Arrangement, ArrangementClip, ArrangementRegion, ArrangementTrack } from '../types';
+import { arrangementDuration, clipDuration, createTrack, isTrackAudible } from '../services/arrangement';
+
+interface ArrangementPanelProps {
+  arrangement: Arrangement;
+  onChange: (arrangement: Arrangement) => void;
+  isPlaying: boolean;
+  getPosition: () => number; // Seconds into the arrangement while playing
+  onPlay: () => void;
+  onStop: () => void;
+  onBounce: () => void;
+  isBouncing: boolean;
+}
+
+interface RegionDrag {
+  trackId: string;
+  regionId: string;
+  startX: number;
+  startOffset: number;
+  secondsPerPx: number;
+}
+
+const CLIP_MIME = 'application/x-melody-weaver-clip';
+
+// The timeline always shows at least this much, then grows in steps
+const MIN_VIEW_SECONDS = 20;
+const VIEW_STEP_SECONDS = 10;
+const SNAP_SECONDS = 0.05;
+const POSITION_REFRESH_MS = 50;
+const MAX_TRACKS = 8;
+
+const CLIP_COLORS: Record<ArrangementClip['source'], string> = {
+  input: 'bg-cyan-500/30 border-cyan-400/60 text-cyan-100',
+  output: 'bg-purple-500/30 border-purple-400/60 text-purple-100',
+};
+
+const snapOffset = (seconds: number) => Math.max(0, Math.round(seconds / SNAP_SECONDS) * SNAP_SECONDS);
+
+const ArrangementPanel: React.FC<ArrangementPanelProps> = ({
+  arrangement,
+  onChange,
+  isPlaying,
+  getPosition,
+  onPlay,
+  onStop,
+  onBounce,
+  isBouncing,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [dropTrackId, setDropTrackId] = useState<string | null>(null);
+  const dragRef = useRef<RegionDrag | null>(null);
+  const getPositionRef = useRef(getPosition);
+  getPositionRef.current = getPosition;
+
+  const { clips, tracks } = arrangement;
+  const clipsById = new Map<string, ArrangementClip>(clips.map(clip => [clip.id, clip]));
+  const duration = arrangementDuration(arrangement);
+  const viewSeconds = Math.max(MIN_VIEW_SECONDS, Math.ceil((duration + 1) / VIEW_STEP_SECONDS) * VIEW_STEP_SECONDS);
+  const regionCount = tracks.reduce((sum, track) => sum + track.regions.length, 0);
+
+  // Playhead
+  useEffect(() => {
+    if (!isPlaying) {
+      setPosition(0);
+      return;
+    }
+    const timer = setInterval(() => setPosition(getPositionRef.current()), POSITION_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying]);
+
+  const updateTrack = (id: string, patch: Partial<ArrangementTrack>) =>
+    onChange({ ...arrangement, tracks: tracks.map(track => (track.id === id ? { ...track, ...patch } : track)) });
+
+  const updateRegions = (trackId: string, update: (regions: ArrangementRegion[]) => ArrangementRegion[]) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (track) updateTrack(trackId, { regions: update(track.regions) });
+  };
+
+  const addTrack = () => onChange({ ...arrangement, tracks: [...tracks, createTrack(tracks.length + 1)] });
+
+  const removeTrack = (id: string) => onChange({ ...arrangement, tracks: tracks.filter(track => track.id !== id) });
+
+  const laneTime = (e: React.DragEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return ((e.clientX - rect.left) / rect.width) * viewSeconds;
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, trackId: string) => {
+    e.preventDefault();
+    setDropTrackId(null);
+    const clipId = e.dataTransfer.getData(CLIP_MIME);
+    if (!clipsById.has(clipId)) return;
+    const region: ArrangementRegion = { id: crypto.randomUUID(), clipId, offset: snapOffset(laneTime(e)) };
+    updateRegions(trackId, regions => [...regions, region]);
+  };
+
+  const handleRegionPointerDown = (e: React.PointerEvent<HTMLDivElement>, trackId: string, region: ArrangementRegion) => {
+    const lane = e.currentTarget.parentElement;
+    if (!lane) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      trackId,
+      regionId: region.id,
+      startX: e.clientX,
+      startOffset: region.offset,
+      // Fixed for the whole drag, even if the view grows under it
+      secondsPerPx: viewSeconds / lane.getBoundingClientRect().width,
+    };
+  };
+
+  const handleRegionPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const offset = snapOffset(drag.startOffset + (e.clientX - drag.startX) * drag.secondsPerPx);
+    updateRegions(drag.trackId, regions => regions.map(r => (r.id === drag.regionId ? { ...r, offset } : r)));
+  };
+
+  const handleRegionPointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const percent = (seconds: number) => `${(seconds / viewSeconds) * 100}%`;
+
+  return (
+    <div className="bg-slate-900/40 rounded-2xl border border-slate-800 max-w-2xl w-full">
+      <div className="flex items-center justify-between px-6 py-4 gap-4">
+        <button onClick={() => setIsOpen(!isOpen)} className="flex-1 flex items-center gap-2 text-slate-300 font-semibold text-left">
+          <ListMusic size={16} /> Arrangement
+          <span className="text-xs font-normal text-slate-500">
+            ({regionCount} {regionCount === 1 ? 'take' : 'takes'} on {tracks.length} tracks{duration > 0 && `, ${duration.toFixed(1)}s`})
+          </span>
+        </button>
+        <span className="flex items-center gap-2">
+          {isPlaying ? (
+            <button onClick={onStop} title="Stop" className="p-2 rounded-full bg-red-500/10 text-red-400 border border-red-500/40 hover:bg-red-500/20">
+              <Square size={14} />
+            </button>
+          ) : (
+            <button onClick={onPlay} disabled={duration === 0} title="Play the arrangement" className="p-2 rounded-full bg-cyan-500/10 text-cyan-400 border border-cyan-500/40 hover:bg-cyan-500/20 disabled:opacity-40">
+              <Play size={14} />
+            </button>
+          )}
+          <button
+            onClick={onBounce}
+            disabled={duration === 0 || isBouncing}
+            title="Mix down to a stereo WAV"
+            className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-semibold bg-slate-800 text-cyan-400 hover:bg-slate-700 disabled:opacity-40"
+          >
+            <Download size={14} /> {isBouncing ? 'Bouncing...' : 'Bounce'}
+          </button>
+        </span>
+        <button onClick={() => setIsOpen(!isOpen)} className="text-slate-300">
+          {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="px-6 pb-6 space-y-4">
+          {/* Clip bin */}
+          <div className="space-y-1">
+            <div className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Takes</div>
+            {clips.length === 0 ? (
+              <div className="text-xs text-slate-500">Finished turns show up here. Drag them onto a track.</div>
+            ) : (
+              <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto">
+                {clips.map(clip => (
+                  <span
+                    key={clip.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData(CLIP_MIME, clip.id);
+                      e.dataTransfer.effectAllowed = 'copy';
+                    }}
+                    title={`${clip.name} (${clipDuration(clip).toFixed(1)}s)`}
+                    className={`px-2 py-1 rounded-md border text-xs cursor-grab max-w-[12rem] truncate ${CLIP_COLORS[clip.source]}`}
+                  >
+                    {clip.name}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Tracks */}
+          <div className="space-y-2">
+            {tracks.map(track => {
+              const audible = isTrackAudible(track, tracks);
+              return (
+                <div key={track.id} className="flex gap-2 items-stretch">
+                  <div className={`w-40 shrink-0 space-y-1 text-xs ${audible ? '' : 'opacity-50'}`}>
+                    <div className="flex items-center gap-1">
+                      <input
+                        value={track.name}
+                        onChange={(e) => updateTrack(track.id, { name: e.target.value })}
+                        className="flex-1 min-w-0 bg-transparent text-slate-300 font-semibold focus:outline-none"
+                      />
+                      <button
+                        onClick={() => updateTrack(track.id, { mute: !track.mute })}
+                        title="Mute"
+                        className={`w-5 h-5 rounded font-bold ${track.mute ? 'bg-red-500/30 text-red-300' : 'bg-slate-800 text-slate-500'}`}
+                      >
+                        M
+                      </button>
+                      <button
+                        onClick={() => updateTrack(track.id, { solo: !track.solo })}
+                        title="Solo"
+                        className={`w-5 h-5 rounded font-bold ${track.solo ? 'bg-yellow-500/30 text-yellow-300' : 'bg-slate-800 text-slate-500'}`}
+                      >
+                        S
+                      </button>
+                      <button onClick={() => removeTrack(track.id)} title="Remove track" className="text-slate-600 hover:text-red-400">
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                    <label className="flex items-center gap-1 text-slate-500" title={`Gain ${Math.round(track.gain * 100)}%`}>
+                      Vol
+                      <input
+                        type="range"
+                        min={0}
+                        max={1.5}
+                        step={0.05}
+                        value={track.gain}
+                        onChange={(e) => updateTrack(track.id, { gain: Number(e.target.value) })}
+                        className="flex-1 min-w-0 accent-cyan-500"
+                      />
+                    </label>
+                    <label className="flex items-center gap-1 text-slate-500" title={track.pan === 0 ? 'Centre' : `${Math.round(Math.abs(track.pan) * 100)}% ${track.pan < 0 ? 'left' : 'right'}`}>
+                      Pan
+                      <input
+                        type="range"
+                        min={-1}
+                        max={1}
+                        step={0.05}
+                        value={track.pan}
+                        onChange={(e) => updateTrack(track.id, { pan: Number(e.target.value) })}
+                        onDoubleClick={() => updateTrack(track.id, { pan: 0 })}
+                        className="flex-1 min-w-0 accent-cyan-500"
+                      />
+                    </label>
+                  </div>
+
+                  <div
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDropTrackId(track.id);
+                    }}
+                    onDragLeave={() => setDropTrackId(null)}
+                    onDrop={(e) => handleDrop(e, track.id)}
+                    className={`relative flex-1 min-h-16 rounded-lg border overflow-hidden bg-slate-950/60
+                      ${dropTrackId === track.id ? 'border-cyan-500' : 'border-slate-800'}`}
+                  >
+                    {track.regions.map(region => {
+                      const clip = clipsById.get(region.clipId);
+                      if (!clip) return null;
+                      return (
+                        <div
+                          key={region.id}
+                          onPointerDown={(e) => handleRegionPointerDown(e, track.id, region)}
+                          onPointerMove={handleRegionPointerMove}
+                          onPointerUp={handleRegionPointerUp}
+                          title={`${clip.name} at ${region.offset.toFixed(2)}s`}
+                          style={{ left: percent(region.offset), width: percent(clipDuration(clip)) }}
+                          className={`absolute top-1 bottom-1 rounded border px-1 text-[10px] cursor-ew-resize touch-none select-none overflow-hidden flex items-start justify-between gap-1 ${CLIP_COLORS[clip.source]}`}
+                        >
+                          <span className="truncate">{clip.name}</span>
+                          <button
+                            onPointerDown={(e) => e.stopPropagation()}
+                            onClick={() => updateRegions(track.id, regions => regions.filter(r => r.id !== region.id))}
+                            title="Remove from track"
+                            className="shrink-0 opacity-60 hover:opacity-100"
+                          >
+                            <X size={10} />
+                          </button>
+                        </div>
+                      );
+                    })}
+                    {isPlaying && (
+                      <div className="absolute top-0 bottom-0 w-px bg-yellow-300 pointer-events-none" style={{ left: percent(position) }} />
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-slate-500">
+            <button
+              onClick={addTrack}
+              disabled={tracks.length >= MAX_TRACKS}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-full font-semibold bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+            >
+              <Plus size={14} /> Add track
+            </button>
+            <span>Timeline {viewSeconds}s · drag takes to move them; level changes apply while playing</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArrangementPanel;
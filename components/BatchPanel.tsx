@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Layers, Upload, Download, XCircle, Trash2, Loader2, CheckCircle2, AlertCircle, Clock } from 'lucide-react';
+import { BatchItem, BatchItemStatus, OUTPUT_SAMPLE_RATE } from '../types';
+
+interface BatchPanelProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  disabled: boolean; // e.g. while a single clip is uploading
+  onAddFiles: (files: File[]) => void;
+  onCancel: () => void;
+  onClear: () => void;
+  onExport: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  sending: 'Sending',
+  waiting: 'Waiting for AI',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+const StatusIcon: React.FC<{ status: BatchItemStatus }> = ({ status }) => {
+  switch (status) {
+    case 'queued': return <Clock size={14} className="text-slate-500" />;
+    case 'sending':
+    case 'waiting': return <Loader2 size={14} className="text-cyan-400 animate-spin" />;
+    case 'done': return <CheckCircle2 size={14} className="text-green-400" />;
+    case 'failed': return <AlertCircle size={14} className="text-red-400" />;
+  }
+};
+
+const audioFiles = (list: FileList | null) => Array.from(list ?? []).filter(f => f.type.startsWith('audio/') || /\.(wav|mp3|ogg|flac|m4a|aac|webm)$/i.test(f.name));
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ items, isRunning, disabled, onAddFiles, onCancel, onClear, onExport }) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const doneCount = items.filter(i => i.status === 'done').length;
+  const queuedCount = items.filter(i => i.status === 'queued').length;
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    if (disabled) return;
+    const files = audioFiles(e.dataTransfer.files);
+    if (files.length > 0) onAddFiles(files);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = audioFiles(e.target.files);
+    if (files.length > 0) onAddFiles(files);
+    // Reset value so the same files can be queued again
+    e.target.value = '';
+  };
+
+  return (
+    <div className="bg-slate-900/40 rounded-2xl border border-slate-800 max-w-2xl w-full px-6 py-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="text-slate-300 font-semibold flex items-center gap-2">
+          <Layers size={16} /> Batch
+          {items.length > 0 && (
+            <span className="text-xs font-normal text-slate-500">
+              ({doneCount}/{items.length} done{queuedCount > 0 && `, ${queuedCount} queued`})
+            </span>
+          )}
+        </span>
+        <div className="flex gap-2">
+          {isRunning && queuedCount > 0 && (
+            <button onClick={onCancel} title="Drop clips that haven't started" className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-semibold bg-slate-800 text-red-400 hover:bg-slate-700">
+              <XCircle size={14} /> Cancel queued
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            disabled={isRunning || items.length === 0}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-semibold bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+          >
+            <Trash2 size={14} /> Clear
+          </button>
+          <button
+            onClick={onExport}
+            disabled={doneCount === 0}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-semibold bg-slate-800 text-cyan-400 hover:bg-slate-700 disabled:opacity-40"
+          >
+            <Download size={14} /> Export zip
+          </button>
+        </div>
+      </div>
+
+      {/* Drop zone */}
+      <label
+        onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center gap-1 py-5 rounded-xl border-2 border-dashed text-sm transition-colors
+          ${disabled ? 'opacity-40 cursor-not-allowed border-slate-800 text-slate-600' : 'cursor-pointer'}
+          ${isDragOver ? 'border-cyan-400 bg-cyan-500/10 text-cyan-300' : 'border-slate-700 text-slate-500 hover:border-slate-600'}`}
+      >
+        <input type="file" accept="audio/*" multiple onChange={handleChange} disabled={disabled} className="hidden" />
+        <Upload size={18} />
+        Drop audio clips here or click to choose several
+        <span className="text-xs text-slate-600">Each clip is sent as its own turn, in order</span>
+      </label>
+
+      {items.length > 0 && (
+        <div className="space-y-1 max-h-56 overflow-y-auto">
+          {items.map(item => (
+            <div key={item.id} className="flex items-center gap-2 bg-slate-950/60 border border-slate-800 rounded-lg px-3 py-1.5 text-xs">
+              <StatusIcon status={item.status} />
+              <span className="text-slate-300 truncate flex-1" title={item.file.name}>{item.file.name}</span>
+              <span className={item.status === 'failed' ? 'text-red-400 truncate max-w-[40%]' : 'text-slate-500'} title={item.error}>
+                {item.status === 'failed' && item.error ? item.error : STATUS_LABELS[item.status]}
+                {item.turn && ` · AI ${(item.turn.output.length / OUTPUT_SAMPLE_RATE).toFixed(1)}s`}
+                {item.turn && item.sentAt !== undefined && ` · ${((item.turn.completedAt - item.sentAt) / 1000).toFixed(1)}s response`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,70 @@
+import React, { useEffect, useRef } from 'react';
+import { MessageSquare, Paperclip, Trash2 } from 'lucide-react';
+import { ChatMessage } from '../types';
+import PromptBar from './PromptBar';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  onClear: () => void;
+  onSend: (text: string) => Promise<void>;
+  onAttach: (text: string | null) => void;
+  clipInstruction: string | null;
+  sendDisabled: boolean;
+}
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Transcript of typed directions and the model's text replies, with the prompt bar
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onClear, onSend, onAttach, clipInstruction, sendDisabled }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Follow the conversation as messages arrive or grow
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages]);
+
+  return (
+    <div className="bg-slate-900/40 rounded-2xl border border-slate-800 max-w-2xl w-full px-6 py-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-slate-300 font-semibold flex items-center gap-2">
+          <MessageSquare size={16} /> Directions
+        </span>
+        {messages.length > 0 && (
+          <button onClick={onClear} className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-300">
+            <Trash2 size={12} /> Clear
+          </button>
+        )}
+      </div>
+
+      {messages.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Steer the improvisation in words, on their own or attached to your next clip. Text the AI sends back stays here.
+        </p>
+      ) : (
+        <div ref={listRef} className="space-y-2 max-h-64 overflow-y-auto pr-1">
+          {messages.map(message => (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[85%] rounded-lg px-3 py-2 text-sm border
+                  ${message.role === 'user'
+                    ? 'bg-cyan-500/10 border-cyan-500/30 text-cyan-100'
+                    : 'bg-purple-500/10 border-purple-500/30 text-purple-200'}`}
+              >
+                <p className="whitespace-pre-wrap break-words">{message.text}</p>
+                <p className="text-[10px] text-slate-500 mt-1 flex items-center gap-1">
+                  {message.attachedTo && <><Paperclip size={10} /> {message.attachedTo} ·</>}
+                  {formatTime(message.at)}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <PromptBar onSend={onSend} onAttach={onAttach} clipInstruction={clipInstruction} sendDisabled={sendDisabled} />
+    </div>
+  );
+};
+
+export default ChatPanel;
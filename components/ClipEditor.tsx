@@ -0,0 +1,292 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Play, Square, Send, Scissors, Loader2 } from 'lucide-react';
+import { ClipSelection } from '../types';
+import { decodeAudioFile, mixToMono } from '../utils/audioUtils';
+import { detectOnsets } from '../utils/musicAnalysis';
+
+interface ClipEditorProps {
+  file: File;
+  maxSeconds: number;
+  onMaxSecondsChange: (seconds: number) => void;
+  onSend: (buffer: AudioBuffer, selection: ClipSelection) => void;
+  onCancel: () => void;
+}
+
+type DragHandle = 'start' | 'end';
+
+const HANDLE_GRAB_PX = 8;
+const SNAP_PX = 10;
+const MIN_SELECTION_SECONDS = 0.1;
+
+const ClipEditor: React.FC<ClipEditorProps> = ({ file, maxSeconds, onMaxSecondsChange, onSend, onCancel }) => {
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [waveform, setWaveform] = useState<Float32Array | null>(null);
+  const [onsets, setOnsets] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  const [normalize, setNormalize] = useState(true);
+  const [snapToOnsets, setSnapToOnsets] = useState(true);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [width, setWidth] = useState(0);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragHandle | null>(null);
+  const playbackContextRef = useRef<AudioContext | null>(null);
+  const playbackSourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  const duration = buffer?.duration ?? 0;
+
+  // Decode and find onsets once per file
+  useEffect(() => {
+    let cancelled = false;
+    setBuffer(null);
+    setError(null);
+    decodeAudioFile(file)
+      .then(decoded => {
+        if (cancelled) return;
+        const mono = mixToMono(decoded);
+        const detected = detectOnsets(mono, decoded.sampleRate);
+        const start = detected[0] ?? 0;
+        setBuffer(decoded);
+        setWaveform(mono);
+        setOnsets(detected);
+        setSelection({ start, end: Math.min(decoded.duration, start + maxSeconds) });
+      })
+      .catch(e => !cancelled && setError(`Could not decode ${file.name}: ${e.message}`));
+    return () => { cancelled = true; };
+  }, [file]);
+
+  // Keep the selection within a lowered maximum
+  useEffect(() => {
+    setSelection(s => (s.end - s.start > maxSeconds ? { ...s, end: s.start + maxSeconds } : s));
+  }, [maxSeconds]);
+
+  useEffect(() => () => {
+    playbackSourceRef.current?.stop();
+    playbackContextRef.current?.close();
+  }, []);
+
+  // Track the canvas width so the waveform redraws at the right resolution
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const resizeObserver = new ResizeObserver(() => setWidth(canvas.getBoundingClientRect().width));
+    resizeObserver.observe(canvas);
+    return () => resizeObserver.disconnect();
+  }, [buffer]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !waveform || !duration || width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const height = canvas.getBoundingClientRect().height;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const toX = (time: number) => (time / duration) * width;
+
+    // Selected region
+    ctx.fillStyle = 'rgba(34, 211, 238, 0.12)';
+    ctx.fillRect(toX(selection.start), 0, toX(selection.end) - toX(selection.start), height);
+
+    // Min/max envelope, one column per CSS pixel
+    const samplesPerColumn = waveform.length / width;
+    const mid = height / 2;
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor(x * samplesPerColumn);
+      const to = Math.max(from + 1, Math.floor((x + 1) * samplesPerColumn));
+      let min = 0;
+      let max = 0;
+      for (let i = from; i < to && i < waveform.length; i++) {
+        if (waveform[i] < min) min = waveform[i];
+        if (waveform[i] > max) max = waveform[i];
+      }
+      const time = x / width * duration;
+      ctx.fillStyle = time >= selection.start && time <= selection.end ? '#22d3ee' : '#475569';
+      ctx.fillRect(x, mid - max * mid, 1, Math.max(1, (max - min) * mid));
+    }
+
+    // Onset markers
+    ctx.fillStyle = 'rgba(168, 85, 247, 0.6)';
+    for (const onset of onsets) ctx.fillRect(toX(onset), 0, 1, 6);
+
+    // Handles
+    ctx.fillStyle = '#f8fafc';
+    ctx.fillRect(toX(selection.start) - 1, 0, 2, height);
+    ctx.fillRect(toX(selection.end) - 1, 0, 2, height);
+  }, [waveform, duration, selection, onsets, width]);
+
+  const stopPreview = () => {
+    if (playbackSourceRef.current) {
+      playbackSourceRef.current.onended = null;
+      playbackSourceRef.current.stop();
+      playbackSourceRef.current = null;
+    }
+    setIsPlaying(false);
+  };
+
+  const startPreview = () => {
+    if (!buffer) return;
+    stopPreview();
+    if (!playbackContextRef.current) {
+      playbackContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    const ctx = playbackContextRef.current;
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.onended = () => setIsPlaying(false);
+    source.start(0, selection.start, selection.end - selection.start);
+    playbackSourceRef.current = source;
+    setIsPlaying(true);
+  };
+
+  const timeAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((e.clientX - rect.left) / rect.width) * duration));
+  };
+
+  const snap = (time: number) => {
+    if (!snapToOnsets || onsets.length === 0 || width === 0) return time;
+    const tolerance = (SNAP_PX / width) * duration;
+    const nearest = onsets.reduce((best, onset) => (Math.abs(onset - time) < Math.abs(best - time) ? onset : best));
+    return Math.abs(nearest - time) <= tolerance ? nearest : time;
+  };
+
+  const moveHandle = (handle: DragHandle, rawTime: number) => {
+    const time = snap(rawTime);
+    setSelection(s => {
+      if (handle === 'start') {
+        const start = Math.max(s.end - maxSeconds, Math.min(time, s.end - MIN_SELECTION_SECONDS));
+        return { start: Math.max(0, start), end: s.end };
+      }
+      const end = Math.min(s.start + maxSeconds, Math.max(time, s.start + MIN_SELECTION_SECONDS));
+      return { start: s.start, end: Math.min(duration, end) };
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!duration) return;
+    stopPreview();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const time = timeAt(e);
+    const grab = (HANDLE_GRAB_PX / e.currentTarget.getBoundingClientRect().width) * duration;
+
+    if (Math.abs(time - selection.start) <= grab) {
+      dragRef.current = 'start';
+    } else if (Math.abs(time - selection.end) <= grab) {
+      dragRef.current = 'end';
+    } else {
+      // Start a fresh selection from here
+      const start = snap(time);
+      setSelection({ start, end: Math.min(duration, start + MIN_SELECTION_SECONDS) });
+      dragRef.current = 'end';
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragRef.current) moveHandle(dragRef.current, timeAt(e));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const selectionSeconds = selection.end - selection.start;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-950/70" onClick={onCancel}></div>
+      <div className="relative w-full max-w-3xl bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-slate-200 font-semibold flex items-center gap-2 min-w-0">
+            <Scissors size={18} /> <span className="truncate">{file.name}</span>
+          </h2>
+          <button onClick={onCancel} className="text-slate-500 hover:text-slate-300" title="Cancel">
+            <X size={18} />
+          </button>
+        </div>
+
+        {error && <div className="text-red-400 text-sm">{error}</div>}
+
+        {!buffer && !error && (
+          <div className="h-40 flex items-center justify-center text-slate-500 text-sm gap-2">
+            <Loader2 size={16} className="animate-spin" /> Decoding...
+          </div>
+        )}
+
+        {buffer && (
+          <>
+            <canvas
+              ref={canvasRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className="w-full h-40 bg-slate-950/60 border border-slate-800 rounded-xl cursor-crosshair touch-none"
+            />
+
+            <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-400">
+              <span>
+                {selection.start.toFixed(2)}s – {selection.end.toFixed(2)}s
+                <span className={selectionSeconds >= maxSeconds - 0.01 ? 'text-yellow-400' : 'text-slate-300'}>
+                  {' '}({selectionSeconds.toFixed(1)}s of max {maxSeconds}s)
+                </span>
+                {' '}· Clip length {duration.toFixed(1)}s
+              </span>
+              <span className="text-slate-500">Drag to select; drag the edges to adjust</span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-3 text-sm text-slate-300">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={snapToOnsets} onChange={(e) => setSnapToOnsets(e.target.checked)} className="accent-cyan-500" />
+                Snap to onsets ({onsets.length})
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={normalize} onChange={(e) => setNormalize(e.target.checked)} className="accent-cyan-500" />
+                Normalize volume
+              </label>
+              <label className="flex items-center gap-2">
+                Max length
+                <input
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={maxSeconds}
+                  onChange={(e) => onMaxSecondsChange(Math.max(1, Math.min(60, Number(e.target.value) || 1)))}
+                  className="w-16 bg-slate-950/60 border border-slate-700 rounded-lg px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-cyan-500"
+                />
+                s
+              </label>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => (isPlaying ? stopPreview() : startPreview())}
+            disabled={!buffer}
+            className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+          >
+            {isPlaying ? <Square size={14} /> : <Play size={14} />} Preview
+          </button>
+          <button
+            onClick={() => {
+              if (!buffer) return;
+              stopPreview();
+              onSend(buffer, { ...selection, normalize });
+            }}
+            disabled={!buffer}
+            className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold bg-cyan-500 text-slate-950 hover:bg-cyan-400 disabled:opacity-40"
+          >
+            <Send size={14} /> Send selection
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClipEditor;
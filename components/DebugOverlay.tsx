@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Bug, Download, Gauge, X } from 'lucide-react';
+import { MetricsEvent, SessionMetricsSnapshot } from '../types';
+import { SessionMetrics } from '../services/sessionMetrics';
+import { downloadBlob, timestampForFilename } from '../utils/fileUtils';
+import { CodecBenchmarkResult, runCodecBenchmark } from '../utils/codecBenchmark';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('DebugOverlay');
+
+interface DebugOverlayProps {
+  metrics: SessionMetrics | null;
+  onClose: () => void;
+}
+
+const REFRESH_MS = 500;
+const VISIBLE_EVENTS = 8;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1048576 ? `${(bytes / 1048576).toFixed(2)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const formatMs = (value: number | null) => (value === null ? '–' : `${Math.round(value)} ms`);
+
+const describeEvent = (event: MetricsEvent) => {
+  switch (event.type) {
+    case 'reconnecting': return `reconnecting #${event.attempt} (${event.reason})`;
+    case 'inputEnded': return `input ended (${event.source})`;
+    case 'firstChunk': return `first chunk ${formatMs(event.latencyMs)}`;
+    case 'underrun': return `underrun ${(event.gapSeconds * 1000).toFixed(0)} ms`;
+    default: return event.type;
+  }
+};
+
+const Stat: React.FC<{ label: string; value: string; warn?: boolean }> = ({ label, value, warn }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-slate-500">{label}</span>
+    <span className={warn ? 'text-yellow-400' : 'text-slate-200'}>{value}</span>
+  </div>
+);
+
+// Live session telemetry, polled rather than pushed so chunk-rate events don't re-render the app
+const DebugOverlay: React.FC<DebugOverlayProps> = ({ metrics, onClose }) => {
+  const [snapshot, setSnapshot] = useState<SessionMetricsSnapshot | null>(null);
+  const [events, setEvents] = useState<MetricsEvent[]>([]);
+  const [benchmark, setBenchmark] = useState<CodecBenchmarkResult[] | null>(null);
+
+  useEffect(() => {
+    if (!metrics) return;
+    const refresh = () => {
+      setSnapshot(metrics.getSnapshot());
+      setEvents(metrics.getRecentEvents());
+    };
+    refresh();
+    const timer = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [metrics]);
+
+  const handleExport = () => {
+    if (!metrics) return;
+    const json = JSON.stringify(metrics.getSnapshot(), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `melody-weaver-metrics-${timestampForFilename(new Date())}.json`);
+  };
+
+  // Synchronous and takes a moment; results for every size go to the console
+  const handleBenchmark = () => {
+    try {
+      const results = runCodecBenchmark();
+      log.info('PCM codec benchmark (ms per call)', results);
+      setBenchmark(results);
+    } catch (e) {
+      log.error('Codec benchmark failed', e);
+    }
+  };
+
+  const benchmarkSize = benchmark ? Math.max(...benchmark.map(r => r.bytes)) : 0;
+
+  const firstEventAt = events[0]?.at ?? 0;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 w-72 bg-slate-950/90 backdrop-blur border border-slate-700 rounded-xl shadow-2xl p-4 text-xs font-mono space-y-3">
+      <div className="flex items-center justify-between font-sans">
+        <span className="flex items-center gap-2 text-slate-300 font-semibold text-sm">
+          <Bug size={14} /> Session metrics
+        </span>
+        <span className="flex items-center gap-2">
+          <button onClick={handleBenchmark} title="Benchmark the PCM codec" className="text-cyan-400 hover:text-cyan-300">
+            <Gauge size={14} />
+          </button>
+          <button onClick={handleExport} disabled={!snapshot?.startedAt} title="Export metrics as JSON" className="text-cyan-400 hover:text-cyan-300 disabled:opacity-40">
+            <Download size={14} />
+          </button>
+          <button onClick={onClose} title="Close (Ctrl+Shift+D)" className="text-slate-500 hover:text-slate-300">
+            <X size={14} />
+          </button>
+        </span>
+      </div>
+
+      {!snapshot?.startedAt ? (
+        <div className="text-slate-500 font-sans">No session yet.</div>
+      ) : (
+        <>
+          <div className="space-y-0.5">
+            <Stat label="Latency last" value={formatMs(snapshot.latency.last)} />
+            <Stat label="Latency mean" value={formatMs(snapshot.latency.mean)} />
+            <Stat label="Latency min/max" value={`${formatMs(snapshot.latency.min)} / ${formatMs(snapshot.latency.max)}`} />
+            <Stat label="Chunk jitter" value={formatMs(snapshot.meanJitterMs)} />
+            <Stat label="Sent" value={formatBytes(snapshot.bytesSent)} />
+            <Stat label="Received" value={`${formatBytes(snapshot.bytesReceived)} (${snapshot.chunksReceived})`} />
+            <Stat label="Turns" value={String(snapshot.turns.length)} />
+            <Stat label="Reconnects" value={String(snapshot.reconnects)} warn={snapshot.reconnects > 0} />
+            <Stat label="Underruns" value={String(snapshot.underruns)} warn={snapshot.underruns > 0} />
+            <Stat label="Session" value={`${(snapshot.durationMs / 1000).toFixed(0)} s`} />
+          </div>
+
+          {events.length > 0 && (
+            <div className="border-t border-slate-800 pt-2 space-y-0.5 text-slate-400">
+              {events.slice(-VISIBLE_EVENTS).map((event, i) => (
+                <div key={`${event.at}-${i}`} className="flex gap-2">
+                  <span className="text-slate-600 w-12 text-right shrink-0">{((event.at - firstEventAt) / 1000).toFixed(1)}s</span>
+                  <span className="truncate">{describeEvent(event)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {benchmark && (
+        <div className="border-t border-slate-800 pt-2 space-y-0.5">
+          <div className="text-slate-500 font-sans">Codec, {formatBytes(benchmarkSize)} (encode / decode)</div>
+          {benchmark.filter(r => r.bytes === benchmarkSize).map(r => (
+            <Stat key={r.name} label={r.name} value={`${r.encodeMs.toFixed(3)} / ${r.decodeMs.toFixed(3)}`} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DebugOverlay;
@@ -22,7 +22,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled, isUploa
     <div className="relative group">
       <input
         type="file"
-        accept="audio/*"
+        accept="audio/*,.mid,.midi"
         onChange={handleChange}
         disabled={isDisabled}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed z-10"
@@ -36,7 +36,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled, isUploa
           }`}
       >
         {isUploading ? <Loader2 size={20} className="animate-spin" /> : <Upload size={20} />}
-        <span>{isUploading ? 'Sending Clip...' : 'Upload Clip (~10s)'}</span>
+        <span>{isUploading ? 'Sending Clip...' : 'Upload Clip'}</span>
       </button>
     </div>
   );
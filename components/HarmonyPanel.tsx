@@ -0,0 +1,124 @@
+import React from 'react';
+import { Layers, Square, Download } from 'lucide-react';
+import { HarmonySettings, HarmonyTake, PerformanceMode, OUTPUT_SAMPLE_RATE } from '../types';
+
+interface HarmonyPanelProps {
+  mode: PerformanceMode;
+  onModeChange: (mode: PerformanceMode) => void;
+  settings: HarmonySettings;
+  onSettingsChange: (settings: HarmonySettings) => void;
+  isLoopPlaying: boolean;
+  onStopLoop: () => void;
+  takes: HarmonyTake[];
+  onExport: (take: HarmonyTake) => void;
+}
+
+const MODES: { mode: PerformanceMode; label: string; description: string }[] = [
+  { mode: 'continue', label: 'Continue', description: 'The AI picks up where your clip stops' },
+  { mode: 'harmony', label: 'Harmony', description: 'Your clip loops and the AI plays along over it' },
+];
+
+const labelClass = 'text-xs font-semibold text-slate-400 uppercase tracking-wider';
+
+const formatSeconds = (samples: number) => `${(samples / OUTPUT_SAMPLE_RATE).toFixed(1)}s`;
+
+const HarmonyPanel: React.FC<HarmonyPanelProps> = ({
+  mode,
+  onModeChange,
+  settings,
+  onSettingsChange,
+  isLoopPlaying,
+  onStopLoop,
+  takes,
+  onExport,
+}) => {
+  const isHarmony = mode === 'harmony';
+  const update = (patch: Partial<HarmonySettings>) => onSettingsChange({ ...settings, ...patch });
+
+  return (
+    <div className="bg-slate-900/40 rounded-2xl border border-slate-800 max-w-2xl w-full px-6 py-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="text-slate-300 font-semibold flex items-center gap-2">
+          <Layers size={16} /> Performance
+          {isLoopPlaying && <span className="text-xs font-normal text-cyan-400">Loop playing</span>}
+        </span>
+        <div className="flex gap-1 bg-slate-950/60 border border-slate-800 rounded-full p-1">
+          {MODES.map(option => (
+            <button
+              key={option.mode}
+              onClick={() => onModeChange(option.mode)}
+              title={option.description}
+              className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors
+                ${mode === option.mode ? 'bg-slate-700 text-slate-100' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isHarmony && (
+        <>
+          <p className="text-xs text-slate-500">
+            Upload a clip: it loops as a backing bed, and the AI's reply starts with the loop. Later replies wait for the next pass.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-1">
+              <label className={labelClass}>Loop level {Math.round(settings.bedLevel * 100)}%</label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings.bedLevel}
+                onChange={(e) => update({ bedLevel: Number(e.target.value) })}
+                className="w-full accent-cyan-500"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>AI level {Math.round(settings.harmonyLevel * 100)}%</label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings.harmonyLevel}
+                onChange={(e) => update({ harmonyLevel: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+            <button
+              onClick={onStopLoop}
+              disabled={!isLoopPlaying}
+              className="flex items-center justify-center gap-2 px-4 py-2 rounded-full text-sm font-semibold bg-red-500/10 text-red-400 border border-red-500/40 hover:bg-red-500/20 disabled:opacity-40"
+            >
+              <Square size={14} /> Stop loop
+            </button>
+          </div>
+        </>
+      )}
+
+      {takes.length > 0 && (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {takes.map(take => (
+            <div key={take.index} className="flex items-center justify-between gap-2 bg-slate-950/60 border border-slate-800 rounded-lg px-3 py-1.5 text-xs">
+              <span className="text-slate-300 font-semibold">Take {take.index}</span>
+              <span className="text-slate-500 flex-1 truncate">
+                {take.name} · loop {formatSeconds(take.bed.length)} · AI {formatSeconds(take.harmony.length)}
+              </span>
+              <button
+                onClick={() => onExport(take)}
+                title="Download the loop and the AI's part mixed at the current levels"
+                className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-300"
+              >
+                <Download size={12} /> WAV
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HarmonyPanel;
@@ -0,0 +1,209 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, History, Play, Square, Pencil, Trash2, Download, CornerDownLeft, KeyboardMusic, Search } from 'lucide-react';
+import { HistoryTurn, INPUT_SAMPLE_RATE, LyricSegment, OUTPUT_SAMPLE_RATE } from '../types';
+import { deleteTurn, listTurns, renameTurn, turnMatchesSearch } from '../services/historyStore';
+import { encodeWAV, playSamples, resampleLinear } from '../utils/audioUtils';
+import { downloadBlob } from '../utils/fileUtils';
+import { transcribeTurnToMidi } from '../utils/transcription';
+
+interface HistoryDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  refreshKey: number; // Bumped by the parent whenever a turn is saved
+  onReuse: (turn: HistoryTurn) => void; // Send a past continuation back in as input
+  canReuse: boolean;
+}
+
+type PlayingSide = 'input' | 'output';
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+const lyricLine = (segments: LyricSegment[] | undefined) => (segments ?? []).map(segment => segment.text).join(' ');
+
+const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ isOpen, onClose, refreshKey, onReuse, canReuse }) => {
+  const [turns, setTurns] = useState<HistoryTurn[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [playing, setPlaying] = useState<{ id: string; side: PlayingSide } | null>(null);
+  const [query, setQuery] = useState('');
+  const playbackContextRef = useRef<AudioContext | null>(null);
+  const playbackSourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    // Each (re)load starts clean; a stale failure shouldn't outlive the drawer
+    setError(null);
+    listTurns()
+      .then(setTurns)
+      .catch((e) => setError(`Could not load history: ${e.message}`));
+  }, [isOpen, refreshKey]);
+
+  // Release the playback context when the drawer goes away
+  useEffect(() => () => {
+    playbackSourceRef.current?.stop();
+    playbackContextRef.current?.close();
+  }, []);
+
+  const stopPlayback = () => {
+    if (playbackSourceRef.current) {
+      playbackSourceRef.current.onended = null;
+      playbackSourceRef.current.stop();
+      playbackSourceRef.current = null;
+    }
+    setPlaying(null);
+  };
+
+  const play = (turn: HistoryTurn, side: PlayingSide) => {
+    stopPlayback();
+    if (!playbackContextRef.current) {
+      playbackContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    const source = side === 'input'
+      ? playSamples(playbackContextRef.current, turn.input, INPUT_SAMPLE_RATE)
+      : playSamples(playbackContextRef.current, turn.output, OUTPUT_SAMPLE_RATE);
+    source.onended = () => setPlaying(null);
+    playbackSourceRef.current = source;
+    setPlaying({ id: turn.id, side });
+  };
+
+  const handleRename = async (turn: HistoryTurn) => {
+    const name = window.prompt('Rename turn:', turn.name);
+    if (!name || !name.trim()) return;
+    try {
+      const updated = await renameTurn(turn.id, name.trim());
+      if (updated) setTurns(current => current.map(t => (t.id === turn.id ? updated : t)));
+      setError(null);
+    } catch (e: any) {
+      setError(`Could not rename "${turn.name}": ${e.message}`);
+    }
+  };
+
+  const handleDelete = async (turn: HistoryTurn) => {
+    if (!window.confirm(`Delete "${turn.name}"?`)) return;
+    if (playing?.id === turn.id) stopPlayback();
+    try {
+      await deleteTurn(turn.id);
+      setTurns(current => current.filter(t => t.id !== turn.id));
+      setError(null);
+    } catch (e: any) {
+      setError(`Could not delete "${turn.name}": ${e.message}`);
+    }
+  };
+
+  // Exports the prompt followed by the continuation, as it was heard
+  const handleExport = (turn: HistoryTurn) => {
+    const input = resampleLinear(turn.input, INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE);
+    const combined = new Float32Array(input.length + turn.output.length);
+    combined.set(input);
+    combined.set(turn.output, input.length);
+    downloadBlob(encodeWAV([combined], OUTPUT_SAMPLE_RATE), `${turn.name}.wav`);
+  };
+
+  const handleExportMidi = (turn: HistoryTurn) => {
+    const midi = transcribeTurnToMidi(turn.input, INPUT_SAMPLE_RATE, turn.output, OUTPUT_SAMPLE_RATE, turn.name);
+    downloadBlob(new Blob([midi], { type: 'audio/midi' }), `${turn.name}.mid`);
+  };
+
+  const playButton = (turn: HistoryTurn, side: PlayingSide, label: string, color: string) => {
+    const isPlaying = playing?.id === turn.id && playing.side === side;
+    return (
+      <button
+        onClick={() => (isPlaying ? stopPlayback() : play(turn, side))}
+        className={`flex items-center gap-1 px-2 py-1 rounded-md bg-slate-800 hover:bg-slate-700 text-xs ${color}`}
+      >
+        {isPlaying ? <Square size={12} /> : <Play size={12} />} {label}
+      </button>
+    );
+  };
+
+  if (!isOpen) return null;
+
+  const visibleTurns = turns.filter(turn => turnMatchesSearch(turn, query));
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-slate-950/60" onClick={onClose}></div>
+      <div className="relative w-full max-w-md h-full bg-slate-900 border-l border-slate-800 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-800">
+          <h2 className="text-slate-200 font-semibold flex items-center gap-2">
+            <History size={18} /> Session History
+          </h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-300" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-4 pt-4">
+          <div className="flex items-center gap-2 bg-slate-950/60 border border-slate-700 rounded-lg px-3 py-2 focus-within:border-cyan-500">
+            <Search size={14} className="text-slate-500" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search names, text and lyrics"
+              className="flex-1 bg-transparent text-sm text-slate-200 focus:outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {error && <div className="text-red-400 text-sm">{error}</div>}
+          {!error && turns.length === 0 && (
+            <div className="text-slate-500 text-sm text-center mt-8">No turns yet. Completed turns are saved here automatically.</div>
+          )}
+          {!error && turns.length > 0 && visibleTurns.length === 0 && (
+            <div className="text-slate-500 text-sm text-center mt-8">No turns match "{query.trim()}".</div>
+          )}
+
+          {visibleTurns.map(turn => (
+            <div key={turn.id} className="bg-slate-950/60 border border-slate-800 rounded-xl p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-slate-200 truncate">{turn.name}</div>
+                  <div className="text-xs text-slate-500">
+                    {new Date(turn.completedAt).toLocaleString()}
+                    {turn.presetName && ` · ${turn.presetName}`}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    In {formatSeconds(turn.inputDuration)} · AI {formatSeconds(turn.outputDuration)}
+                    {turn.analysis?.match.overall != null && ` · Match ${Math.round(turn.analysis.match.overall * 100)}%`}
+                  </div>
+                </div>
+                <div className="flex gap-1 shrink-0 text-slate-500">
+                  <button onClick={() => handleRename(turn)} title="Rename" className="p-1 hover:text-slate-300"><Pencil size={14} /></button>
+                  <button onClick={() => handleExport(turn)} title="Export WAV" className="p-1 hover:text-slate-300"><Download size={14} /></button>
+                  <button onClick={() => handleExportMidi(turn)} title="Export MIDI (prompt + continuation)" className="p-1 hover:text-slate-300"><KeyboardMusic size={14} /></button>
+                  <button onClick={() => handleDelete(turn)} title="Delete" className="p-1 hover:text-red-400"><Trash2 size={14} /></button>
+                </div>
+              </div>
+
+              {turn.texts.length > 0 && (
+                <div className="text-xs text-purple-200 bg-purple-500/10 rounded-md px-2 py-1">{turn.texts.join(' ')}</div>
+              )}
+
+              {(lyricLine(turn.lyrics?.input) || lyricLine(turn.lyrics?.output)) && (
+                <div className="text-xs space-y-0.5">
+                  {lyricLine(turn.lyrics?.input) && <p className="text-cyan-300"><span className="text-slate-500">You sang: </span>{lyricLine(turn.lyrics?.input)}</p>}
+                  {lyricLine(turn.lyrics?.output) && <p className="text-purple-300"><span className="text-slate-500">AI sang: </span>{lyricLine(turn.lyrics?.output)}</p>}
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {playButton(turn, 'input', 'Input', 'text-cyan-400')}
+                {playButton(turn, 'output', 'AI', 'text-purple-400')}
+                <button
+                  onClick={() => onReuse(turn)}
+                  disabled={!canReuse}
+                  title="Send this continuation as the next input"
+                  className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-800 hover:bg-slate-700 text-xs text-slate-300 disabled:opacity-40"
+                >
+                  <CornerDownLeft size={12} /> Use as input
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryDrawer;
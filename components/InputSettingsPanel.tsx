@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, Headphones, ChevronDown, ChevronUp, RefreshCw } from 'lucide-react';
+import { InputSettings } from '../types';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('InputSettings');
+
+interface InputSettingsPanelProps {
+  settings: InputSettings;
+  onChange: (settings: InputSettings) => void;
+  isMicActive: boolean;
+}
+
+const inputClass = 'w-full bg-slate-950/60 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-cyan-500';
+const labelClass = 'text-xs font-semibold text-slate-400 uppercase tracking-wider';
+
+const PROCESSING_TOGGLES: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Auto gain control' },
+];
+
+const gainToDb = (gain: number) => (gain > 0 ? 20 * Math.log10(gain) : -Infinity);
+
+const InputSettingsPanel: React.FC<InputSettingsPanelProps> = ({ settings, onChange, isMicActive }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  const refreshDevices = () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    navigator.mediaDevices.enumerateDevices()
+      .then(all => setDevices(all.filter(d => d.kind === 'audioinput')))
+      .catch(e => log.warn("Could not list input devices", e));
+  };
+
+  // Labels are only filled in once mic permission has been granted, so refresh when it is
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices);
+  }, [isMicActive]);
+
+  const update = (patch: Partial<InputSettings>) => onChange({ ...settings, ...patch });
+  const selectedDevice = devices.find(d => d.deviceId === settings.deviceId);
+
+  return (
+    <div className="bg-slate-900/40 rounded-2xl border border-slate-800 max-w-2xl w-full">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-6 py-4 text-slate-300 font-semibold"
+      >
+        <span className="flex items-center gap-2">
+          <SlidersHorizontal size={16} /> Input
+          <span className="text-xs font-normal text-slate-500">
+            ({selectedDevice?.label || 'Default device'}{settings.monitor ? ', monitoring' : ''})
+          </span>
+        </span>
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-6 space-y-4">
+          {/* Device */}
+          <div className="space-y-1">
+            <label className={labelClass}>Device</label>
+            <div className="flex gap-2">
+              <select
+                value={settings.deviceId ?? ''}
+                onChange={(e) => update({ deviceId: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">Default device</option>
+                {devices.filter(d => d.deviceId && d.deviceId !== 'default').map((d, i) => (
+                  <option key={d.deviceId} value={d.deviceId}>{d.label || `Input ${i + 1}`}</option>
+                ))}
+              </select>
+              <button onClick={refreshDevices} title="Refresh device list" className="px-3 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700">
+                <RefreshCw size={16} />
+              </button>
+            </div>
+          </div>
+
+          {/* Browser processing */}
+          <div className="space-y-1">
+            <label className={labelClass}>Browser processing</label>
+            <div className="flex flex-wrap gap-x-6 gap-y-2">
+              {PROCESSING_TOGGLES.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={settings[key]}
+                    onChange={(e) => update({ [key]: e.target.checked })}
+                    className="accent-cyan-500"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">Tuned for speech; turn these off for singing and instruments. Keep echo cancellation on without headphones.</p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+            {/* Gain */}
+            <div className="space-y-1">
+              <label className={labelClass}>Input gain {gainToDb(settings.gain).toFixed(1)} dB</label>
+              <input
+                type="range"
+                min={0.1}
+                max={4}
+                step={0.05}
+                value={settings.gain}
+                onChange={(e) => update({ gain: Number(e.target.value) })}
+                className="w-full accent-cyan-500"
+              />
+            </div>
+
+            {/* Monitor */}
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={settings.monitor}
+                onChange={(e) => update({ monitor: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              <Headphones size={14} /> Monitor input (use headphones)
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InputSettingsPanel;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { Repeat, Square, GitBranch, Play } from 'lucide-react';
+import { JamRound, JamSettings, JamStatus, INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE } from '../types';
+
+interface JamPanelProps {
+  settings: JamSettings;
+  onSettingsChange: (settings: JamSettings) => void;
+  status: JamStatus | null;
+  rounds: JamRound[];
+  canStart: boolean; // Connected, with a continuation to start from
+  isMicActive: boolean;
+  onStart: () => void;
+  onStop: () => void;
+  onBranch: (round: JamRound) => void;
+}
+
+const labelClass = 'text-xs font-semibold text-slate-400 uppercase tracking-wider';
+
+const formatSeconds = (samples: number, sampleRate: number) => `${(samples / sampleRate).toFixed(1)}s`;
+
+const JamPanel: React.FC<JamPanelProps> = ({
+  settings,
+  onSettingsChange,
+  status,
+  rounds,
+  canStart,
+  isMicActive,
+  onStart,
+  onStop,
+  onBranch,
+}) => {
+  const isActive = status?.active ?? false;
+  const update = (patch: Partial<JamSettings>) => onSettingsChange({ ...settings, ...patch });
+
+  return (
+    <div className="bg-slate-900/40 rounded-2xl border border-slate-800 max-w-2xl w-full px-6 py-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="text-slate-300 font-semibold flex items-center gap-2">
+          <Repeat size={16} /> Jam Loop
+          {status && (
+            <span className={`text-xs font-normal ${isActive ? 'text-cyan-400' : 'text-slate-500'}`}>
+              Round {status.round}{status.totalRounds > 0 && ` / ${status.totalRounds}`}
+              {!isActive && ' (stopped)'}
+            </span>
+          )}
+        </span>
+        {isActive ? (
+          <button
+            onClick={onStop}
+            className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold bg-red-500/10 text-red-400 border border-red-500/40 hover:bg-red-500/20"
+          >
+            <Square size={14} /> Stop jam
+          </button>
+        ) : (
+          <button
+            onClick={onStart}
+            disabled={!canStart}
+            title={canStart ? 'Feed the last continuation back to the model, round after round' : 'Finish a turn first'}
+            className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold bg-cyan-500/10 text-cyan-400 border border-cyan-500/40 hover:bg-cyan-500/20 disabled:opacity-40"
+          >
+            <Play size={14} /> Start jam
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div className="space-y-1">
+          <label className={labelClass}>Rounds (0 = until stopped)</label>
+          <input
+            type="number"
+            min={0}
+            max={50}
+            value={settings.rounds}
+            disabled={isActive}
+            onChange={(e) => update({ rounds: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+            className="w-full bg-slate-950/60 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-cyan-500 disabled:opacity-50"
+          />
+        </div>
+        <label className={`flex items-center gap-2 text-sm text-slate-300 ${isMicActive ? '' : 'opacity-40'}`}>
+          <input
+            type="checkbox"
+            checked={settings.mixMic}
+            disabled={isActive || !isMicActive}
+            onChange={(e) => update({ mixMic: e.target.checked })}
+            className="accent-cyan-500"
+          />
+          Mix in live mic
+        </label>
+        <div className="space-y-1">
+          <label className={labelClass}>Mic level {Math.round(settings.micLevel * 100)}%</label>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.micLevel}
+            disabled={isActive || !settings.mixMic}
+            onChange={(e) => update({ micLevel: Number(e.target.value) })}
+            className="w-full accent-cyan-500 disabled:opacity-40"
+          />
+        </div>
+      </div>
+
+      {rounds.length > 0 && (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {rounds.map(round => (
+            <div key={round.index} className="flex items-center justify-between gap-2 bg-slate-950/60 border border-slate-800 rounded-lg px-3 py-1.5 text-xs">
+              <span className="text-slate-300 font-semibold">Round {round.index}</span>
+              <span className="text-slate-500 flex-1">
+                Prompt {formatSeconds(round.prompt.length, INPUT_SAMPLE_RATE)} · AI {formatSeconds(round.response.length, OUTPUT_SAMPLE_RATE)}
+              </span>
+              <button
+                onClick={() => onBranch(round)}
+                disabled={!canStart || isActive}
+                title="Start a new jam from this round's continuation"
+                className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-40"
+              >
+                <GitBranch size={12} /> Branch
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JamPanel;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Mic2 } from 'lucide-react';
+import { HistoryTurn, LyricSegment } from '../types';
+
+interface LyricTimelineProps {
+  turns: HistoryTurn[]; // Oldest first, as finished
+  live: { input: string; output: string }; // Transcription of the turn in progress
+}
+
+// Only the latest turns are laid out; the history keeps the rest searchable
+const MAX_TURNS = 6;
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+// One side's segments on a lane spanning the whole turn. Each label runs until
+// the next segment starts, so close fragments truncate rather than overlap.
+const Lane: React.FC<{ label: string; segments: LyricSegment[]; offset: number; total: number; color: string }> = ({ label, segments, offset, total, color }) => (
+  <div className="flex items-center gap-2">
+    <span className={`w-8 shrink-0 text-[10px] font-bold uppercase ${color}`}>{label}</span>
+    <div className="relative flex-1 h-5 bg-slate-950/60 rounded">
+      {segments.map((segment, i) => {
+        const left = ((offset + segment.start) / total) * 100;
+        const next = i + 1 < segments.length ? offset + segments[i + 1].start : total;
+        return (
+          <span
+            key={i}
+            title={`${formatSeconds(segment.start)}: ${segment.text}`}
+            className={`absolute top-0.5 text-[11px] truncate ${color}`}
+            style={{ left: `${left}%`, maxWidth: `${Math.max(2, ((next - offset - segment.start) / total) * 100)}%` }}
+          >
+            {segment.text}
+          </span>
+        );
+      })}
+    </div>
+  </div>
+);
+
+// Words the Live API heard and sang, per turn: the prompt then the reply, on one time axis
+const LyricTimeline: React.FC<LyricTimelineProps> = ({ turns, live }) => {
+  const withLyrics = turns
+    .filter(turn => turn.lyrics && (turn.lyrics.input.length > 0 || turn.lyrics.output.length > 0))
+    .slice(-MAX_TURNS)
+    .reverse();
+  const hasLive = live.input.trim().length > 0 || live.output.trim().length > 0;
+  if (withLyrics.length === 0 && !hasLive) return null;
+
+  return (
+    <div className="bg-slate-900/40 rounded-2xl border border-slate-800 max-w-2xl w-full px-6 py-4 space-y-3">
+      <span className="text-slate-300 font-semibold flex items-center gap-2">
+        <Mic2 size={16} /> Lyrics
+      </span>
+
+      {hasLive && (
+        <div className="text-xs space-y-1 border-l-2 border-cyan-500/40 pl-3">
+          {live.input.trim() && <p className="text-cyan-300"><span className="text-slate-500">You: </span>{live.input.trim()}</p>}
+          {live.output.trim() && <p className="text-purple-300"><span className="text-slate-500">AI: </span>{live.output.trim()}</p>}
+        </div>
+      )}
+
+      {withLyrics.map(turn => {
+        const total = Math.max(0.1, turn.inputDuration + turn.outputDuration);
+        return (
+          <div key={turn.id} className="space-y-1">
+            <div className="flex justify-between text-[10px] text-slate-500">
+              <span className="truncate">{turn.name}</span>
+              <span>{formatSeconds(total)}</span>
+            </div>
+            <Lane label="You" segments={turn.lyrics.input} offset={0} total={total} color="text-cyan-300" />
+            <Lane label="AI" segments={turn.lyrics.output} offset={turn.inputDuration} total={total} color="text-purple-300" />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LyricTimeline;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Timer, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react';
+import { MetronomeBeat, MetronomeSettings } from '../types';
+
+interface MetronomePanelProps {
+  settings: MetronomeSettings;
+  onChange: (settings: MetronomeSettings) => void;
+  beat: MetronomeBeat | null; // Most recent click, for the indicator
+  isCountingIn: boolean;
+  onCountIn: () => void;
+  canCountIn: boolean;
+}
+
+const inputClass = 'w-full bg-slate-950/60 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-cyan-500';
+const labelClass = 'text-xs font-semibold text-slate-400 uppercase tracking-wider';
+
+const BEAT_UNITS = [2, 4, 8];
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, Math.round(value) || min));
+
+const BeatIndicator: React.FC<{ beatsPerBar: number; beat: MetronomeBeat | null; isCountingIn: boolean }> = ({ beatsPerBar, beat, isCountingIn }) => (
+  <span className="flex items-center gap-1.5">
+    {Array.from({ length: beatsPerBar }, (_, i) => {
+      const isCurrent = beat?.beat === i;
+      const color = !isCurrent
+        ? 'bg-slate-700'
+        : isCountingIn ? 'bg-yellow-400' : i === 0 ? 'bg-cyan-300' : 'bg-cyan-500';
+      return <span key={i} className={`h-2.5 w-2.5 rounded-full transition-colors duration-75 ${color}`} />;
+    })}
+  </span>
+);
+
+const MetronomePanel: React.FC<MetronomePanelProps> = ({ settings, onChange, beat, isCountingIn, onCountIn, canCountIn }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (patch: Partial<MetronomeSettings>) => onChange({ ...settings, ...patch });
+  // Beats left before capture starts, counting the current one
+  const countdown = isCountingIn && beat ? -beat.bar * settings.beatsPerBar - beat.beat : null;
+
+  return (
+    <div className="bg-slate-900/40 rounded-2xl border border-slate-800 max-w-2xl w-full">
+      <div className="flex items-center justify-between px-6 py-4 gap-4">
+        <button onClick={() => setIsOpen(!isOpen)} className="flex-1 flex items-center gap-2 text-slate-300 font-semibold text-left">
+          <Timer size={16} /> Metronome
+          <span className="text-xs font-normal text-slate-500">
+            ({settings.enabled ? `${settings.bpm} BPM, ${settings.beatsPerBar}/${settings.beatUnit}` : 'Off'})
+          </span>
+        </button>
+        {settings.enabled && (
+          <span className="flex items-center gap-3">
+            {countdown !== null && <span className="text-xs font-semibold text-yellow-400">Count-in {countdown}</span>}
+            <BeatIndicator beatsPerBar={settings.beatsPerBar} beat={beat} isCountingIn={isCountingIn} />
+          </span>
+        )}
+        <button onClick={() => setIsOpen(!isOpen)} className="text-slate-300">
+          {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="px-6 pb-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => update({ enabled: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              Click along (the tempo is shared with the AI)
+            </label>
+            <button
+              onClick={onCountIn}
+              disabled={!canCountIn || !settings.enabled || settings.countInBars === 0}
+              title="Restart the click and hold capture until the downbeat"
+              className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-semibold bg-slate-800 text-cyan-400 hover:bg-slate-700 disabled:opacity-40"
+            >
+              <RotateCcw size={14} /> Count in
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-1 col-span-2">
+              <label className={labelClass}>Tempo {settings.bpm} BPM</label>
+              <input
+                type="range"
+                min={40}
+                max={220}
+                step={1}
+                value={settings.bpm}
+                onChange={(e) => update({ bpm: Number(e.target.value) })}
+                className="w-full accent-cyan-500"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <label className={labelClass}>Time signature</label>
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={1}
+                  max={12}
+                  value={settings.beatsPerBar}
+                  onChange={(e) => update({ beatsPerBar: clamp(Number(e.target.value), 1, 12) })}
+                  className={inputClass}
+                />
+                <span className="text-slate-500">/</span>
+                <select
+                  value={settings.beatUnit}
+                  onChange={(e) => update({ beatUnit: Number(e.target.value) })}
+                  className={inputClass}
+                >
+                  {BEAT_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className={labelClass}>Count-in bars</label>
+              <input
+                type="number"
+                min={0}
+                max={4}
+                value={settings.countInBars}
+                onChange={(e) => update({ countInBars: clamp(Number(e.target.value), 0, 4) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className={labelClass}>Click level {Math.round(settings.volume * 100)}%</label>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.volume}
+              onChange={(e) => update({ volume: Number(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+          </div>
+          <p className="text-xs text-slate-500">The click plays only on your speakers and is never sent to the AI. Use headphones or keep echo cancellation on.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetronomePanel;
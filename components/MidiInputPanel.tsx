@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { KeyboardMusic, ChevronDown, ChevronUp, RefreshCw } from 'lucide-react';
+import { MidiInputSettings, SynthTimbre } from '../types';
+import { MidiPortInfo, isMidiSupported, listMidiInputs } from '../services/midiInput';
+import { SYNTH_TIMBRES } from '../services/midiSynth';
+
+interface MidiInputPanelProps {
+  settings: MidiInputSettings;
+  onChange: (settings: MidiInputSettings) => void;
+  isActive: boolean; // Listening in the current session
+}
+
+const inputClass = 'w-full bg-slate-950/60 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-cyan-500';
+const labelClass = 'text-xs font-semibold text-slate-400 uppercase tracking-wider';
+
+const MidiInputPanel: React.FC<MidiInputPanelProps> = ({ settings, onChange, isActive }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [ports, setPorts] = useState<MidiPortInfo[]>([]);
+  const [portError, setPortError] = useState<string | null>(null);
+  const supported = isMidiSupported();
+
+  const refreshPorts = () => {
+    listMidiInputs()
+      .then(list => { setPorts(list); setPortError(null); })
+      .catch(e => setPortError(e.message || "MIDI access was denied"));
+  };
+
+  // Only ask for MIDI access once the user opts in
+  useEffect(() => {
+    if (settings.enabled && supported) refreshPorts();
+  }, [settings.enabled]);
+
+  const update = (patch: Partial<MidiInputSettings>) => onChange({ ...settings, ...patch });
+  const selectedPort = ports.find(p => p.id === settings.portId);
+
+  return (
+    <div className="bg-slate-900/40 rounded-2xl border border-slate-800 max-w-2xl w-full">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-6 py-4 text-slate-300 font-semibold"
+      >
+        <span className="flex items-center gap-2">
+          <KeyboardMusic size={16} /> MIDI Keyboard
+          <span className="text-xs font-normal text-slate-500">
+            ({!settings.enabled ? 'Off' : `${selectedPort?.name ?? 'All inputs'}${isActive ? ', listening' : ''}`})
+          </span>
+        </span>
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-6 space-y-4">
+          {!supported && (
+            <p className="text-xs text-yellow-400">This browser doesn't support Web MIDI. MIDI files can still be uploaded.</p>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              disabled={!supported}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="accent-cyan-500"
+            />
+            Play a MIDI keyboard through the built-in synth
+          </label>
+
+          {/* Port */}
+          <div className="space-y-1">
+            <label className={labelClass}>Input</label>
+            <div className="flex gap-2">
+              <select
+                value={settings.portId ?? ''}
+                disabled={!settings.enabled}
+                onChange={(e) => update({ portId: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">All inputs</option>
+                {ports.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={refreshPorts}
+                disabled={!settings.enabled}
+                title="Refresh MIDI inputs"
+                className="px-3 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+              >
+                <RefreshCw size={16} />
+              </button>
+            </div>
+            {portError && <p className="text-xs text-red-400">{portError}</p>}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+            {/* Timbre, also used to render uploaded MIDI files */}
+            <div className="space-y-1">
+              <label className={labelClass}>Sound</label>
+              <select
+                value={settings.timbre}
+                onChange={(e) => update({ timbre: e.target.value as SynthTimbre })}
+                className={inputClass}
+              >
+                {SYNTH_TIMBRES.map(({ timbre, label }) => (
+                  <option key={timbre} value={timbre}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Volume */}
+            <div className="space-y-1">
+              <label className={labelClass}>Synth level {Math.round(settings.volume * 100)}%</label>
+              <input
+                type="range"
+                min={0}
+                max={1.5}
+                step={0.05}
+                value={settings.volume}
+                onChange={(e) => update({ volume: Number(e.target.value) })}
+                className="w-full accent-cyan-500"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">Uploaded .mid files are played through this sound before they are sent.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MidiInputPanel;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { SlidersHorizontal, X, Check } from 'lucide-react';
+import { PresetLink } from '../services/sessionBundle';
+
+interface PresetPromptProps {
+  preset: PresetLink;
+  source: string; // Where the preset came from, e.g. a shared link or a bundle's file name
+  onApply: () => void;
+  onDismiss: () => void;
+}
+
+// Shows what a preset from outside (a shared link or an imported bundle) would
+// change before any of it reaches the session
+const PresetPrompt: React.FC<PresetPromptProps> = ({ preset, source, onApply, onDismiss }) => {
+  const { model, voiceName, responseModalities, systemInstruction } = preset.config;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-950/70" onClick={onDismiss}></div>
+      <div className="relative w-full max-w-xl bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-slate-200 font-semibold flex items-center gap-2 min-w-0">
+            <SlidersHorizontal size={18} /> <span className="truncate">Use preset "{preset.name}"?</span>
+          </h2>
+          <button onClick={onDismiss} className="text-slate-500 hover:text-slate-300" title="Dismiss">
+            <X size={18} />
+          </button>
+        </div>
+
+        <p className="text-xs text-slate-400">
+          The preset from {source} replaces your session settings. Check the model and instruction before using it.
+        </p>
+
+        <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+          <dt className="text-slate-500">Model</dt>
+          <dd className="text-slate-200 font-mono text-xs break-all self-center">{model}</dd>
+          <dt className="text-slate-500">Voice</dt>
+          <dd className="text-slate-200">{voiceName}</dd>
+          <dt className="text-slate-500">Responses</dt>
+          <dd className="text-slate-200">{responseModalities.join(', ')}</dd>
+        </dl>
+
+        <div className="space-y-1">
+          <span className="text-xs text-slate-500">System instruction</span>
+          <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap break-words text-xs text-slate-300 bg-slate-950/60 border border-slate-800 rounded-xl p-3">
+            {systemInstruction}
+          </pre>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onDismiss}
+            className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold bg-slate-800 text-slate-300 hover:bg-slate-700"
+          >
+            Keep my settings
+          </button>
+          <button
+            onClick={onApply}
+            className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold bg-cyan-500 text-slate-950 hover:bg-cyan-400"
+          >
+            <Check size={14} /> Use preset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PresetPrompt;
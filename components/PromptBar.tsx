@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Send, Paperclip, X, Loader2 } from 'lucide-react';
+
+interface PromptBarProps {
+  onSend: (text: string) => Promise<void>;
+  onAttach: (text: string | null) => void; // Null clears the pending instructions
+  clipInstruction: string | null; // Waiting for the next clip
+  sendDisabled: boolean; // Text can't go out on its own mid-upload; attaching still works
+}
+
+const inputClass = 'flex-1 bg-slate-950/60 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-cyan-500';
+
+// Typed directions for the model, sent as a turn of their own or with the next clip
+const PromptBar: React.FC<PromptBarProps> = ({ onSend, onAttach, clipInstruction, sendDisabled }) => {
+  const [text, setText] = useState('');
+  const [attach, setAttach] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  const trimmed = text.trim();
+  const canSubmit = trimmed.length > 0 && !isSending && (attach || !sendDisabled);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    if (attach) {
+      onAttach(trimmed);
+      setText('');
+      return;
+    }
+    setIsSending(true);
+    try {
+      await onSend(trimmed);
+      setText('');
+    } catch (err) {
+      // The parent reports the failure; keep the text so it can be resent
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {clipInstruction && (
+        <div className="flex items-center gap-2 text-xs bg-cyan-500/10 border border-cyan-500/30 text-cyan-300 rounded-lg px-3 py-1.5">
+          <Paperclip size={12} className="shrink-0" />
+          <span className="flex-1 truncate" title={clipInstruction}>With the next clip: {clipInstruction}</span>
+          <button onClick={() => onAttach(null)} title="Don't send these" className="text-cyan-400 hover:text-cyan-200">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setAttach(a => !a)}
+          title={attach ? 'Attaching to the next clip or phrase' : 'Attach to the next clip or phrase instead of sending now'}
+          className={`p-2 rounded-lg border transition-colors
+            ${attach ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+        >
+          <Paperclip size={16} />
+        </button>
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={attach ? 'Directions for the next clip...' : 'e.g. slower, minor key, end on the tonic'}
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-purple-500/20 text-purple-200 border border-purple-500/40 hover:bg-purple-500/30 disabled:opacity-40"
+        >
+          {isSending ? <Loader2 size={16} className="animate-spin" /> : attach ? <Paperclip size={16} /> : <Send size={16} />}
+          {attach ? 'Attach' : 'Send'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default PromptBar;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Modality } from '@google/genai';
+import { Settings, Save, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import { SessionConfig, SessionPreset } from '../types';
+import {
+  BUILT_IN_PRESETS,
+  PREBUILT_VOICES,
+  deleteUserPreset,
+  loadUserPresets,
+  saveUserPreset,
+} from '../services/presetStore';
+
+interface SessionSettingsProps {
+  config: SessionConfig;
+  onChange: (config: SessionConfig) => void;
+  presetName: string;
+  onPresetNameChange: (name: string) => void;
+  isSessionActive: boolean; // Settings only apply when a session starts
+}
+
+const inputClass = 'w-full bg-slate-950/60 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-cyan-500';
+const labelClass = 'text-xs font-semibold text-slate-400 uppercase tracking-wider';
+
+const SessionSettings: React.FC<SessionSettingsProps> = ({ config, onChange, presetName, onPresetNameChange, isSessionActive }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [userPresets, setUserPresets] = useState<SessionPreset[]>(() => loadUserPresets());
+
+  const allPresets = [...BUILT_IN_PRESETS, ...userPresets];
+  const selectedPreset = allPresets.find(p => p.name === presetName);
+
+  const update = (patch: Partial<SessionConfig>) => onChange({ ...config, ...patch });
+
+  const handlePresetSelect = (name: string) => {
+    const preset = allPresets.find(p => p.name === name);
+    if (!preset) return;
+    onPresetNameChange(name);
+    onChange(preset.config);
+  };
+
+  const handleSave = () => {
+    const name = window.prompt('Save preset as:', selectedPreset?.builtIn ? '' : presetName);
+    if (!name || !name.trim()) return;
+    if (BUILT_IN_PRESETS.some(p => p.name === name.trim())) {
+      window.alert('That name is used by a built-in preset.');
+      return;
+    }
+    setUserPresets(saveUserPreset({ name: name.trim(), config }));
+    onPresetNameChange(name.trim());
+  };
+
+  const handleDelete = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+    setUserPresets(deleteUserPreset(selectedPreset.name));
+    onPresetNameChange(BUILT_IN_PRESETS[0].name);
+  };
+
+  return (
+    <div className="bg-slate-900/40 rounded-2xl border border-slate-800 max-w-2xl w-full">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-6 py-4 text-slate-300 font-semibold"
+      >
+        <span className="flex items-center gap-2">
+          <Settings size={16} /> Session Settings
+          <span className="text-xs font-normal text-slate-500">({presetName}, {config.voiceName})</span>
+        </span>
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-6 space-y-4">
+          {isSessionActive && (
+            <p className="text-xs text-yellow-400">Changes apply to the next session.</p>
+          )}
+
+          {/* Presets */}
+          <div className="space-y-1">
+            <label className={labelClass}>Preset</label>
+            <div className="flex gap-2">
+              <select
+                value={presetName}
+                onChange={(e) => handlePresetSelect(e.target.value)}
+                className={inputClass}
+              >
+                {allPresets.map(p => (
+                  <option key={p.name} value={p.name}>{p.name}{p.builtIn ? '' : ' (saved)'}</option>
+                ))}
+              </select>
+              <button onClick={handleSave} title="Save current settings as a preset" className="px-3 rounded-lg bg-slate-800 text-cyan-400 hover:bg-slate-700">
+                <Save size={16} />
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={!selectedPreset || selectedPreset.builtIn}
+                title="Delete preset"
+                className="px-3 rounded-lg bg-slate-800 text-red-400 hover:bg-slate-700 disabled:opacity-30"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {/* Voice */}
+            <div className="space-y-1">
+              <label className={labelClass}>Voice</label>
+              <select value={config.voiceName} onChange={(e) => update({ voiceName: e.target.value })} className={inputClass}>
+                {PREBUILT_VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+              </select>
+            </div>
+
+            {/* Response Modality */}
+            <div className="space-y-1">
+              <label className={labelClass}>Response</label>
+              <select
+                value={config.responseModalities[0]}
+                onChange={(e) => update({ responseModalities: [e.target.value as Modality] })}
+                className={inputClass}
+              >
+                <option value={Modality.AUDIO}>Audio</option>
+                <option value={Modality.TEXT}>Text</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Model */}
+          <div className="space-y-1">
+            <label className={labelClass}>Model</label>
+            <input value={config.model} onChange={(e) => update({ model: e.target.value })} className={inputClass} />
+          </div>
+
+          {/* System Instruction */}
+          <div className="space-y-1">
+            <label className={labelClass}>System Instruction</label>
+            <textarea
+              value={config.systemInstruction}
+              onChange={(e) => update({ systemInstruction: e.target.value })}
+              rows={6}
+              className={`${inputClass} font-mono text-xs`}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionSettings;
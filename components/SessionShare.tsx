@@ -0,0 +1,75 @@
+import React, { useRef, useState } from 'react';
+import { Package, FolderOpen, Link2, Check, Loader2 } from 'lucide-react';
+import { SESSION_BUNDLE_EXTENSION } from '../services/sessionBundle';
+
+interface SessionShareProps {
+  turnCount: number; // Turns the bundle would contain
+  onExport: () => Promise<void>;
+  onImport: (file: File) => Promise<void>;
+  onCopyLink: () => Promise<void>;
+  disabled: boolean;
+}
+
+const COPIED_FEEDBACK_MS = 2000;
+
+const buttonClass = 'flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700 disabled:opacity-40';
+
+// Session bundles hold every turn and the preset; links carry only the preset
+const SessionShare: React.FC<SessionShareProps> = ({ turnCount, onExport, onImport, onCopyLink, disabled }) => {
+  const [busy, setBusy] = useState<'export' | 'import' | null>(null);
+  const [copied, setCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const run = async (kind: 'export' | 'import', action: () => Promise<void>) => {
+    setBusy(kind);
+    try {
+      await action();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so the same bundle can be picked again
+    e.target.value = '';
+    if (file) run('import', () => onImport(file));
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await onCopyLink();
+    } catch (e) {
+      return; // The parent reports the failure
+    }
+    setCopied(true);
+    setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        onClick={() => run('export', onExport)}
+        disabled={disabled || busy !== null || turnCount === 0}
+        title={turnCount === 0 ? 'Finish a turn first' : `Save ${turnCount} ${turnCount === 1 ? 'turn' : 'turns'} and the preset as one file`}
+        className={buttonClass}
+      >
+        {busy === 'export' ? <Loader2 size={16} className="animate-spin" /> : <Package size={16} />} Export
+      </button>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled || busy !== null}
+        title="Open a session bundle or batch zip"
+        className={buttonClass}
+      >
+        {busy === 'import' ? <Loader2 size={16} className="animate-spin" /> : <FolderOpen size={16} />} Import
+      </button>
+      <input ref={fileInputRef} type="file" accept={`${SESSION_BUNDLE_EXTENSION},.zip`} onChange={handleFileChange} className="hidden" />
+      <button onClick={handleCopyLink} title="Copy a link that opens the app with this preset" className={buttonClass}>
+        {copied ? <Check size={16} className="text-green-400" /> : <Link2 size={16} />} {copied ? 'Copied' : 'Link'}
+      </button>
+    </div>
+  );
+};
+
+export default SessionShare;
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { SessionRecorder, TakeFormat, TakeSource } from '../services/sessionRecorder';
+import { downloadBlob, timestampForFilename } from '../utils/fileUtils';
+
+interface TakeDownloadProps {
+  recorder: SessionRecorder | null;
+  disabled: boolean;
+}
+
+const SOURCE_LABELS: Record<TakeSource, string> = {
+  mix: 'Mix (stereo)',
+  input: 'Your input',
+  output: 'AI only',
+};
+
+const TakeDownload: React.FC<TakeDownloadProps> = ({ recorder, disabled }) => {
+  const [source, setSource] = useState<TakeSource>('mix');
+  const [format, setFormat] = useState<TakeFormat>('wav');
+
+  const handleDownload = () => {
+    if (!recorder || !recorder.hasAudio()) return;
+    const blob = recorder.exportTake(source, format);
+    downloadBlob(blob, `melody-weaver_${source}_${timestampForFilename()}.${format}`);
+  };
+
+  const isDisabled = disabled || !recorder;
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={source}
+        onChange={(e) => setSource(e.target.value as TakeSource)}
+        disabled={isDisabled}
+        className="bg-slate-800 text-slate-300 text-xs rounded-full px-3 py-2 border border-slate-700 disabled:opacity-50"
+      >
+        {(Object.keys(SOURCE_LABELS) as TakeSource[]).map((key) => (
+          <option key={key} value={key}>{SOURCE_LABELS[key]}</option>
+        ))}
+      </select>
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as TakeFormat)}
+        disabled={isDisabled}
+        className="bg-slate-800 text-slate-300 text-xs rounded-full px-3 py-2 border border-slate-700 disabled:opacity-50"
+      >
+        <option value="wav">WAV</option>
+        <option value="pcm">Raw PCM</option>
+      </select>
+      <button
+        onClick={handleDownload}
+        disabled={isDisabled}
+        title="Download the recorded session"
+        className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold transition-all duration-300
+          ${isDisabled
+            ? 'bg-slate-800/50 text-slate-500 border border-slate-700'
+            : 'bg-slate-800 text-purple-400 hover:bg-slate-700 hover:text-purple-300 border border-purple-900'
+          }`}
+      >
+        <Download size={16} />
+        <span>Download take</span>
+      </button>
+    </div>
+  );
+};
+
+export default TakeDownload;
@@ -0,0 +1,137 @@
+import React from 'react';
+import { Hand, Radio, Waves, Wand2, Send } from 'lucide-react';
+import { TurnMode, VadSettings } from '../types';
+
+interface TurnControlsProps {
+  mode: TurnMode;
+  onModeChange: (mode: TurnMode) => void;
+  vad: VadSettings;
+  onVadChange: (vad: VadSettings) => void;
+  isSessionActive: boolean; // The mode only applies when a session starts
+  isConnected: boolean;
+  isActivityActive: boolean; // An activity is open (client-driven modes)
+  isTalking: boolean; // Push-to-talk held
+  onTalkChange: (held: boolean) => void;
+  onEndTurn: () => void;
+}
+
+const TURN_MODES: { mode: TurnMode; label: string; hint: string; Icon: typeof Hand }[] = [
+  { mode: 'auto', label: 'Auto', hint: 'The server decides when you have finished', Icon: Wand2 },
+  { mode: 'vad', label: 'Voice detect', hint: 'Your turn ends after a pause in your playing', Icon: Waves },
+  { mode: 'pushToTalk', label: 'Push to talk', hint: 'Hold Space (or the button) while you play', Icon: Radio },
+  { mode: 'manual', label: 'Manual', hint: 'Press "Your turn" when you have finished', Icon: Hand },
+];
+
+const labelClass = 'text-xs font-semibold text-slate-400 uppercase tracking-wider';
+
+const TurnControls: React.FC<TurnControlsProps> = ({
+  mode,
+  onModeChange,
+  vad,
+  onVadChange,
+  isSessionActive,
+  isConnected,
+  isActivityActive,
+  isTalking,
+  onTalkChange,
+  onEndTurn,
+}) => {
+  const current = TURN_MODES.find(m => m.mode === mode)!;
+
+  return (
+    <div className="bg-slate-900/40 rounded-2xl border border-slate-800 max-w-2xl w-full px-6 py-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className={labelClass}>Turn taking</span>
+        <div className="flex gap-1 bg-slate-950/60 border border-slate-800 rounded-full p-1">
+          {TURN_MODES.map(({ mode: m, label, hint, Icon }) => (
+            <button
+              key={m}
+              onClick={() => onModeChange(m)}
+              disabled={isSessionActive}
+              title={hint}
+              className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold transition-colors disabled:cursor-not-allowed
+                ${mode === m ? 'bg-slate-700 text-slate-100' : 'text-slate-500 hover:text-slate-300 disabled:hover:text-slate-500'}`}
+            >
+              <Icon size={12} /> {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-500">
+        <span>
+          {current.hint}
+          {isSessionActive && ' · Stop the session to change mode.'}
+        </span>
+        {isConnected && mode !== 'auto' && (
+          <span className={`flex items-center gap-2 font-semibold ${isActivityActive ? 'text-cyan-400' : 'text-slate-500'}`}>
+            <span className={`w-2 h-2 rounded-full ${isActivityActive ? 'bg-cyan-400 animate-pulse' : 'bg-slate-600'}`}></span>
+            {isActivityActive ? 'Your turn in progress' : 'Idle'}
+          </span>
+        )}
+      </div>
+
+      {mode === 'vad' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-1">
+            <label className={labelClass}>Threshold {vad.thresholdDb} dB</label>
+            <input
+              type="range"
+              min={-70}
+              max={-20}
+              value={vad.thresholdDb}
+              onChange={(e) => onVadChange({ ...vad, thresholdDb: Number(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Hangover {vad.hangoverMs} ms</label>
+            <input
+              type="range"
+              min={200}
+              max={3000}
+              step={100}
+              value={vad.hangoverMs}
+              onChange={(e) => onVadChange({ ...vad, hangoverMs: Number(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={vad.dropSilentFrames}
+              onChange={(e) => onVadChange({ ...vad, dropSilentFrames: e.target.checked })}
+              className="accent-cyan-500"
+            />
+            Don't send silence
+          </label>
+        </div>
+      )}
+
+      {mode === 'pushToTalk' && (
+        <button
+          onPointerDown={() => onTalkChange(true)}
+          onPointerUp={() => onTalkChange(false)}
+          onPointerLeave={() => isTalking && onTalkChange(false)}
+          disabled={!isConnected}
+          className={`w-full py-3 rounded-xl text-sm font-semibold select-none transition-colors disabled:opacity-40
+            ${isTalking ? 'bg-cyan-500 text-slate-950' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+        >
+          {isTalking ? 'Recording... release to hand over' : 'Hold to play (or hold Space)'}
+        </button>
+      )}
+
+      {mode === 'manual' && (
+        <button
+          onClick={onEndTurn}
+          disabled={!isConnected}
+          className="w-full flex items-center justify-center gap-2 py-3 rounded-xl text-sm font-semibold bg-purple-500/20 text-purple-300 border border-purple-500/40 hover:bg-purple-500/30 disabled:opacity-40"
+        >
+          <Send size={16} /> Your turn
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TurnControls;
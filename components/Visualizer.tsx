@@ -1,12 +1,39 @@
 import React, { useEffect, useRef } from 'react';
+import { VisualizerMode } from '../types';
+import { detectPitch, frequencyToMidi } from '../utils/musicAnalysis';
 
 interface VisualizerProps {
   analyser: AnalyserNode | null;
   color: string;
   isActive: boolean;
+  mode?: VisualizerMode;
+  // Piano-roll only: a second trace drawn over the first (e.g. AI output over input)
+  overlayAnalyser?: AnalyserNode | null;
+  overlayColor?: string;
 }
 
-const Visualizer: React.FC<VisualizerProps> = ({ analyser, color, isActive }) => {
+const SPECTRUM_BARS = 128; // Bars drawn regardless of the analyser's FFT size
+const SCROLL_SECONDS = 8; // Time span shown by the scrolling modes
+const PIANO_ROLL_LOW = 36; // C2
+const PIANO_ROLL_HIGH = 96; // C7
+const PITCH_ANALYSIS_RATE = 16000; // Frames are decimated to roughly this before pitch detection
+const SILENCE_RMS = 0.01;
+
+interface PitchTrace {
+  analyser: AnalyserNode;
+  color: string;
+  buffer: Float32Array;
+  points: { time: number; midi: number | null }[];
+}
+
+const Visualizer: React.FC<VisualizerProps> = ({
+  analyser,
+  color,
+  isActive,
+  mode = 'spectrum',
+  overlayAnalyser = null,
+  overlayColor = color,
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
 
@@ -17,34 +44,54 @@ const Visualizer: React.FC<VisualizerProps> = ({ analyser, color, isActive }) =>
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const bufferLength = analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
+    // Size the backing store to the element in device pixels; draw in CSS pixels
+    let width = 0;
+    let height = 0;
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const rect = canvas.getBoundingClientRect();
+      width = rect.width;
+      height = rect.height;
+      canvas.width = Math.max(1, Math.round(width * dpr));
+      canvas.height = Math.max(1, Math.round(height * dpr));
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    };
+    resize();
+    const resizeObserver = new ResizeObserver(resize);
+    resizeObserver.observe(canvas);
 
-    const draw = () => {
-      if (!isActive) {
-         ctx.clearRect(0, 0, canvas.width, canvas.height);
-         return;
-      }
-      
-      animationRef.current = requestAnimationFrame(draw);
+    const frequencyData = new Uint8Array(analyser.frequencyBinCount);
+    const timeData = new Float32Array(analyser.fftSize);
+    // Scrolling waveform: one min/max column per animation frame
+    const waveformColumns: { time: number; min: number; max: number }[] = [];
 
-      analyser.getByteFrequencyData(dataArray);
+    const traces: PitchTrace[] = [analyser, overlayAnalyser]
+      .filter((a): a is AnalyserNode => !!a)
+      .map((a, i) => ({
+        analyser: a,
+        color: i === 0 ? color : overlayColor,
+        buffer: new Float32Array(a.fftSize),
+        points: [],
+      }));
 
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const drawSpectrum = () => {
+      analyser.getByteFrequencyData(frequencyData);
 
-      const width = canvas.width;
-      const height = canvas.height;
-      const barWidth = (width / bufferLength) * 2.5;
-      let barHeight;
+      // Average bins into a fixed number of bars so larger FFTs keep the same look
+      const binsPerBar = Math.max(1, Math.floor(frequencyData.length / SPECTRUM_BARS));
+      const barCount = Math.floor(frequencyData.length / binsPerBar);
+      const barWidth = (width / barCount) * 2.5;
       let x = 0;
 
-      for (let i = 0; i < bufferLength; i++) {
-        barHeight = (dataArray[i] / 255) * height;
-        
-        ctx.fillStyle = color;
-        // Make it slightly transparent for a glowing effect
-        ctx.globalAlpha = 0.8;
-        
+      ctx.fillStyle = color;
+      // Make it slightly transparent for a glowing effect
+      ctx.globalAlpha = 0.8;
+
+      for (let i = 0; i < barCount; i++) {
+        let sum = 0;
+        for (let j = 0; j < binsPerBar; j++) sum += frequencyData[i * binsPerBar + j];
+        const barHeight = (sum / binsPerBar / 255) * height;
+
         // Draw rounded bars
         ctx.beginPath();
         ctx.roundRect(x, height - barHeight, barWidth, barHeight, 2);
@@ -55,22 +102,135 @@ const Visualizer: React.FC<VisualizerProps> = ({ analyser, color, isActive }) =>
       }
     };
 
+    const drawWaveform = (now: number) => {
+      analyser.getFloatTimeDomainData(timeData);
+      let min = 0;
+      let max = 0;
+      for (let i = 0; i < timeData.length; i++) {
+        if (timeData[i] < min) min = timeData[i];
+        if (timeData[i] > max) max = timeData[i];
+      }
+      waveformColumns.push({ time: now, min, max });
+      while (waveformColumns.length > 0 && now - waveformColumns[0].time > SCROLL_SECONDS) {
+        waveformColumns.shift();
+      }
+
+      const mid = height / 2;
+      ctx.fillStyle = color;
+      ctx.globalAlpha = 0.8;
+      ctx.beginPath();
+      // Upper edge left to right, then lower edge back, as one filled envelope
+      waveformColumns.forEach((column, i) => {
+        const x = width - ((now - column.time) / SCROLL_SECONDS) * width;
+        const y = mid - Math.min(1, column.max) * mid;
+        if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+      });
+      for (let i = waveformColumns.length - 1; i >= 0; i--) {
+        const column = waveformColumns[i];
+        const x = width - ((now - column.time) / SCROLL_SECONDS) * width;
+        ctx.lineTo(x, mid - Math.max(-1, column.min) * mid);
+      }
+      ctx.closePath();
+      ctx.fill();
+    };
+
+    const detectTracePitch = (trace: PitchTrace): number | null => {
+      trace.analyser.getFloatTimeDomainData(trace.buffer);
+      const sampleRate = trace.analyser.context.sampleRate;
+
+      // Decimate by averaging: pitch detection at 48kHz is too slow to run every frame
+      const factor = Math.max(1, Math.floor(sampleRate / PITCH_ANALYSIS_RATE));
+      const decimated = new Float32Array(Math.floor(trace.buffer.length / factor));
+      let energy = 0;
+      for (let i = 0; i < decimated.length; i++) {
+        let sum = 0;
+        for (let j = 0; j < factor; j++) sum += trace.buffer[i * factor + j];
+        decimated[i] = sum / factor;
+        energy += decimated[i] * decimated[i];
+      }
+      if (Math.sqrt(energy / decimated.length) < SILENCE_RMS) return null;
+
+      const detection = detectPitch(decimated, sampleRate / factor);
+      return detection ? frequencyToMidi(detection.frequency) : null;
+    };
+
+    const drawPianoRoll = (now: number) => {
+      const noteHeight = height / (PIANO_ROLL_HIGH - PIANO_ROLL_LOW);
+      const midiToY = (midi: number) => height - (midi - PIANO_ROLL_LOW) * noteHeight;
+
+      // Octave guide lines on each C
+      ctx.globalAlpha = 0.15;
+      ctx.strokeStyle = '#94a3b8';
+      ctx.lineWidth = 1;
+      for (let midi = PIANO_ROLL_LOW; midi <= PIANO_ROLL_HIGH; midi += 12) {
+        const y = Math.round(midiToY(midi)) + 0.5;
+        ctx.beginPath();
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+        ctx.stroke();
+      }
+
+      ctx.globalAlpha = 0.9;
+      ctx.lineWidth = Math.max(2, noteHeight * 0.6);
+      ctx.lineCap = 'round';
+      for (const trace of traces) {
+        trace.points.push({ time: now, midi: detectTracePitch(trace) });
+        while (trace.points.length > 0 && now - trace.points[0].time > SCROLL_SECONDS) {
+          trace.points.shift();
+        }
+
+        // Connect consecutive voiced frames; gaps and big jumps break the line
+        ctx.strokeStyle = trace.color;
+        ctx.beginPath();
+        let previous: number | null = null;
+        for (const point of trace.points) {
+          if (point.midi === null || point.midi < PIANO_ROLL_LOW || point.midi > PIANO_ROLL_HIGH) {
+            previous = null;
+            continue;
+          }
+          const x = width - ((now - point.time) / SCROLL_SECONDS) * width;
+          const y = midiToY(point.midi);
+          if (previous === null || Math.abs(point.midi - previous) > 2) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+          previous = point.midi;
+        }
+        ctx.stroke();
+      }
+    };
+
+    const draw = () => {
+      if (!isActive) {
+         ctx.clearRect(0, 0, width, height);
+         return;
+      }
+
+      animationRef.current = requestAnimationFrame(draw);
+      ctx.clearRect(0, 0, width, height);
+
+      const now = performance.now() / 1000;
+      if (mode === 'waveform') {
+        drawWaveform(now);
+      } else if (mode === 'pianoRoll') {
+        drawPianoRoll(now);
+      } else {
+        drawSpectrum();
+      }
+    };
+
     draw();
 
     return () => {
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      resizeObserver.disconnect();
+      ctx.clearRect(0, 0, width, height);
     };
-  }, [analyser, color, isActive]);
+  }, [analyser, color, isActive, mode, overlayAnalyser, overlayColor]);
 
   return (
     <canvas
       ref={canvasRef}
       className="w-full h-full rounded-lg"
-      width={600}
-      height={150}
     />
   );
 };
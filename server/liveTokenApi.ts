@@ -0,0 +1,11 @@
+// Contract between the token endpoint and the browser; safe to import from either side
+
+export const LIVE_TOKEN_PATH = '/api/live-token';
+
+// The SDK only accepts ephemeral tokens on the v1alpha API
+export const EPHEMERAL_TOKEN_API_VERSION = 'v1alpha';
+
+export interface LiveTokenResponse {
+  token: string;
+  expiresAt: string; // ISO time after which messages on the session are rejected
+}
@@ -0,0 +1,93 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { createLiveTokenHandler, LiveTokenHandlerOptions, StubTokenUpstream } from './liveTokenServer';
+import { LIVE_TOKEN_PATH } from './liveTokenApi';
+import { setLogLevel } from '../utils/logger';
+
+const NOW = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+let server: Server | null = null;
+
+// Serves the handler on an ephemeral port and returns its base URL
+async function serve(options: Partial<LiveTokenHandlerOptions> = {}) {
+  const upstream = (options.upstream as StubTokenUpstream) ?? new StubTokenUpstream();
+  const handler = createLiveTokenHandler({ now: () => NOW, ...options, upstream });
+  server = createServer((req, res) => { void handler(req, res); });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, upstream };
+}
+
+const post = (url: string, headers: Record<string, string> = {}) =>
+  fetch(url + LIVE_TOKEN_PATH, { method: 'POST', headers });
+
+describe('createLiveTokenHandler', () => {
+  beforeAll(() => setLogLevel('silent'));
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve));
+    server = null;
+  });
+
+  it('mints a token from the upstream with the configured lifetimes', async () => {
+    const { url, upstream } = await serve({ sessionMinutes: 10, newSessionSeconds: 30 });
+
+    const response = await post(url);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    expect(await response.json()).toEqual({ token: 'stub-token-1', expiresAt: '2025-01-01T12:10:00.000Z' });
+    expect(upstream.requests).toEqual([
+      { expireTime: '2025-01-01T12:10:00.000Z', newSessionExpireTime: '2025-01-01T12:00:30.000Z' },
+    ]);
+  });
+
+  it('rejects other methods and paths', async () => {
+    const { url, upstream } = await serve();
+
+    const get = await fetch(url + LIVE_TOKEN_PATH);
+    expect(get.status).toBe(405);
+    expect(get.headers.get('allow')).toBe('POST');
+    expect((await fetch(url + '/elsewhere', { method: 'POST' })).status).toBe(404);
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('accepts same-origin browser requests', async () => {
+    const { url } = await serve();
+
+    const response = await post(url, { Origin: url, 'Sec-Fetch-Site': 'same-origin' });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('rejects cross-origin requests without asking the upstream', async () => {
+    const { url, upstream } = await serve();
+
+    expect((await post(url, { Origin: 'http://evil.example' })).status).toBe(403);
+    expect((await post(url, { Origin: 'null' })).status).toBe(403);
+    expect((await post(url, { 'Sec-Fetch-Site': 'cross-site' })).status).toBe(403);
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('rate limits each client', async () => {
+    const { url, upstream } = await serve({ rateLimit: { maxRequests: 2, windowMs: 60_000 } });
+
+    expect((await post(url)).status).toBe(200);
+    expect((await post(url)).status).toBe(200);
+    const limited = await post(url);
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('60');
+    expect(upstream.requests).toHaveLength(2);
+  });
+
+  it('reports upstream failures as a bad gateway without leaking the cause', async () => {
+    const { url } = await serve({ upstream: new StubTokenUpstream(new Error('quota exceeded for key abc')) });
+
+    const response = await post(url);
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'Could not create a session token' });
+  });
+});
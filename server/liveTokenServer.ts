@@ -0,0 +1,199 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+import { GoogleGenAI } from '@google/genai';
+import { EPHEMERAL_TOKEN_API_VERSION, LIVE_TOKEN_PATH, LiveTokenResponse } from './liveTokenApi';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('LiveTokenServer');
+
+// Mints short-lived, single-use Gemini Live tokens so the real API key never
+// leaves the server. The browser fetches one per connection attempt and hands
+// it to the SDK in place of an API key.
+
+export interface TokenRequest {
+  expireTime: string;
+  newSessionExpireTime: string; // The token must be used to open a session before this
+}
+
+// Where tokens come from; swapped for a stub in local testing
+export interface TokenUpstream {
+  createToken(request: TokenRequest): Promise<string>;
+}
+
+export class GeminiTokenUpstream implements TokenUpstream {
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: EPHEMERAL_TOKEN_API_VERSION } });
+  }
+
+  public async createToken({ expireTime, newSessionExpireTime }: TokenRequest): Promise<string> {
+    const token = await this.ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime,
+        newSessionExpireTime,
+        httpOptions: { apiVersion: EPHEMERAL_TOKEN_API_VERSION },
+      },
+    });
+    if (!token.name) throw new Error('Upstream returned a token without a name');
+    return token.name;
+  }
+}
+
+// Hands out predictable fake tokens, for exercising the endpoint without a key
+export class StubTokenUpstream implements TokenUpstream {
+  public readonly requests: TokenRequest[] = [];
+
+  constructor(private failWith?: Error) {}
+
+  public async createToken(request: TokenRequest): Promise<string> {
+    this.requests.push(request);
+    if (this.failWith) throw this.failWith;
+    return `stub-token-${this.requests.length}`;
+  }
+}
+
+export interface LiveTokenHandlerOptions {
+  upstream: TokenUpstream;
+  sessionMinutes?: number; // How long a session opened with the token may run
+  newSessionSeconds?: number; // How long the token can be used to open a session
+  rateLimit?: RateLimit; // Per client address
+  now?: () => number;
+}
+
+export interface RateLimit {
+  maxRequests: number;
+  windowMs: number;
+}
+
+// A session makes one request per connect, plus one per reconnect attempt
+const DEFAULT_RATE_LIMIT: RateLimit = { maxRequests: 20, windowMs: 60_000 };
+
+type NextFunction = (error?: unknown) => void;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(body));
+};
+
+// Browsers send Origin on every POST, so a mismatch with Host means another
+// site is asking on the visitor's behalf. Requests without either header come
+// from non-browser clients such as curl and are left to the rate limit.
+function isCrossOrigin(req: IncomingMessage): boolean {
+  const fetchSite = req.headers['sec-fetch-site'];
+  if (fetchSite && fetchSite !== 'same-origin' && fetchSite !== 'none') return true;
+  const origin = req.headers.origin;
+  if (!origin) return false;
+  try {
+    return new URL(origin).host !== req.headers.host;
+  } catch (e) {
+    return true; // Includes the literal "null" origin of sandboxed frames
+  }
+}
+
+// Sliding window of request times per client address
+class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private limit: RateLimit) {}
+
+  // Records the request and returns 0 if allowed, otherwise the ms until the next slot frees
+  public take(client: string, at: number): number {
+    const since = at - this.limit.windowMs;
+    const recent = (this.hits.get(client) ?? []).filter(time => time > since);
+    if (recent.length >= this.limit.maxRequests) {
+      this.hits.set(client, recent);
+      return recent[0] - since;
+    }
+    recent.push(at);
+    this.hits.set(client, recent);
+    // Drop idle clients so the map doesn't grow with every address ever seen
+    if (this.hits.size > 1000) {
+      for (const [key, times] of this.hits) {
+        if (times[times.length - 1] <= since) this.hits.delete(key);
+      }
+    }
+    return 0;
+  }
+}
+
+// Connect-style middleware, usable from Vite or a plain node:http server
+export function createLiveTokenHandler(options: LiveTokenHandlerOptions) {
+  const sessionMinutes = options.sessionMinutes ?? 30;
+  const newSessionSeconds = options.newSessionSeconds ?? 60;
+  const now = options.now ?? Date.now;
+  const limiter = new RateLimiter(options.rateLimit ?? DEFAULT_RATE_LIMIT);
+
+  return async (req: IncomingMessage, res: ServerResponse, next?: NextFunction) => {
+    const path = (req.url ?? '').split('?')[0];
+    if (path !== LIVE_TOKEN_PATH) {
+      if (next) next();
+      else sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    if (isCrossOrigin(req)) {
+      log.warn('Rejected cross-origin token request from', req.headers.origin ?? req.headers['sec-fetch-site']);
+      sendJson(res, 403, { error: 'Cross-origin requests are not allowed' });
+      return;
+    }
+
+    const issuedAt = now();
+    const retryAfterMs = limiter.take(req.socket.remoteAddress ?? 'unknown', issuedAt);
+    if (retryAfterMs > 0) {
+      res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+      sendJson(res, 429, { error: 'Too many token requests; try again shortly' });
+      return;
+    }
+
+    const request: TokenRequest = {
+      expireTime: new Date(issuedAt + sessionMinutes * 60_000).toISOString(),
+      newSessionExpireTime: new Date(issuedAt + newSessionSeconds * 1000).toISOString(),
+    };
+
+    try {
+      const token = await options.upstream.createToken(request);
+      const body: LiveTokenResponse = { token, expiresAt: request.expireTime };
+      sendJson(res, 200, body);
+    } catch (e: unknown) {
+      log.error('Failed to mint Live token:', e);
+      sendJson(res, 502, { error: 'Could not create a session token' });
+    }
+  };
+}
+
+// Chooses the upstream from the environment: LIVE_TOKEN_UPSTREAM=stub for local
+// testing, otherwise GEMINI_API_KEY. Returns null when neither is configured.
+export function createUpstreamFromEnv(env: Record<string, string | undefined>): TokenUpstream | null {
+  if (env.LIVE_TOKEN_UPSTREAM === 'stub') return new StubTokenUpstream();
+  if (env.GEMINI_API_KEY) return new GeminiTokenUpstream(env.GEMINI_API_KEY);
+  return null;
+}
+
+// Serves the token endpoint from `vite` and `vite preview`
+export function liveTokenPlugin(env: Record<string, string | undefined>): Plugin {
+  const upstream = createUpstreamFromEnv(env);
+  const handler = upstream
+    ? createLiveTokenHandler({ upstream })
+    : (req: IncomingMessage, res: ServerResponse, next: NextFunction) => {
+        if ((req.url ?? '').split('?')[0] !== LIVE_TOKEN_PATH) return next();
+        sendJson(res, 500, { error: 'GEMINI_API_KEY is not set on the server' });
+      };
+
+  return {
+    name: 'melody-weaver-live-token',
+    configureServer(server) {
+      server.middlewares.use(handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(handler);
+    },
+  };
+}
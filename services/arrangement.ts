@@ -0,0 +1,209 @@
+import { Arrangement, ArrangementClip, ArrangementTrack, CapturedTurn, INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE } from '../types';
+
+// Multitrack arrangement of captured takes. Each track is a mixer strip:
+// region sources -> gain -> stereo panner -> master. The same graph drives
+// live playback on the session's output AudioContext and the offline bounce,
+// so what gets exported is what was heard.
+
+// Bounces render at the model's output rate; nothing in the arrangement is above it
+export const BOUNCE_SAMPLE_RATE = OUTPUT_SAMPLE_RATE;
+
+// Oldest clips not placed on any track are dropped past this
+const MAX_CLIPS = 40;
+
+// Lead time so the first region isn't scheduled in the past
+const START_DELAY_SECONDS = 0.05;
+
+// Gain, pan and mute changes ramp over this long to avoid clicks
+const MIX_RAMP_SECONDS = 0.03;
+
+interface TrackStrip {
+  gain: GainNode;
+  panner: StereoPannerNode;
+}
+
+export const createTrack = (index: number): ArrangementTrack => ({
+  id: crypto.randomUUID(),
+  name: `Track ${index}`,
+  regions: [],
+  gain: 1,
+  pan: 0,
+  mute: false,
+  solo: false,
+});
+
+export const createArrangement = (trackCount = 2): Arrangement => ({
+  clips: [],
+  tracks: Array.from({ length: trackCount }, (_, i) => createTrack(i + 1)),
+});
+
+export const clipDuration = (clip: ArrangementClip) => clip.samples.length / clip.sampleRate;
+
+// Adds both sides of a finished turn to the clip bin
+export function addTurnClips(arrangement: Arrangement, turn: Pick<CapturedTurn, 'input' | 'output' | 'fileName' | 'completedAt'>): Arrangement {
+  const label = turn.fileName ?? `Turn at ${new Date(turn.completedAt).toLocaleTimeString()}`;
+  const added: ArrangementClip[] = [];
+  if (turn.input.length > 0) {
+    added.push({ id: crypto.randomUUID(), name: `${label} · you`, source: 'input', samples: turn.input, sampleRate: INPUT_SAMPLE_RATE });
+  }
+  if (turn.output.length > 0) {
+    added.push({ id: crypto.randomUUID(), name: `${label} · AI`, source: 'output', samples: turn.output, sampleRate: OUTPUT_SAMPLE_RATE });
+  }
+
+  let clips = [...arrangement.clips, ...added];
+  if (clips.length > MAX_CLIPS) {
+    const placed = new Set(arrangement.tracks.flatMap(track => track.regions.map(region => region.clipId)));
+    const dropped = new Set(clips.filter(clip => !placed.has(clip.id)).slice(0, clips.length - MAX_CLIPS).map(clip => clip.id));
+    clips = clips.filter(clip => !dropped.has(clip.id));
+  }
+  return { ...arrangement, clips };
+}
+
+// With any track soloed, only soloed tracks play; otherwise every unmuted one does
+export function isTrackAudible(track: ArrangementTrack, tracks: ArrangementTrack[]): boolean {
+  return tracks.some(t => t.solo) ? track.solo : !track.mute;
+}
+
+// End of the last region, in seconds
+export function arrangementDuration(arrangement: Arrangement): number {
+  const clips = new Map(arrangement.clips.map(clip => [clip.id, clip]));
+  let end = 0;
+  for (const track of arrangement.tracks) {
+    for (const region of track.regions) {
+      const clip = clips.get(region.clipId);
+      if (clip) end = Math.max(end, region.offset + clipDuration(clip));
+    }
+  }
+  return end;
+}
+
+const trackLevel = (track: ArrangementTrack, tracks: ArrangementTrack[]) => (isTrackAudible(track, tracks) ? track.gain : 0);
+
+// Builds the mixer and schedules every region, with arrangement time `from` at context time `startAt`
+function scheduleArrangement(context: BaseAudioContext, destination: AudioNode, arrangement: Arrangement, startAt: number, from: number) {
+  const clips = new Map(arrangement.clips.map(clip => [clip.id, clip]));
+  const buffers = new Map<string, AudioBuffer>(); // Shared by regions of the same clip
+  const strips = new Map<string, TrackStrip>();
+  const sources: AudioBufferSourceNode[] = [];
+
+  for (const track of arrangement.tracks) {
+    const gain = context.createGain();
+    gain.gain.value = trackLevel(track, arrangement.tracks);
+    const panner = context.createStereoPanner();
+    panner.pan.value = track.pan;
+    gain.connect(panner).connect(destination);
+    strips.set(track.id, { gain, panner });
+
+    for (const region of track.regions) {
+      const clip = clips.get(region.clipId);
+      if (!clip || region.offset + clipDuration(clip) <= from) continue;
+
+      let buffer = buffers.get(clip.id);
+      if (!buffer) {
+        buffer = context.createBuffer(1, Math.max(1, clip.samples.length), clip.sampleRate);
+        buffer.copyToChannel(clip.samples, 0);
+        buffers.set(clip.id, buffer);
+      }
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(gain);
+      // Regions already under way start part-way through
+      source.start(startAt + Math.max(0, region.offset - from), Math.max(0, from - region.offset));
+      sources.push(source);
+    }
+  }
+  return { strips, sources };
+}
+
+// Plays an arrangement in real time
+export class ArrangementPlayer {
+  private context: AudioContext;
+  private destination: AudioNode;
+  private master: GainNode | null = null;
+  private strips = new Map<string, TrackStrip>();
+  private sources: AudioBufferSourceNode[] = [];
+  private startTime = 0; // Context time of `startOffset`
+  private startOffset = 0;
+  private endTimer: ReturnType<typeof setTimeout> | null = null;
+
+  public onEnded: () => void = () => {};
+
+  constructor(context: AudioContext, destination: AudioNode) {
+    this.context = context;
+    this.destination = destination;
+  }
+
+  public getContext() {
+    return this.context;
+  }
+
+  // Starts from `from` seconds, replacing anything already playing
+  public play(arrangement: Arrangement, from = 0) {
+    this.stop();
+    const duration = arrangementDuration(arrangement);
+    if (from >= duration) return;
+
+    this.master = this.context.createGain();
+    this.master.connect(this.destination);
+    this.startTime = this.context.currentTime + START_DELAY_SECONDS;
+    this.startOffset = from;
+
+    const { strips, sources } = scheduleArrangement(this.context, this.master, arrangement, this.startTime, from);
+    this.strips = strips;
+    this.sources = sources;
+    this.endTimer = setTimeout(() => {
+      this.stop();
+      this.onEnded();
+    }, (duration - from + START_DELAY_SECONDS) * 1000);
+  }
+
+  // Applies gain, pan, mute and solo to what's playing; moved regions need a restart
+  public updateMix(arrangement: Arrangement) {
+    const now = this.context.currentTime;
+    for (const track of arrangement.tracks) {
+      const strip = this.strips.get(track.id);
+      if (!strip) continue;
+      strip.gain.gain.setTargetAtTime(trackLevel(track, arrangement.tracks), now, MIX_RAMP_SECONDS / 3);
+      strip.panner.pan.setTargetAtTime(track.pan, now, MIX_RAMP_SECONDS / 3);
+    }
+  }
+
+  public stop() {
+    if (this.endTimer) {
+      clearTimeout(this.endTimer);
+      this.endTimer = null;
+    }
+    for (const source of this.sources) {
+      try { source.stop(); } catch (e) { /* never started or context closed */ }
+    }
+    this.sources = [];
+    this.strips.clear();
+    this.master?.disconnect();
+    this.master = null;
+  }
+
+  public isPlaying() {
+    return this.master !== null;
+  }
+
+  // Seconds into the arrangement
+  public getPosition() {
+    if (!this.master) return 0;
+    return this.startOffset + Math.max(0, this.context.currentTime - this.startTime);
+  }
+
+  public dispose() {
+    this.stop();
+    this.onEnded = () => {};
+  }
+}
+
+// Mixes the whole arrangement down to stereo
+export async function bounceArrangement(arrangement: Arrangement, sampleRate = BOUNCE_SAMPLE_RATE): Promise<AudioBuffer> {
+  const duration = arrangementDuration(arrangement);
+  if (duration === 0) throw new Error("Place a take on a track first");
+
+  const context = new OfflineAudioContext(2, Math.ceil(duration * sampleRate), sampleRate);
+  scheduleArrangement(context, context.destination, arrangement, 0, 0);
+  return context.startRendering();
+}
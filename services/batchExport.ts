@@ -0,0 +1,102 @@
+import { BatchItem, INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE } from '../types';
+import { encodeWAV } from '../utils/audioUtils';
+import { ZipEntry, writeZip } from '../utils/zipFile';
+
+// Batch results as a zip: one input and one continuation WAV per clip, plus a
+// manifest describing every clip, including the ones that failed.
+
+export const BATCH_MANIFEST_VERSION = 1;
+
+interface ManifestAudio {
+  path: string;
+  sampleRate: number;
+  duration: number; // Seconds
+}
+
+interface ManifestItem {
+  index: number;
+  fileName: string;
+  status: BatchItem['status'];
+  error?: string;
+  input?: ManifestAudio;
+  continuation?: ManifestAudio;
+  texts?: string[];
+  startedAt?: string;
+  sentAt?: string;
+  completedAt?: string;
+  responseSeconds?: number; // From the clip finishing sending to the turn completing
+  key?: { input: string | null; continuation: string | null };
+  tempo?: { input: number | null; continuation: number | null };
+  matchScore?: number | null;
+}
+
+export interface BatchManifest {
+  version: number;
+  exportedAt: string;
+  presetName?: string;
+  items: ManifestItem[];
+}
+
+// Keeps archive paths portable
+const safeName = (name: string) => name.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_').slice(0, 60) || 'clip';
+
+const toIso = (time?: number) => (time === undefined ? undefined : new Date(time).toISOString());
+
+export async function buildBatchZip(items: BatchItem[], presetName?: string): Promise<Uint8Array> {
+  const entries: ZipEntry[] = [];
+  const manifestItems: ManifestItem[] = [];
+
+  for (const [i, item] of items.entries()) {
+    const index = i + 1;
+    const manifestItem: ManifestItem = {
+      index,
+      fileName: item.file.name,
+      status: item.status,
+      error: item.error,
+    };
+
+    const turn = item.turn;
+    if (turn) {
+      const prefix = `${String(index).padStart(2, '0')}-${safeName(item.file.name)}`;
+      const inputPath = `audio/${prefix}-input.wav`;
+      const outputPath = `audio/${prefix}-continuation.wav`;
+      entries.push({
+        name: inputPath,
+        data: new Uint8Array(await encodeWAV([turn.input], INPUT_SAMPLE_RATE).arrayBuffer()),
+      });
+      entries.push({
+        name: outputPath,
+        data: new Uint8Array(await encodeWAV([turn.output], OUTPUT_SAMPLE_RATE).arrayBuffer()),
+      });
+
+      Object.assign(manifestItem, {
+        input: { path: inputPath, sampleRate: INPUT_SAMPLE_RATE, duration: turn.input.length / INPUT_SAMPLE_RATE },
+        continuation: { path: outputPath, sampleRate: OUTPUT_SAMPLE_RATE, duration: turn.output.length / OUTPUT_SAMPLE_RATE },
+        texts: turn.texts,
+        startedAt: toIso(turn.startedAt),
+        sentAt: toIso(item.sentAt),
+        completedAt: toIso(turn.completedAt),
+        responseSeconds: item.sentAt !== undefined ? (turn.completedAt - item.sentAt) / 1000 : undefined,
+        key: {
+          input: turn.analysis.input.key?.name ?? null,
+          continuation: turn.analysis.output.key?.name ?? null,
+        },
+        tempo: {
+          input: turn.analysis.input.tempo?.bpm ?? null,
+          continuation: turn.analysis.output.tempo?.bpm ?? null,
+        },
+        matchScore: turn.analysis.match.overall,
+      });
+    }
+    manifestItems.push(manifestItem);
+  }
+
+  const manifest: BatchManifest = {
+    version: BATCH_MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    presetName,
+    items: manifestItems,
+  };
+  entries.unshift({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return writeZip(entries);
+}
@@ -0,0 +1,155 @@
+// AudioWorklet that turns mic input into Int16 frames at the Gemini input rate.
+// The source is inlined and loaded through a Blob URL so it works without any
+// bundler-specific worklet handling.
+
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('CaptureWorklet');
+
+export const CAPTURE_PROCESSOR_NAME = 'pcm-capture-processor';
+
+export interface CaptureProcessorOptions {
+  targetRate: number;
+  frameSize: number; // Samples per posted frame, at targetRate
+}
+
+const CAPTURE_WORKLET_SOURCE = `
+const NUM_TAPS = 63;
+const RENDER_QUANTUM = 128;
+
+function nextPowerOfTwo(n) {
+  let size = 1;
+  while (size < n) size *= 2;
+  return size;
+}
+
+// Windowed-sinc (Blackman) low-pass; cutoff is a fraction of the source rate
+function designLowPass(cutoff) {
+  const taps = new Float32Array(NUM_TAPS);
+  const mid = (NUM_TAPS - 1) / 2;
+  let sum = 0;
+  for (let i = 0; i < NUM_TAPS; i++) {
+    const n = i - mid;
+    const sinc = n === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * n) / (Math.PI * n);
+    const window = 0.42 - 0.5 * Math.cos((2 * Math.PI * i) / (NUM_TAPS - 1)) + 0.08 * Math.cos((4 * Math.PI * i) / (NUM_TAPS - 1));
+    taps[i] = sinc * window;
+    sum += taps[i];
+  }
+  for (let i = 0; i < NUM_TAPS; i++) taps[i] /= sum;
+  return taps;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, frameSize } = options.processorOptions;
+    this.ratio = sampleRate / targetRate;
+    // Cut off a little below the target Nyquist frequency to leave room for the transition band
+    this.taps = this.ratio > 1 ? designLowPass((0.45 * targetRate) / sampleRate) : new Float32Array([1]);
+    this.half = (this.taps.length - 1) / 2;
+    // Source samples waiting to be filtered, in a ring that is only reallocated
+    // if a render quantum ever outgrows it
+    this.ring = new Float32Array(nextPowerOfTwo(this.taps.length + 2 * RENDER_QUANTUM));
+    this.head = 0; // Ring index of the oldest kept sample
+    this.count = 0; // Samples kept, starting at head
+    this.position = this.half; // Fractional read position in source samples, relative to head
+    this.frameSize = frameSize;
+    this.frame = new Int16Array(frameSize);
+    this.frameIndex = 0;
+  }
+
+  filterAt(index) {
+    const taps = this.taps;
+    const ring = this.ring;
+    const mask = ring.length - 1;
+    const start = this.head + index - this.half;
+    let acc = 0;
+    for (let k = 0; k < taps.length; k++) {
+      acc += taps[k] * ring[(start + k) & mask];
+    }
+    return acc;
+  }
+
+  write(input) {
+    if (this.count + input.length > this.ring.length) this.grow(this.count + input.length);
+    const mask = this.ring.length - 1;
+    let at = this.head + this.count;
+    for (let i = 0; i < input.length; i++) {
+      this.ring[at++ & mask] = input[i];
+    }
+    this.count += input.length;
+  }
+
+  grow(needed) {
+    const ring = new Float32Array(nextPowerOfTwo(needed));
+    const mask = this.ring.length - 1;
+    for (let i = 0; i < this.count; i++) {
+      ring[i] = this.ring[(this.head + i) & mask];
+    }
+    this.ring = ring;
+    this.head = 0;
+  }
+
+  pushSample(value) {
+    const s = Math.max(-1, Math.min(1, value));
+    this.frame[this.frameIndex++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    if (this.frameIndex === this.frameSize) {
+      this.port.postMessage(this.frame.buffer, [this.frame.buffer]);
+      this.frame = new Int16Array(this.frameSize);
+      this.frameIndex = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    this.write(input);
+
+    while (Math.floor(this.position) + 1 + this.half < this.count) {
+      const index = Math.floor(this.position);
+      const frac = this.position - index;
+      this.pushSample(this.filterAt(index) * (1 - frac) + this.filterAt(index + 1) * frac);
+      this.position += this.ratio;
+    }
+
+    // Drop consumed samples, keeping enough history for the filter kernel
+    const consumed = Math.floor(this.position) - this.half;
+    if (consumed > 0) {
+      this.head = (this.head + consumed) & (this.ring.length - 1);
+      this.count -= consumed;
+      this.position -= consumed;
+    }
+    return true;
+  }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+// Registers the capture processor on the given context; resolves false when
+// AudioWorklet is unavailable so callers can fall back to ScriptProcessorNode.
+export async function loadCaptureWorklet(ctx: AudioContext): Promise<boolean> {
+  if (!ctx.audioWorklet || typeof AudioWorkletNode === 'undefined') return false;
+
+  const url = URL.createObjectURL(new Blob([CAPTURE_WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    return true;
+  } catch (e) {
+    log.warn('Failed to load capture worklet, falling back to ScriptProcessor', e);
+    return false;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function createCaptureNode(ctx: AudioContext, options: CaptureProcessorOptions): AudioWorkletNode {
+  return new AudioWorkletNode(ctx, CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: options,
+  });
+}
@@ -0,0 +1,54 @@
+import { ChatMessage } from '../types';
+
+// Running chat log of typed instructions and the model's text replies.
+// LiveManager writes to it as turns are sent and answered; the App owns it,
+// so it outlives individual sessions.
+
+// Oldest messages are dropped past this
+const MAX_MESSAGES = 200;
+
+export class ChatTranscript {
+  private messages: ChatMessage[] = [];
+  private openReplyId: string | null = null; // Model message still receiving text
+
+  public onChange: (messages: ChatMessage[]) => void = () => {};
+
+  // `attachedTo` names the clip or phrase the instructions were sent with
+  public addUser(text: string, attachedTo?: string) {
+    this.endReply();
+    this.push({ id: crypto.randomUUID(), role: 'user', text, at: Date.now(), attachedTo });
+  }
+
+  // Text parts of one model turn are joined into a single message
+  public appendModel(text: string) {
+    const open = this.messages.find(m => m.id === this.openReplyId);
+    if (open) {
+      this.messages = this.messages.map(m => (m === open ? { ...m, text: m.text + text } : m));
+      this.onChange(this.messages);
+      return;
+    }
+    const message: ChatMessage = { id: crypto.randomUUID(), role: 'model', text, at: Date.now() };
+    this.openReplyId = message.id;
+    this.push(message);
+  }
+
+  // The model's turn finished or was interrupted
+  public endReply() {
+    this.openReplyId = null;
+  }
+
+  public clear() {
+    this.messages = [];
+    this.openReplyId = null;
+    this.onChange(this.messages);
+  }
+
+  public getMessages() {
+    return this.messages;
+  }
+
+  private push(message: ChatMessage) {
+    this.messages = [...this.messages, message].slice(-MAX_MESSAGES);
+    this.onChange(this.messages);
+  }
+}
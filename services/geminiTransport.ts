@@ -0,0 +1,40 @@
+import { GoogleGenAI } from '@google/genai';
+import { LiveTransport, LiveTransportConnectParams, LiveTransportSession } from './liveTransport';
+import { LiveErrorKind, LiveSessionError, classifyHttpStatus } from './liveErrors';
+import { EPHEMERAL_TOKEN_API_VERSION, LIVE_TOKEN_PATH, LiveTokenResponse } from '../server/liveTokenApi';
+
+// Resolves a fresh single-use token for each connection attempt
+export type TokenProvider = () => Promise<string>;
+
+// Fetches an ephemeral token from our own server, which holds the API key
+export const fetchLiveToken: TokenProvider = async () => {
+  let response: Response;
+  try {
+    response = await fetch(LIVE_TOKEN_PATH, { method: 'POST' });
+  } catch (e: unknown) {
+    // fetch() rejects with a TypeError when the network is unreachable
+    throw new LiveSessionError(LiveErrorKind.NETWORK, e instanceof Error ? e.message : 'Token request failed');
+  }
+  if (!response.ok) {
+    let message = `Token request failed (${response.status})`;
+    try {
+      const body = await response.json();
+      if (body?.error) message = body.error;
+    } catch (e) { /* not JSON */ }
+    throw classifyHttpStatus(response.status, message);
+  }
+  const body: LiveTokenResponse = await response.json();
+  return body.token;
+};
+
+// Connects straight to the Gemini Live API through the official SDK
+export class GeminiLiveTransport implements LiveTransport {
+  constructor(private getToken: TokenProvider = fetchLiveToken) {}
+
+  public async connect({ model, config, callbacks }: LiveTransportConnectParams): Promise<LiveTransportSession> {
+    // Tokens are single use, so every connect (including reconnects) gets a new one
+    const token = await this.getToken();
+    const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: EPHEMERAL_TOKEN_API_VERSION } });
+    return ai.live.connect({ model, config, callbacks });
+  }
+}
@@ -0,0 +1,96 @@
+import { CapturedTurn, HistoryTurn, INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE } from '../types';
+
+// Session history persisted in IndexedDB. Audio is stored as Float32Arrays,
+// which structured cloning handles without any encoding step.
+
+const DB_NAME = 'melody-weaver';
+const DB_VERSION = 1;
+const TURN_STORE = 'turns';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TURN_STORE)) {
+          const store = db.createObjectStore(TURN_STORE, { keyPath: 'id' });
+          store.createIndex('completedAt', 'completedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a later retry
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(TURN_STORE, mode);
+  return promisify(run(transaction.objectStore(TURN_STORE)));
+}
+
+// Newest first
+export async function listTurns(): Promise<HistoryTurn[]> {
+  const turns = await withStore<HistoryTurn[]>('readonly', store => store.index('completedAt').getAll());
+  return turns.reverse();
+}
+
+export function getTurn(id: string): Promise<HistoryTurn | undefined> {
+  return withStore<HistoryTurn | undefined>('readonly', store => store.get(id));
+}
+
+export async function saveTurn(turn: HistoryTurn): Promise<HistoryTurn> {
+  await withStore('readwrite', store => store.put(turn));
+  return turn;
+}
+
+export async function renameTurn(id: string, name: string): Promise<HistoryTurn | undefined> {
+  const turn = await getTurn(id);
+  if (!turn) return undefined;
+  return saveTurn({ ...turn, name });
+}
+
+export async function deleteTurn(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export function createHistoryTurn(turn: CapturedTurn, presetName?: string): HistoryTurn {
+  const time = new Date(turn.completedAt).toLocaleTimeString();
+  return {
+    id: crypto.randomUUID(),
+    name: turn.fileName ? `${turn.fileName} (${time})` : `Take at ${time}`,
+    input: turn.input,
+    output: turn.output,
+    texts: turn.texts,
+    lyrics: turn.lyrics,
+    startedAt: turn.startedAt,
+    completedAt: turn.completedAt,
+    fileName: turn.fileName,
+    presetName,
+    inputDuration: turn.input.length / INPUT_SAMPLE_RATE,
+    outputDuration: turn.output.length / OUTPUT_SAMPLE_RATE,
+    analysis: turn.analysis,
+  };
+}
+
+// Case-insensitive match on the turn's name, the model's text and the lyrics of both sides
+export function turnMatchesSearch(turn: HistoryTurn, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  const lyrics = [...(turn.lyrics?.input ?? []), ...(turn.lyrics?.output ?? [])].map(segment => segment.text);
+  return [turn.name, ...turn.texts, ...lyrics].some(text => text.toLowerCase().includes(needle));
+}
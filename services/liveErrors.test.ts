@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LiveErrorKind, LiveSessionError, classifyCloseEvent, classifyError } from './liveErrors';
+import { fetchLiveToken } from './geminiTransport';
+
+describe('classifyError', () => {
+  it('surfaces programming errors instead of retrying them', () => {
+    let bug: unknown;
+    try {
+      (undefined as unknown as { serverContent: unknown }).serverContent;
+    } catch (e) {
+      bug = e;
+    }
+
+    const error = classifyError(bug);
+
+    expect(bug).toBeInstanceOf(TypeError);
+    expect(error.kind).toBe(LiveErrorKind.UNKNOWN);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('maps socket DOMExceptions to retryable kinds', () => {
+    expect(classifyError(new DOMException('gone', 'InvalidStateError')).kind).toBe(LiveErrorKind.SESSION_CLOSED);
+    expect(classifyError(new DOMException('slow', 'TimeoutError')).kind).toBe(LiveErrorKind.TIMEOUT);
+    expect(classifyError(new DOMException('down', 'NetworkError')).retryable).toBe(true);
+  });
+
+  it('passes classified errors through unchanged', () => {
+    const error = new LiveSessionError(LiveErrorKind.AUTH, 'Bad key');
+
+    expect(classifyError(error)).toBe(error);
+  });
+
+  it('treats an abnormal close as a network drop', () => {
+    expect(classifyCloseEvent({ code: 1006, reason: '' })).toMatchObject({ kind: LiveErrorKind.NETWORK, code: 1006 });
+  });
+});
+
+describe('fetchLiveToken', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports an unreachable token endpoint as a retryable network error', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+
+    await expect(fetchLiveToken()).rejects.toMatchObject({ kind: LiveErrorKind.NETWORK, message: 'Failed to fetch' });
+  });
+
+  it('classifies error responses by status', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify({ error: 'Slow down' }), { status: 429 })));
+
+    await expect(fetchLiveToken()).rejects.toMatchObject({ kind: LiveErrorKind.UNAVAILABLE, message: 'Slow down', code: 429 });
+  });
+});
@@ -0,0 +1,84 @@
+import { ApiError } from '@google/genai';
+import { LiveTransportCloseEvent } from './liveTransport';
+
+export enum LiveErrorKind {
+  NETWORK = 'NETWORK', // Socket dropped or could not be reached
+  TIMEOUT = 'TIMEOUT',
+  UNAVAILABLE = 'UNAVAILABLE', // Server overloaded, rate limited or restarting
+  SESSION_CLOSED = 'SESSION_CLOSED', // Session ended underneath us (e.g. time limit, go-away)
+  AUTH = 'AUTH', // Bad or expired credentials
+  INVALID_REQUEST = 'INVALID_REQUEST', // Bad model name, config, or payload
+  UNKNOWN = 'UNKNOWN',
+}
+
+const RETRYABLE_KINDS = new Set([
+  LiveErrorKind.NETWORK,
+  LiveErrorKind.TIMEOUT,
+  LiveErrorKind.UNAVAILABLE,
+  LiveErrorKind.SESSION_CLOSED,
+]);
+
+export class LiveSessionError extends Error {
+  public readonly kind: LiveErrorKind;
+  public readonly code?: number;
+
+  constructor(kind: LiveErrorKind, message: string, code?: number) {
+    super(message);
+    this.name = 'LiveSessionError';
+    this.kind = kind;
+    this.code = code;
+  }
+
+  get retryable() {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+}
+
+// WebSocket close codes, see RFC 6455 section 7.4.1
+export function classifyCloseEvent(event: LiveTransportCloseEvent): LiveSessionError {
+  const message = event.reason || `Connection closed (code ${event.code})`;
+  switch (event.code) {
+    case 1006: // Abnormal closure, no close frame
+      return new LiveSessionError(LiveErrorKind.NETWORK, message, event.code);
+    case 1007: // Invalid payload data
+    case 1003: // Unsupported data
+      return new LiveSessionError(LiveErrorKind.INVALID_REQUEST, message, event.code);
+    case 1008: // Policy violation: Gemini uses this for rejected keys and bad setup
+      return new LiveSessionError(LiveErrorKind.AUTH, message, event.code);
+    case 1011: // Internal server error
+    case 1012: // Service restart
+    case 1013: // Try again later
+      return new LiveSessionError(LiveErrorKind.UNAVAILABLE, message, event.code);
+    default: // 1000/1001 and anything else we did not ask for
+      return new LiveSessionError(LiveErrorKind.SESSION_CLOSED, message, event.code);
+  }
+}
+
+export function classifyHttpStatus(status: number, message: string): LiveSessionError {
+  if (status === 401 || status === 403) return new LiveSessionError(LiveErrorKind.AUTH, message, status);
+  if (status === 408 || status === 504) return new LiveSessionError(LiveErrorKind.TIMEOUT, message, status);
+  if (status === 429 || status >= 500) return new LiveSessionError(LiveErrorKind.UNAVAILABLE, message, status);
+  if (status >= 400) return new LiveSessionError(LiveErrorKind.INVALID_REQUEST, message, status);
+  return new LiveSessionError(LiveErrorKind.UNKNOWN, message, status);
+}
+
+export function classifyError(error: unknown): LiveSessionError {
+  if (error instanceof LiveSessionError) return error;
+  if (error instanceof ApiError) return classifyHttpStatus(error.status, error.message);
+
+  // Socket-level errors carry no detail; the close event that follows has the code
+  if (typeof ErrorEvent !== 'undefined' && error instanceof ErrorEvent) {
+    return new LiveSessionError(LiveErrorKind.NETWORK, error.message || 'Connection error');
+  }
+  if (error instanceof DOMException) {
+    if (error.name === 'TimeoutError') return new LiveSessionError(LiveErrorKind.TIMEOUT, error.message);
+    // Sending on a socket that is not open
+    if (error.name === 'InvalidStateError') return new LiveSessionError(LiveErrorKind.SESSION_CLOSED, error.message);
+    if (error.name === 'NetworkError') return new LiveSessionError(LiveErrorKind.NETWORK, error.message);
+  }
+  // Anything else, TypeErrors included, is a bug rather than a flaky network, so
+  // it surfaces instead of being retried. Call sites that know a TypeError means
+  // an unreachable network (fetch) classify it themselves.
+  const message = error instanceof Error ? error.message : String(error);
+  return new LiveSessionError(LiveErrorKind.UNKNOWN, message || 'Unknown error');
+}
@@ -0,0 +1,237 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveManager } from './liveManager';
+import { MockLiveSession, MockLiveTransport, mockAudioMessage, mockInterruptedMessage, mockTextMessage, mockTurnCompleteMessage } from './mockTransport';
+import { LiveErrorKind, LiveSessionError } from './liveErrors';
+import { ConnectionState, INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, PlaybackEvent, ReconnectStatus } from '../types';
+import { setLogLevel } from '../utils/logger';
+import { FakeAudioContext, installFakeAudio } from '../test/fakeAudio';
+
+// Backoff is jittered between half and all of this, so advancing by it always fires the retry
+const RECONNECT = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 100 };
+
+const scriptedTurn = () => ({
+  messages: [
+    mockTextMessage('Here is a continuation.'),
+    mockAudioMessage(new Float32Array(OUTPUT_SAMPLE_RATE / 10).fill(0.25)),
+    mockTurnCompleteMessage(),
+  ],
+  delayMs: 10,
+});
+
+// A clip already at the input rate, so the upload sends it sample for sample
+function createClip(seconds: number): AudioBuffer {
+  const clip = new FakeAudioContext().createBuffer(1, seconds * INPUT_SAMPLE_RATE, INPUT_SAMPLE_RATE);
+  clip.getChannelData(0).fill(0.5);
+  return clip as unknown as AudioBuffer;
+}
+
+const sentChunks = (session: MockLiveSession) => session.sent.filter(m => m.kind === 'realtime' && m.params.media);
+const sentPrompts = (session: MockLiveSession) => session.sent.filter(m => m.kind === 'realtime' && m.params.text);
+
+function createManager(transport: MockLiveTransport) {
+  const manager = new LiveManager(transport, undefined, { reconnect: RECONNECT });
+  const states: ConnectionState[] = [];
+  const reconnects: ReconnectStatus[] = [];
+  const playback: PlaybackEvent[] = [];
+  manager.onStatusChange = (state) => states.push(state);
+  manager.onReconnectStatus = (status) => reconnects.push(status);
+  manager.onPlaybackEvent = (event) => playback.push(event);
+  return { manager, states, reconnects, playback };
+}
+
+describe('LiveManager with the mock transport', () => {
+  beforeEach(() => {
+    installFakeAudio();
+    setLogLevel('silent');
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('plays back a scripted turn once the user hands over', async () => {
+    const transport = new MockLiveTransport({ turns: [scriptedTurn()] });
+    const { manager, playback } = createManager(transport);
+
+    await manager.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(manager.getState()).toBe(ConnectionState.CONNECTED);
+
+    manager.endUserTurn();
+    expect(manager.getPlaybackState()).toBe('waiting');
+    expect(transport.currentSession!.sent).toContainEqual({
+      kind: 'realtime',
+      params: { text: expect.stringContaining('Generate a musical continuation') },
+    });
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(playback.map(event => event.type)).toEqual(['turnStarted']);
+    expect(manager.getPlaybackState()).toBe('playing');
+    expect(manager.getTranscript().getMessages().map(m => [m.role, m.text])).toEqual([['model', 'Here is a continuation.']]);
+    expect(manager.getMetrics().getSnapshot().chunksReceived).toBe(1);
+
+    manager.disconnect();
+  });
+
+  it('stops playback and drops the reply when the model is interrupted', async () => {
+    const transport = new MockLiveTransport({
+      turns: [{
+        messages: [
+          mockTextMessage('Here is'),
+          mockAudioMessage(new Float32Array(OUTPUT_SAMPLE_RATE / 10).fill(0.25)),
+          mockInterruptedMessage(),
+          mockTextMessage('Starting over.'),
+          mockTurnCompleteMessage(),
+        ],
+        delayMs: 10,
+      }],
+    });
+    const { manager, playback } = createManager(transport);
+    const turns: unknown[] = [];
+    manager.onTurnComplete = (turn) => turns.push(turn);
+
+    await manager.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const upload = manager.sendAudioBuffer(createClip(1), 'clip.wav');
+    await vi.advanceTimersByTimeAsync(1000);
+    await upload;
+
+    expect(playback.map(event => event.type)).toEqual(['turnStarted', 'turnFinished']);
+    expect(playback[1]).toEqual({ type: 'turnFinished', interrupted: true });
+    expect(manager.getPlaybackState()).toBe('idle');
+    // The interrupted reply is not kept as a turn
+    expect(turns).toEqual([]);
+    // Text after the interruption starts a new reply instead of extending the cut-off one
+    expect(manager.getTranscript().getMessages().map(m => [m.role, m.text])).toEqual([
+      ['model', 'Here is'],
+      ['model', 'Starting over.'],
+    ]);
+
+    manager.disconnect();
+  });
+
+  it('re-sends a clip once after the connection drops mid-upload', async () => {
+    // The clip is four 8000-sample chunks; the first session drops after taking two
+    const transport = new MockLiveTransport({ turns: [], dropAfterChunks: [2] });
+    const { manager, states } = createManager(transport);
+
+    await manager.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const upload = manager.sendAudioBuffer(createClip(2), 'clip.wav');
+    await vi.advanceTimersByTimeAsync(2000);
+    await upload;
+
+    const [first, second] = transport.sessions;
+    expect(transport.sessions).toHaveLength(2);
+    expect(sentChunks(first)).toHaveLength(2);
+    expect(sentPrompts(first)).toHaveLength(0);
+    expect(sentChunks(second)).toHaveLength(4);
+    expect(sentPrompts(second)).toHaveLength(1);
+    expect(states).toContain(ConnectionState.RECONNECTING);
+    expect(manager.getState()).toBe(ConnectionState.CONNECTED);
+
+    manager.disconnect();
+  });
+
+  it('gives up on a clip that fails again after reconnecting', async () => {
+    const transport = new MockLiveTransport({ turns: [], dropAfterChunks: [2, 1] });
+    // Two sessions open, then the network stays down
+    const connect = transport.connect.bind(transport);
+    vi.spyOn(transport, 'connect').mockImplementation(params =>
+      transport.sessions.length < 2 ? connect(params) : Promise.reject(new LiveSessionError(LiveErrorKind.NETWORK, 'Network is down')));
+    const { manager, reconnects } = createManager(transport);
+    const errors: string[] = [];
+    manager.onError = (error) => errors.push(error);
+
+    await manager.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const upload = manager.sendAudioBuffer(createClip(2), 'clip.wav');
+    const failure = expect(upload).rejects.toMatchObject({ kind: LiveErrorKind.SESSION_CLOSED });
+    await vi.advanceTimersByTimeAsync(2000);
+    await failure;
+
+    expect(transport.sessions).toHaveLength(2);
+    expect(sentChunks(transport.sessions[1])).toHaveLength(1);
+    expect(transport.sessions.every(session => sentPrompts(session).length === 0)).toBe(true);
+    expect(manager.getState()).toBe(ConnectionState.ERROR);
+    expect(reconnects[reconnects.length - 1].gaveUp).toBe(true);
+    expect(errors).toEqual(['Network is down']);
+  });
+
+  it('retries failed connects until one succeeds', async () => {
+    const transport = new MockLiveTransport({ turns: [], failConnects: 2 });
+    const { manager, states, reconnects } = createManager(transport);
+
+    await manager.connect();
+    await vi.advanceTimersByTimeAsync(RECONNECT.maxDelayMs * 3);
+
+    expect(transport.connectCount).toBe(3);
+    expect(manager.getState()).toBe(ConnectionState.CONNECTED);
+    expect(reconnects.map(status => status.attempt)).toEqual([1, 2]);
+    expect(states).toEqual([
+      ConnectionState.CONNECTING,
+      ConnectionState.RECONNECTING,
+      ConnectionState.CONNECTED,
+    ]);
+
+    manager.disconnect();
+  });
+
+  it('gives up once the reconnect attempts run out', async () => {
+    const transport = new MockLiveTransport({ turns: [], failConnects: RECONNECT.maxAttempts + 1 });
+    const { manager, reconnects } = createManager(transport);
+    const errors: string[] = [];
+    manager.onError = (error) => errors.push(error);
+
+    await manager.connect();
+    await vi.advanceTimersByTimeAsync(RECONNECT.maxDelayMs * (RECONNECT.maxAttempts + 1));
+
+    expect(transport.connectCount).toBe(RECONNECT.maxAttempts + 1);
+    expect(manager.getState()).toBe(ConnectionState.ERROR);
+    expect(reconnects[reconnects.length - 1].gaveUp).toBe(true);
+    expect(errors).toEqual(['Mock connect failure']);
+  });
+
+  it('reconnects with the resumption handle after an abnormal close', async () => {
+    const transport = new MockLiveTransport({ turns: [] });
+    const connect = vi.spyOn(transport, 'connect');
+    const { manager, states } = createManager(transport);
+
+    await manager.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const first = transport.currentSession!;
+
+    first.simulateClose(1006, 'Abnormal closure');
+    expect(manager.getState()).toBe(ConnectionState.RECONNECTING);
+
+    await vi.advanceTimersByTimeAsync(RECONNECT.maxDelayMs);
+    expect(manager.getState()).toBe(ConnectionState.CONNECTED);
+    expect(transport.currentSession).not.toBe(first);
+    expect(connect.mock.calls[1][0].config.sessionResumption).toEqual({ handle: 'mock-handle-1' });
+    expect(states).toEqual([
+      ConnectionState.CONNECTING,
+      ConnectionState.CONNECTED,
+      ConnectionState.RECONNECTING,
+      ConnectionState.CONNECTED,
+    ]);
+
+    manager.disconnect();
+  });
+
+  it('closes the session and stays down after disconnect', async () => {
+    const transport = new MockLiveTransport({ turns: [] });
+    const { manager } = createManager(transport);
+
+    await manager.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const session = transport.currentSession!;
+
+    manager.disconnect();
+    await vi.advanceTimersByTimeAsync(RECONNECT.maxDelayMs * 2);
+
+    expect(session.closed).toBe(true);
+    expect(manager.getState()).toBe(ConnectionState.DISCONNECTED);
+    expect(transport.connectCount).toBe(1);
+  });
+});
@@ -1,33 +1,280 @@
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { createGeminiAudioBlob, decodePCM, pcmToAudioBuffer, encodePCM, resampleTo16k, downsampleTo16k } from '../utils/audioUtils';
-import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE } from '../types';
+import { LiveServerMessage } from '@google/genai';
+import { createGeminiAudioBlob, decodePCM, pcmToAudioBuffer, floatTo16BitPCM, resampleTo16k, resampleBuffer, downsampleTo16k, int16ToFloat32, normalizePeak, sliceAudioBuffer } from '../utils/audioUtils';
+import { ConnectionState, DEFAULT_CAPTURE_FRAME_SIZE, INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, ReconnectPolicy, ReconnectStatus, SessionConfig, CapturedTurn, TurnMode, VadSettings, PlaybackEvent, PlaybackState, JamSettings, JamRound, JamStatus, InputSettings, ClipSelection, BatchItem, MidiInputSettings, MetronomeSettings, MetronomeBeat, PerformanceMode, HarmonySettings, HarmonyTake } from '../types';
+import { ChatTranscript } from './chatTranscript';
+import { SessionRecorder } from './sessionRecorder';
+import { TurnCapture } from './turnCapture';
+import { PlaybackQueue } from './playbackQueue';
+import { MidiSynth } from './midiSynth';
+import { MidiInputController } from './midiInput';
+import { DEFAULT_METRONOME_SETTINGS, Metronome, describeTempo } from './metronome';
+import { SessionMetrics } from './sessionMetrics';
+import { DEFAULT_UPLOAD_SPEED, UploadPacer, performanceClock } from './uploadPacer';
+import { createCaptureNode, loadCaptureWorklet } from './captureWorklet';
+import { LiveTransport, LiveTransportSession } from './liveTransport';
+import { DEFAULT_SESSION_CONFIG } from './presetStore';
+import { LiveErrorKind, LiveSessionError, classifyCloseEvent, classifyError } from './liveErrors';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('LiveManager');
+
+export interface LiveManagerOptions {
+  // Samples per mic frame sent to Gemini, at INPUT_SAMPLE_RATE (AudioWorklet path only)
+  captureFrameSize?: number;
+  reconnect?: Partial<ReconnectPolicy>;
+  turnMode?: TurnMode;
+  vad?: Partial<VadSettings>;
+  input?: Partial<InputSettings>;
+  midi?: Partial<MidiInputSettings>;
+  metronome?: Partial<MetronomeSettings>;
+  // Multiple of real time that uploaded clips are streamed at
+  uploadSpeed?: number;
+  performanceMode?: PerformanceMode;
+  harmony?: Partial<HarmonySettings>;
+  // Pass one in to keep the chat across sessions
+  transcript?: ChatTranscript;
+}
+
+const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+};
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  thresholdDb: -45,
+  hangoverMs: 800,
+  dropSilentFrames: true,
+};
+
+// Browser voice processing mangles singing and instruments, so only echo
+// cancellation (which keeps the AI out of the mic) is on by default
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+  deviceId: null,
+  echoCancellation: true,
+  noiseSuppression: false,
+  autoGainControl: false,
+  gain: 1,
+  monitor: false,
+};
+
+export const DEFAULT_MIDI_SETTINGS: MidiInputSettings = {
+  enabled: false,
+  portId: null,
+  timbre: 'triangle',
+  volume: 0.8,
+};
+
+export const DEFAULT_HARMONY_SETTINGS: HarmonySettings = {
+  bedLevel: 0.7,
+  harmonyLevel: 1,
+};
+
+const buildAudioConstraints = (settings: InputSettings): MediaTrackConstraints => ({
+  deviceId: settings.deviceId ? { exact: settings.deviceId } : undefined,
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+  autoGainControl: settings.autoGainControl,
+  channelCount: 1,
+});
+
+// Any of these changing needs a new MediaStream
+const needsNewStream = (a: InputSettings, b: InputSettings) =>
+  a.deviceId !== b.deviceId ||
+  a.echoCancellation !== b.echoCancellation ||
+  a.noiseSuppression !== b.noiseSuppression ||
+  a.autoGainControl !== b.autoGainControl;
+
+const pickStreamSettings = ({ deviceId, echoCancellation, noiseSuppression, autoGainControl }: InputSettings) =>
+  ({ deviceId, echoCancellation, noiseSuppression, autoGainControl });
+
+// RMS level of a mic frame
+const frameLevelDb = (samples: Float32Array) => {
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) sumSquares += samples[i] * samples[i];
+  return 10 * Math.log10(sumSquares / Math.max(1, samples.length) + 1e-12);
+};
+
+// A 16kHz mic frame as the Int16 PCM that goes over the wire. Float samples are
+// only made for the paths that read levels or keep audio.
+class MicFrame {
+  private floats: Float32Array | null;
+
+  constructor(public readonly pcm: Int16Array, floats?: Float32Array) {
+    this.floats = floats ?? null;
+  }
+
+  static fromFloat(samples: Float32Array) {
+    return new MicFrame(floatTo16BitPCM(samples), samples);
+  }
+
+  get length() {
+    return this.pcm.length;
+  }
+
+  get samples(): Float32Array {
+    return this.floats ??= int16ToFloat32(this.pcm);
+  }
+}
+
+const COMPLETION_PROMPT = "I have finished playing. Generate a musical continuation now.";
+const HARMONY_PROMPT = "That was one pass of a loop that will keep repeating. Play a harmony or accompaniment over it now, starting from the top of the loop and lasting one pass.";
+
+// Typed instructions attached to a clip ride along with its completion prompt
+const withInstruction = (prompt: string, instruction: string) => `${prompt} Follow these directions from the user: ${instruction}`;
+
+// Added to the preset's instruction in harmony mode
+const HARMONY_INSTRUCTION = "When the user sends a loop, it keeps playing under you. Do not continue it: play a harmony or accompaniment in the same key and tempo, starting on its first beat, that fits over it.";
+
+// Level changes ramp over this long, so dragging a slider doesn't click
+const LEVEL_RAMP_SECONDS = 0.05;
+
+// Mic audio kept while reconnecting, flushed once the new session opens
+const MAX_PENDING_MIC_SECONDS = 10;
+
+// Longest wait for the model to finish answering a batch clip
+const BATCH_TURN_TIMEOUT_MS = 90000;
+
+// Settle time before a tempo change mid-session is passed on to the model
+const TEMPO_CONTEXT_DELAY_MS = 1000;
+
+// Live mic kept for mixing into the next jam round
+const MAX_JAM_MIC_SECONDS = 60;
+
+const STATE_TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
+  [ConnectionState.DISCONNECTED]: [ConnectionState.CONNECTING],
+  [ConnectionState.CONNECTING]: [ConnectionState.CONNECTED, ConnectionState.RECONNECTING, ConnectionState.ERROR, ConnectionState.DISCONNECTED],
+  [ConnectionState.CONNECTED]: [ConnectionState.RECONNECTING, ConnectionState.ERROR, ConnectionState.DISCONNECTED],
+  [ConnectionState.RECONNECTING]: [ConnectionState.CONNECTED, ConnectionState.ERROR, ConnectionState.DISCONNECTED],
+  [ConnectionState.ERROR]: [ConnectionState.CONNECTING, ConnectionState.DISCONNECTED],
+};
+
+interface JamState {
+  settings: JamSettings;
+  round: number;
+  pendingResponse: Float32Array | null; // Captured, waiting for playback to finish
+}
+
+// Harmony mode: the last clip, looped under the model's part
+interface HarmonyBed {
+  name: string;
+  samples: Float32Array; // One pass, OUTPUT_SAMPLE_RATE
+  source: AudioBufferSourceNode | null; // Set once the loop is playing
+  startTime: number; // Output AudioContext time of the first pass
+}
+
+interface ConnectionWaiter {
+  resolve: (session: LiveTransportSession) => void;
+  reject: (error: Error) => void;
+}
 
 export class LiveManager {
-  private ai: GoogleGenAI;
+  private transport: LiveTransport;
+  private config: SessionConfig;
   private inputContext: AudioContext | null = null;
   private outputContext: AudioContext | null = null;
-  private session: any = null; // Session type isn't fully exported yet in some versions, using any for safety
-  private sessionPromise: Promise<any> | null = null;
-  private nextStartTime = 0;
-  private scriptProcessor: ScriptProcessorNode | null = null;
+  private state = ConnectionState.DISCONNECTED;
+  private session: LiveTransportSession | null = null;
+  private sessionGeneration = 0; // Bumped per transport session so stale callbacks are ignored
+  private resumptionHandle: string | null = null;
+  private reconnectPolicy: ReconnectPolicy;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastSessionError: LiveSessionError | null = null;
+  private pendingMicFrames: MicFrame[] = [];
+  private pendingMicSamples = 0;
+  private connectionWaiters: ConnectionWaiter[] = [];
+  private playbackQueue: PlaybackQueue | null = null;
+  private playbackState: PlaybackState = 'idle';
+  private scriptProcessor: ScriptProcessorNode | null = null; // Fallback capture path
+  private captureNode: AudioWorkletNode | null = null;
+  private captureFrameSize: number;
   private inputSource: MediaStreamAudioSourceNode | null = null;
+  private mediaStream: MediaStream | null = null;
+  private inputGain: GainNode | null = null; // Mic level
+  private inputMix: GainNode | null = null; // Mic plus synth; analysis and capture read from here
+  private monitorGain: GainNode | null = null;
+  private inputSettings: InputSettings;
+  private midiSettings: MidiInputSettings;
+  private midiInput: MidiInputController | null = null;
+  private synth: MidiSynth | null = null;
+  private metronome: Metronome | null = null;
+  private metronomeSettings: MetronomeSettings;
+  private uploadSpeed: number;
+  private performanceMode: PerformanceMode;
+  private harmonySettings: HarmonySettings;
+  private harmonyBed: HarmonyBed | null = null;
+  private harmonyTakeCount = 0;
+  private transcript: ChatTranscript;
+  private clipInstruction: string | null = null; // Sent with the next completion prompt
+  private bedGain: GainNode | null = null;
+  private responseGain: GainNode | null = null;
+  private countingIn = false; // Mic held back until the count-in reaches the downbeat
+  private tempoContextTimer: ReturnType<typeof setTimeout> | null = null;
   private inputAnalyser: AnalyserNode | null = null;
   private outputAnalyser: AnalyserNode | null = null;
   private isProcessingFile = false; // Flag to mute mic during upload
   private hasActiveMic = false;
+  private recorder = new SessionRecorder();
+  private metrics = new SessionMetrics();
+  private turnCapture = new TurnCapture();
+  private turnMode: TurnMode;
+  private vadSettings: VadSettings;
+  private activityOpen = false; // Between activityStart and activityEnd (client-driven modes)
+  private vadSilentSamples = 0;
+  private pushToTalkHeld = false;
+  private awaitingResponse = false; // Manual mode: mic held back until the model answers
+  private jam: JamState | null = null;
+  private jamMicFrames: Float32Array[] = [];
+  private jamMicSamples = 0;
+  private batchItems: BatchItem[] = [];
+  private isBatchRunning = false;
+  private turnWaiters: ((turn: CapturedTurn | null) => void)[] = [];
+  private playbackIdleWaiters: (() => void)[] = [];
   
   // Callback for status updates
-  public onStatusChange: (status: string) => void = () => {};
+  public onStatusChange: (status: ConnectionState) => void = () => {};
+  public onReconnectStatus: (status: ReconnectStatus) => void = () => {};
   public onError: (error: string) => void = () => {};
-  public onTextReceived: (text: string) => void = () => {};
+  public onClipInstructionChange: (instruction: string | null) => void = () => {};
+  // Live transcription fragments; `finished` marks the end of a transcription
+  public onInputTranscription: (text: string, finished: boolean) => void = () => {};
+  public onOutputTranscription: (text: string, finished: boolean) => void = () => {};
+  public onTurnComplete: (turn: CapturedTurn) => void = () => {};
+  public onActivityChange: (active: boolean) => void = () => {};
+  public onPlaybackEvent: (event: PlaybackEvent) => void = () => {};
+  public onPlaybackStateChange: (state: PlaybackState) => void = () => {};
+  public onJamRound: (round: JamRound) => void = () => {};
+  public onJamStatusChange: (status: JamStatus) => void = () => {};
+  public onBatchUpdate: (items: BatchItem[]) => void = () => {};
+  public onHarmonyTake: (take: HarmonyTake) => void = () => {};
+  public onHarmonyLoopChange: (playing: boolean) => void = () => {};
+  public onMetronomeBeat: (beat: MetronomeBeat) => void = () => {};
+  public onCountInChange: (active: boolean) => void = () => {};
 
-  constructor(apiKey: string) {
-    this.ai = new GoogleGenAI({ apiKey });
+  constructor(transport: LiveTransport, config: SessionConfig = DEFAULT_SESSION_CONFIG, options: LiveManagerOptions = {}) {
+    this.transport = transport;
+    this.config = config;
+    this.captureFrameSize = options.captureFrameSize ?? DEFAULT_CAPTURE_FRAME_SIZE;
+    this.reconnectPolicy = { ...DEFAULT_RECONNECT_POLICY, ...options.reconnect };
+    this.turnMode = options.turnMode ?? 'auto';
+    this.vadSettings = { ...DEFAULT_VAD_SETTINGS, ...options.vad };
+    this.inputSettings = { ...DEFAULT_INPUT_SETTINGS, ...options.input };
+    this.midiSettings = { ...DEFAULT_MIDI_SETTINGS, ...options.midi };
+    this.metronomeSettings = { ...DEFAULT_METRONOME_SETTINGS, ...options.metronome };
+    this.uploadSpeed = options.uploadSpeed ?? DEFAULT_UPLOAD_SPEED;
+    this.performanceMode = options.performanceMode ?? 'continue';
+    this.harmonySettings = { ...DEFAULT_HARMONY_SETTINGS, ...options.harmony };
+    this.transcript = options.transcript ?? new ChatTranscript();
   }
 
   public async connect() {
     try {
-      this.onStatusChange('CONNECTING');
+      this.setState(ConnectionState.CONNECTING);
+      this.reconnectAttempt = 0;
+      this.resumptionHandle = null;
+      this.lastSessionError = null;
+      this.metrics.record({ type: 'sessionStarted' });
       
       // Initialize Audio Contexts
       this.inputContext = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -38,157 +285,690 @@ export class LiveManager {
         await this.outputContext.resume();
       }
 
-      // Analysers for visualization
+      // Analysers for visualization; 2048 samples is long enough for pitch tracking
       this.inputAnalyser = this.inputContext.createAnalyser();
-      this.inputAnalyser.fftSize = 256;
+      this.inputAnalyser.fftSize = 2048;
       this.outputAnalyser = this.outputContext.createAnalyser();
-      this.outputAnalyser.fftSize = 256;
+      this.outputAnalyser.fftSize = 2048;
+      this.outputAnalyser.connect(this.outputContext.destination);
+
+      // Model audio runs through its own gain so harmony mode can balance it against the loop
+      this.responseGain = this.outputContext.createGain();
+      this.responseGain.gain.value = this.responseLevel();
+      this.responseGain.connect(this.outputAnalyser);
+
+      this.playbackQueue = new PlaybackQueue(this.outputContext, this.responseGain);
+      this.playbackQueue.onEvent = (event) => this.handlePlaybackEvent(event);
+      this.playbackQueue.alignTurnStart = (earliest) => this.alignToHarmonyLoop(earliest);
+
+      // The harmony loop is the user's audio, so like the clicks it skips the AI visualizer
+      this.bedGain = this.outputContext.createGain();
+      this.bedGain.gain.value = this.harmonySettings.bedLevel;
+      this.bedGain.connect(this.outputContext.destination);
+
+      // Clicks go straight to the speakers: not through the visualizer, never into the input graph
+      this.metronome = new Metronome(this.outputContext, this.outputContext.destination, this.metronomeSettings);
+      this.metronome.onBeat = (beat) => this.onMetronomeBeat(beat);
+      this.metronome.onCountInComplete = () => this.setCountingIn(false);
+
+      // mic -> gain -> mix -> analyser / capture, with the synth also feeding the mix.
+      // The monitor path only carries the mic; the synth is always audible.
+      this.inputGain = this.inputContext.createGain();
+      this.inputGain.gain.value = this.inputSettings.gain;
+      this.inputMix = this.inputContext.createGain();
+      this.monitorGain = this.inputContext.createGain();
+      this.monitorGain.gain.value = this.inputSettings.monitor ? 1 : 0;
+      this.inputGain.connect(this.inputMix);
+      this.inputGain.connect(this.monitorGain);
+      this.monitorGain.connect(this.inputContext.destination);
+      this.inputMix.connect(this.inputAnalyser);
 
       // Attempt to Start Microphone Stream (Optional)
       try {
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(this.inputSettings) });
+        this.mediaStream = stream;
         this.inputSource = this.inputContext.createMediaStreamSource(stream);
-        this.inputSource.connect(this.inputAnalyser);
-
-        // Process Audio Input
-        this.scriptProcessor = this.inputContext.createScriptProcessor(4096, 1, 1);
-        
-        this.scriptProcessor.onaudioprocess = (e) => {
-          // Prevent mic input if session is missing, context is missing, OR if we are currently uploading a file
-          if (!this.sessionPromise || !this.inputContext || this.isProcessingFile) return;
-
-          const inputData = e.inputBuffer.getChannelData(0);
-          
-          // Downsample to 16kHz before sending
-          const downsampledData = downsampleTo16k(inputData, this.inputContext.sampleRate);
-          const pcmBlob = createGeminiAudioBlob(downsampledData);
-          
-          this.sessionPromise.then(session => {
-            try {
-              session.sendRealtimeInput({ media: pcmBlob });
-            } catch (err) {
-              console.error("Error sending audio chunk", err);
-            }
-          });
-        };
-
-        this.inputSource.connect(this.scriptProcessor);
-        this.scriptProcessor.connect(this.inputContext.destination);
+        this.inputSource.connect(this.inputGain);
+        await this.startCapture();
         this.hasActiveMic = true;
 
       } catch (micErr) {
-        console.warn("Microphone access denied or unavailable. Continuing in receive-only/file-upload mode.", micErr);
+        log.warn("Microphone access denied or unavailable. Continuing in receive-only/file-upload mode.", micErr);
         this.hasActiveMic = false;
         // Do not fail the whole connection; just skip mic setup
       }
 
-      // Connect to Gemini
-      this.sessionPromise = this.ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        callbacks: {
-          onopen: () => {
-            this.onStatusChange('CONNECTED');
-            console.log('Gemini Live Session Opened');
-          },
-          onmessage: this.handleMessage.bind(this),
-          onclose: () => {
-            this.onStatusChange('DISCONNECTED');
-            console.log('Gemini Live Session Closed');
-          },
-          onerror: (err) => {
-            this.onStatusChange('ERROR');
-            this.onError(err.message || 'Unknown error');
-            console.error('Gemini Live Error:', err);
-          }
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: `You are a world-class musical improviser. 
-          Your goal is to complete the user's musical idea seamlessly.
-          If the user sings, hums, or plays a melody, continue it in the same key, tempo, and style.
-          If the user is silent, wait.
-          DO NOT SPEAK. ONLY GENERATE MUSICAL AUDIO (singing, humming, beatboxing, or whistling).
-          Be creative and expressive.`,
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
+      // MIDI input is optional too; a keyboard player may have no mic at all
+      if (this.midiSettings.enabled) {
+        try {
+          await this.startMidiInput();
+        } catch (midiErr) {
+          log.warn("MIDI input unavailable.", midiErr);
+          this.midiSettings = { ...this.midiSettings, enabled: false };
         }
-      });
+      }
+
+      if (this.metronomeSettings.enabled) this.countIn();
+
+      // Connect to Gemini through the configured transport
+      this.openSession();
       
     } catch (error: any) {
       // Cleanup if connection failed
-      this.disconnect();
+      this.teardown();
+      this.setState(ConnectionState.ERROR);
       this.onError(error.message);
-      this.onStatusChange('ERROR');
       throw error; // Rethrow so caller knows it failed
     }
   }
 
+  private setState(next: ConnectionState) {
+    if (next === this.state) return;
+    if (!STATE_TRANSITIONS[this.state].includes(next)) {
+      log.warn(`Ignoring invalid connection transition ${this.state} -> ${next}`);
+      return;
+    }
+    this.state = next;
+
+    if (next === ConnectionState.ERROR || next === ConnectionState.DISCONNECTED) {
+      const waiters = this.connectionWaiters;
+      this.connectionWaiters = [];
+      const error = this.lastSessionError ?? new LiveSessionError(LiveErrorKind.SESSION_CLOSED, 'Session not active');
+      waiters.forEach(w => w.reject(error));
+    }
+    this.onStatusChange(next);
+  }
+
+  private openSession() {
+    const generation = ++this.sessionGeneration;
+    const isStale = () => generation !== this.sessionGeneration;
+
+    const sessionPromise = this.transport.connect({
+      model: this.config.model,
+      callbacks: {
+        onopen: () => {
+          if (isStale()) return;
+          this.setState(ConnectionState.CONNECTED);
+          log.info('Gemini Live Session Opened');
+          this.onSessionReady();
+        },
+        onmessage: (message) => {
+          if (isStale()) return;
+          this.handleMessage(message);
+        },
+        onclose: (event) => {
+          if (isStale()) return;
+          log.info('Gemini Live Session Closed', event.code, event.reason);
+          // A preceding error event usually explains the close better than the code does
+          this.handleSessionLost(this.lastSessionError ?? classifyCloseEvent(event));
+        },
+        onerror: (err) => {
+          if (isStale()) return;
+          log.error('Gemini Live Error:', err);
+          // Socket errors are always followed by a close, which drives recovery
+          this.lastSessionError = classifyError(err);
+        }
+      },
+      config: {
+        responseModalities: this.config.responseModalities,
+        systemInstruction: this.buildSystemInstruction(),
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: this.config.voiceName } },
+        },
+        // Always opt in so the server sends handles we can resume from
+        sessionResumption: this.resumptionHandle ? { handle: this.resumptionHandle } : {},
+        // Words sung either way are transcribed and kept with the turn as lyrics
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        // Client-driven turn modes mark activity themselves
+        realtimeInputConfig: this.usesClientActivity()
+          ? { automaticActivityDetection: { disabled: true } }
+          : undefined,
+      }
+    });
+
+    sessionPromise.then(session => {
+      if (isStale()) {
+        session.close();
+        return;
+      }
+      this.session = session;
+      this.onSessionReady();
+    }).catch(err => {
+      if (isStale()) return;
+      this.handleSessionLost(classifyError(err));
+    });
+  }
+
+  // The preset's instruction, plus the tempo when the user plays to the metronome
+  // and the harmony brief in harmony mode
+  private buildSystemInstruction() {
+    const parts = [this.config.systemInstruction];
+    if (this.metronomeSettings.enabled) parts.push(describeTempo(this.metronomeSettings));
+    if (this.performanceMode === 'harmony') parts.push(HARMONY_INSTRUCTION);
+    return parts.join('\n\n');
+  }
+
+  // The SDK fires onopen before connect() resolves and the mock does the reverse,
+  // so both paths call this and it acts once both have happened.
+  private onSessionReady() {
+    if (this.state !== ConnectionState.CONNECTED || !this.session) return;
+
+    this.reconnectAttempt = 0;
+    this.lastSessionError = null;
+    this.metrics.record({ type: 'connected' });
+    // A new session starts with no activity open
+    this.setActivityOpen(false);
+    this.awaitingResponse = false;
+    this.flushPendingMicFrames();
+
+    const waiters = this.connectionWaiters;
+    this.connectionWaiters = [];
+    waiters.forEach(w => w.resolve(this.session!));
+  }
+
+  private handleSessionLost(error: LiveSessionError) {
+    if (this.state === ConnectionState.DISCONNECTED || this.state === ConnectionState.ERROR) return;
+
+    this.session = null;
+    this.lastSessionError = error;
+
+    const { maxAttempts } = this.reconnectPolicy;
+    if (!error.retryable || this.reconnectAttempt >= maxAttempts) {
+      log.error(`Giving up on session (${error.kind}):`, error.message);
+      this.onReconnectStatus({
+        attempt: this.reconnectAttempt,
+        maxAttempts,
+        delayMs: 0,
+        gaveUp: true,
+        lastError: error.message,
+      });
+      this.setState(ConnectionState.ERROR);
+      this.onError(error.message);
+      return;
+    }
+
+    this.scheduleReconnect(error);
+  }
+
+  private scheduleReconnect(error: LiveSessionError) {
+    const { maxAttempts, baseDelayMs, maxDelayMs } = this.reconnectPolicy;
+    this.reconnectAttempt++;
+
+    // Exponential backoff with "equal jitter": half fixed, half random
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (this.reconnectAttempt - 1));
+    const delayMs = Math.round(backoff / 2 + Math.random() * (backoff / 2));
+
+    log.warn(`Session lost (${error.kind}). Reconnecting in ${delayMs}ms (attempt ${this.reconnectAttempt}/${maxAttempts})`);
+    this.metrics.record({ type: 'reconnecting', attempt: this.reconnectAttempt, reason: error.kind });
+    this.setState(ConnectionState.RECONNECTING);
+    this.onReconnectStatus({
+      attempt: this.reconnectAttempt,
+      maxAttempts,
+      delayMs,
+      gaveUp: false,
+      lastError: error.message,
+    });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.state !== ConnectionState.RECONNECTING) return;
+      this.openSession();
+    }, delayMs);
+  }
+
+  // Resolves with the open session, waiting out any reconnect in progress
+  private waitForSession(): Promise<LiveTransportSession> {
+    if (this.state === ConnectionState.CONNECTED && this.session) {
+      return Promise.resolve(this.session);
+    }
+    if (this.state === ConnectionState.DISCONNECTED || this.state === ConnectionState.ERROR) {
+      return Promise.reject(new LiveSessionError(LiveErrorKind.SESSION_CLOSED, 'Session not active'));
+    }
+    return new Promise((resolve, reject) => this.connectionWaiters.push({ resolve, reject }));
+  }
+
+  // Starts streaming the input mix once, whichever source needs it first
+  private async startCapture() {
+    if (!this.inputContext || this.captureNode || this.scriptProcessor) return;
+
+    // Process Audio Input, preferring the AudioWorklet pipeline
+    if (await loadCaptureWorklet(this.inputContext)) {
+      this.startWorkletCapture();
+    } else {
+      this.startScriptProcessorCapture();
+    }
+  }
+
+  private startWorkletCapture() {
+    if (!this.inputContext || !this.inputMix) return;
+
+    this.captureNode = createCaptureNode(this.inputContext, {
+      targetRate: INPUT_SAMPLE_RATE,
+      frameSize: this.captureFrameSize,
+    });
+    // Frames arrive already downsampled to 16kHz and converted to Int16
+    this.captureNode.port.onmessage = (e: MessageEvent<ArrayBuffer>) => {
+      this.sendMicFrame(new MicFrame(new Int16Array(e.data)));
+    };
+    this.inputMix.connect(this.captureNode);
+  }
+
+  // Legacy main-thread capture for environments without AudioWorklet
+  private startScriptProcessorCapture() {
+    if (!this.inputContext || !this.inputMix) return;
+
+    this.scriptProcessor = this.inputContext.createScriptProcessor(4096, 1, 1);
+    this.scriptProcessor.onaudioprocess = (e) => {
+      if (!this.inputContext) return;
+      const inputData = e.inputBuffer.getChannelData(0);
+      // Downsample to 16kHz before sending
+      this.sendMicFrame(MicFrame.fromFloat(downsampleTo16k(inputData, this.inputContext.sampleRate)));
+    };
+
+    this.inputMix.connect(this.scriptProcessor);
+    this.scriptProcessor.connect(this.inputContext.destination);
+  }
+
+  // Applies new input settings. Device and processing changes swap the
+  // MediaStream under the running graph, so the session stays connected.
+  public async setInputSettings(settings: Partial<InputSettings>) {
+    const previous = this.inputSettings;
+    const next = { ...previous, ...settings };
+    this.inputSettings = next;
+
+    if (this.inputGain) this.inputGain.gain.value = next.gain;
+    if (this.monitorGain) this.monitorGain.gain.value = next.monitor ? 1 : 0;
+
+    if (!this.hasActiveMic || !needsNewStream(previous, next)) return;
+    try {
+      await this.swapInputStream();
+    } catch (e) {
+      // Keep the working stream and settings
+      this.inputSettings = { ...next, ...pickStreamSettings(previous) };
+      throw e;
+    }
+  }
+
+  private async swapInputStream() {
+    if (!this.inputContext || !this.inputGain) return;
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(this.inputSettings) });
+    if (!this.inputContext || !this.inputGain) {
+      // Torn down while waiting for permission
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const source = this.inputContext.createMediaStreamSource(stream);
+    source.connect(this.inputGain);
+    this.inputSource?.disconnect();
+    this.mediaStream?.getTracks().forEach(track => track.stop());
+    this.inputSource = source;
+    this.mediaStream = stream;
+    log.info("Switched input to", stream.getAudioTracks()[0]?.label || "default device");
+  }
+
+  public setMetronomeSettings(settings: Partial<MetronomeSettings>) {
+    const previous = this.metronomeSettings;
+    const next = { ...previous, ...settings };
+    this.metronomeSettings = next;
+    if (!this.metronome) return; // Applied on connect
+
+    this.metronome.setSettings(next);
+    if (next.enabled && !previous.enabled) {
+      this.metronome.start();
+    } else if (!next.enabled && previous.enabled) {
+      this.metronome.stop();
+      this.setCountingIn(false);
+    }
+
+    if (next.enabled !== previous.enabled || (next.enabled && (
+      next.bpm !== previous.bpm || next.beatsPerBar !== previous.beatsPerBar || next.beatUnit !== previous.beatUnit
+    ))) {
+      this.scheduleTempoContext();
+    }
+  }
+
+  // Restarts the click on a fresh bar and holds the mic back through the count-in
+  public countIn() {
+    if (!this.metronome || !this.metronomeSettings.enabled) return;
+    const bars = this.metronomeSettings.countInBars;
+    this.setCountingIn(bars > 0);
+    this.metronome.start(bars);
+  }
+
+  private setCountingIn(active: boolean) {
+    if (active === this.countingIn) return;
+    this.countingIn = active;
+    this.onCountInChange(active);
+  }
+
+  // The system instruction only applies to new sessions, so tempo changes
+  // mid-session go in as context that doesn't ask for a response
+  private scheduleTempoContext() {
+    if (this.tempoContextTimer) clearTimeout(this.tempoContextTimer);
+    this.tempoContextTimer = setTimeout(() => {
+      this.tempoContextTimer = null;
+      if (this.state !== ConnectionState.CONNECTED || !this.session) return;
+      const text = this.metronomeSettings.enabled
+        ? describeTempo(this.metronomeSettings)
+        : "The user has turned the metronome off; follow the tempo of what they play.";
+      try {
+        this.session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: false });
+      } catch (e) {
+        log.warn("Could not send tempo context", e);
+      }
+    }, TEMPO_CONTEXT_DELAY_MS);
+  }
+
+  // Applies MIDI settings live; enabling asks for MIDI access if needed
+  public async setMidiSettings(settings: Partial<MidiInputSettings>) {
+    const previous = this.midiSettings;
+    const next = { ...previous, ...settings };
+    this.midiSettings = next;
+
+    this.synth?.setTimbre(next.timbre);
+    this.synth?.setVolume(next.volume);
+    if (!this.inputContext) return; // Applied on connect
+
+    if (next.enabled && !this.midiInput) {
+      try {
+        await this.startMidiInput();
+      } catch (e) {
+        this.midiSettings = { ...next, enabled: false };
+        throw e;
+      }
+    } else if (!next.enabled && this.midiInput) {
+      this.stopMidiInput();
+    } else if (this.midiInput && next.portId !== previous.portId) {
+      this.midiInput.setPort(next.portId);
+    }
+  }
+
+  // Keyboard notes play through the synth into the same mix the mic feeds
+  private async startMidiInput() {
+    if (!this.inputContext || !this.inputMix) return;
+
+    const controller = new MidiInputController();
+    await controller.open(this.midiSettings.portId);
+    if (!this.inputContext || !this.inputMix) {
+      // Torn down while waiting for permission
+      controller.close();
+      return;
+    }
+
+    const synth = new MidiSynth(this.inputContext, this.midiSettings.timbre, this.midiSettings.volume);
+    synth.connect(this.inputMix);
+    synth.connect(this.inputContext.destination);
+    controller.onNoteOn = (pitch, velocity) => {
+      // A key press counts as the user gesture some browsers need to start audio
+      if (this.inputContext?.state === 'suspended') this.inputContext.resume();
+      synth.noteOn(pitch, velocity);
+    };
+    controller.onNoteOff = (pitch) => synth.noteOff(pitch);
+    controller.onAllNotesOff = () => synth.allNotesOff();
+
+    this.midiInput = controller;
+    this.synth = synth;
+    await this.startCapture();
+    log.info("MIDI input listening on", controller.getPorts().map(p => p.name).join(', ') || "no devices yet");
+  }
+
+  private stopMidiInput() {
+    this.midiInput?.close();
+    this.synth?.dispose();
+    this.midiInput = null;
+    this.synth = null;
+  }
+
+  private sendMicFrame(frame: MicFrame) {
+    // Prevent mic input if we are currently uploading a file
+    if (this.isProcessingFile) return;
+    // Nothing is captured until the count-in reaches the downbeat
+    if (this.countingIn) return;
+
+    // Jam rounds are driven by the loop; the mic only feeds the next round's mix
+    if (this.jam) {
+      if (this.jam.settings.mixMic) this.collectJamMic(frame.samples);
+      return;
+    }
+
+    if (this.state === ConnectionState.CONNECTED && this.session) {
+      this.processMicFrame(this.session, frame);
+    } else if (this.state === ConnectionState.CONNECTING || this.state === ConnectionState.RECONNECTING) {
+      this.bufferMicFrame(frame);
+    }
+  }
+
+  // Applies the turn mode to a mic frame, sending activity signals as needed
+  private processMicFrame(session: LiveTransportSession, frame: MicFrame) {
+    try {
+      if (this.shouldSendMicFrame(session, frame)) {
+        this.sendMicSamples(session, frame);
+      }
+    } catch (err) {
+      log.error("Error sending activity signal", err);
+    }
+  }
+
+  private shouldSendMicFrame(session: LiveTransportSession, frame: MicFrame): boolean {
+    switch (this.turnMode) {
+      case 'auto':
+        // The server decides when the turn ends; the last voiced frame approximates it for latency
+        if (frameLevelDb(frame.samples) >= this.vadSettings.thresholdDb) this.metrics.noteVoicedInput();
+        return true;
+      case 'pushToTalk':
+        if (!this.pushToTalkHeld) return false;
+        if (!this.activityOpen) this.startActivity(session);
+        return true;
+      case 'manual':
+        if (this.awaitingResponse) return false;
+        if (!this.activityOpen) this.startActivity(session);
+        return true;
+      case 'vad':
+        return this.applyVad(session, frame);
+    }
+  }
+
+  private applyVad(session: LiveTransportSession, frame: MicFrame): boolean {
+    if (frameLevelDb(frame.samples) >= this.vadSettings.thresholdDb) {
+      this.vadSilentSamples = 0;
+      if (!this.activityOpen) this.startActivity(session);
+      return true;
+    }
+    if (this.activityOpen) {
+      // Keep sending through short pauses; end the turn once the hangover runs out
+      this.vadSilentSamples += frame.length;
+      if ((this.vadSilentSamples / INPUT_SAMPLE_RATE) * 1000 < this.vadSettings.hangoverMs) return true;
+      this.sendMicSamples(session, frame);
+      this.endActivity(session);
+      return false;
+    }
+    return !this.vadSettings.dropSilentFrames;
+  }
+
+  private usesClientActivity() {
+    return this.turnMode !== 'auto';
+  }
+
+  private setActivityOpen(open: boolean) {
+    if (open === this.activityOpen) return;
+    this.activityOpen = open;
+    this.onActivityChange(open);
+  }
+
+  private startActivity(session: LiveTransportSession) {
+    session.sendRealtimeInput({ activityStart: {} });
+    this.vadSilentSamples = 0;
+    this.setActivityOpen(true);
+  }
+
+  private endActivity(session: LiveTransportSession) {
+    session.sendRealtimeInput({ activityEnd: {} });
+    this.metrics.record({ type: 'inputEnded', source: 'activity' });
+    this.setActivityOpen(false);
+    this.setPlaybackState('waiting');
+  }
+
+  private handlePlaybackEvent(event: PlaybackEvent) {
+    if (event.type === 'turnStarted') this.setPlaybackState('playing');
+    if (event.type === 'turnFinished') this.setPlaybackState('idle');
+    if (event.type === 'underrun') this.metrics.record({ type: 'underrun', gapSeconds: event.gapSeconds });
+    this.onPlaybackEvent(event);
+    if (event.type === 'turnFinished') {
+      this.resolvePlaybackIdle();
+      this.maybeAdvanceJam();
+    }
+  }
+
+  private setPlaybackState(state: PlaybackState) {
+    if (state === this.playbackState) return;
+    this.playbackState = state;
+    this.onPlaybackStateChange(state);
+  }
+
+  private sendMicSamples(session: LiveTransportSession, frame: MicFrame) {
+    try {
+      session.sendRealtimeInput({ media: createGeminiAudioBlob(frame.pcm) });
+      this.metrics.record({ type: 'audioSent', bytes: frame.pcm.byteLength });
+      this.recorder.recordInput(frame.samples);
+      this.turnCapture.addInput(frame.samples);
+    } catch (err) {
+      log.error("Error sending audio chunk", err);
+    }
+  }
+
+  private bufferMicFrame(frame: MicFrame) {
+    this.pendingMicFrames.push(frame);
+    this.pendingMicSamples += frame.length;
+    // Drop the oldest audio once the buffer is full
+    while (this.pendingMicSamples > MAX_PENDING_MIC_SECONDS * INPUT_SAMPLE_RATE) {
+      this.pendingMicSamples -= this.pendingMicFrames.shift()!.length;
+    }
+  }
+
+  private flushPendingMicFrames() {
+    if (!this.session) return;
+    const frames = this.pendingMicFrames;
+    this.pendingMicFrames = [];
+    this.pendingMicSamples = 0;
+    if (frames.length > 0) {
+      log.debug(`Flushing ${frames.length} buffered mic frames`);
+    }
+    for (const frame of frames) {
+      this.processMicFrame(this.session, frame);
+    }
+  }
+
   private async handleMessage(message: LiveServerMessage) {
-    if (!this.outputContext) return;
+    if (!this.outputContext || !this.playbackQueue) return;
+
+    const resumption = message.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) {
+      this.resumptionHandle = resumption.newHandle;
+    }
 
     // Handle Text and Audio from Model Turn
     const parts = message.serverContent?.modelTurn?.parts || [];
     
     for (const part of parts) {
-      // 1. Handle Text Response (logging it for debugging)
+      // 1. Handle Text Response; thought summaries are logged but kept out of the chat
       if (part.text) {
-        console.log("AI Text Response:", part.text);
-        this.onTextReceived(part.text);
+        log.info("AI Text Response:", part.text);
+        this.turnCapture.addText(part.text);
+        if (!part.thought) this.transcript.appendModel(part.text);
       }
 
       // 2. Handle Audio Response
       if (part.inlineData?.data) {
         const base64Audio = part.inlineData.data;
-        // console.log(`Received audio chunk: ${base64Audio.length} bytes`);
-        
-        // Ensure time is monotonic
-        this.nextStartTime = Math.max(this.nextStartTime, this.outputContext.currentTime);
         
         try {
-          const audioBuffer = await pcmToAudioBuffer(
-              decodePCM(base64Audio),
-              this.outputContext,
-              OUTPUT_SAMPLE_RATE
-          );
-          
-          const source = this.outputContext.createBufferSource();
-          source.buffer = audioBuffer;
-          
-          // Connect to analyser and destination
-          if (this.outputAnalyser) {
-              source.connect(this.outputAnalyser);
-              this.outputAnalyser.connect(this.outputContext.destination);
-          } else {
-              source.connect(this.outputContext.destination);
-          }
+          const pcm = decodePCM(base64Audio);
+          const audioBuffer = await pcmToAudioBuffer(pcm, this.outputContext, OUTPUT_SAMPLE_RATE);
+          // Torn down while decoding
+          if (!this.outputContext || !this.playbackQueue) return;
+          this.metrics.record({ type: 'audioReceived', bytes: pcm.byteLength, duration: audioBuffer.duration });
 
-          source.start(this.nextStartTime);
-          this.nextStartTime += audioBuffer.duration;
+          const startTime = this.playbackQueue.enqueue(audioBuffer);
+          const samples = audioBuffer.getChannelData(0).slice();
+          this.recorder.recordOutput(samples, startTime - this.outputContext.currentTime);
+          this.turnCapture.addOutput(samples);
           
         } catch (e) {
-          console.error("Error decoding audio response", e);
+          log.error("Error decoding audio response", e);
         }
       }
     }
 
+    // Transcriptions of both sides arrive separately from the model turn
+    const inputTranscription = message.serverContent?.inputTranscription;
+    if (inputTranscription?.text) {
+      this.turnCapture.addInputTranscription(inputTranscription.text);
+      this.onInputTranscription(inputTranscription.text, !!inputTranscription.finished);
+    }
+    const outputTranscription = message.serverContent?.outputTranscription;
+    if (outputTranscription?.text) {
+      this.turnCapture.addOutputTranscription(outputTranscription.text);
+      this.onOutputTranscription(outputTranscription.text, !!outputTranscription.finished);
+    }
+
     // Handle interruptions
     if (message.serverContent?.interrupted) {
-      console.log("Audio interrupted");
-      this.nextStartTime = 0;
+      log.info("Audio interrupted");
+      this.metrics.record({ type: 'interrupted' });
+      this.playbackQueue?.interrupt();
+      this.turnCapture.discardOutput();
+      this.transcript.endReply();
     }
     
     if (message.serverContent?.turnComplete) {
-      console.log("Turn complete");
+      log.info("Turn complete");
+      this.metrics.record({ type: 'turnComplete' });
+      this.awaitingResponse = false;
+      this.playbackQueue?.markTurnComplete();
+      // A reply with no audio never starts playing, so no turnFinished will settle it
+      if (!this.playbackQueue?.isPlaying()) this.setPlaybackState('idle');
+      this.transcript.endReply();
+      // Defer the analysis so it doesn't hold up this message handler
+      setTimeout(() => {
+        const turn = this.turnCapture.finishTurn();
+        if (turn) this.onTurnComplete(turn);
+        if (turn) this.emitHarmonyTake(turn);
+        this.resolveTurnWaiters(turn);
+        if (this.jam) this.handleJamTurn(turn);
+      }, 0);
+    }
+  }
+
+  public async sendAudioFile(file: File, selection?: ClipSelection) {
+    if (this.state === ConnectionState.DISCONNECTED || this.state === ConnectionState.ERROR) {
+        throw new LiveSessionError(LiveErrorKind.SESSION_CLOSED, "Session not active");
+    }
+
+    // We use inputContext to decode if available to share resources, otherwise new context
+    const decodeCtx = this.inputContext || new (window.AudioContext || (window as any).webkitAudioContext)();
+    let decodedBuffer: AudioBuffer;
+    try {
+        log.debug("Decoding audio file...");
+        decodedBuffer = await decodeCtx.decodeAudioData(await file.arrayBuffer());
+    } catch (e: any) {
+        log.error("Error decoding audio file:", e);
+        throw new Error("Failed to decode audio file: " + e.message);
     }
+
+    await this.sendAudioBuffer(decodedBuffer, file.name, selection);
   }
 
-  public async sendAudioFile(file: File) {
-    if (!this.sessionPromise) {
-        throw new Error("Session not active");
+  // Sends decoded audio, or just the selected region of it, as one prompt
+  public async sendAudioBuffer(buffer: AudioBuffer, name: string, selection?: ClipSelection) {
+    if (this.state === ConnectionState.DISCONNECTED || this.state === ConnectionState.ERROR) {
+        throw new LiveSessionError(LiveErrorKind.SESSION_CLOSED, "Session not active");
     }
 
-    console.log("Starting file upload:", file.name);
+    log.info("Starting file upload:", name);
+    this.stopJam(); // An upload takes over from the loop
     this.isProcessingFile = true; // Stop mic input if active
     
     if (this.outputContext && this.outputContext.state === 'suspended') {
@@ -198,147 +978,600 @@ export class LiveManager {
       await this.inputContext.resume();
     }
 
-    // Decode audio first
-    // We use inputContext to decode if available to share resources, otherwise new context
-    const decodeCtx = this.inputContext || new (window.AudioContext || (window as any).webkitAudioContext)();
     let resampledData: Float32Array;
 
     try {
-        console.log("Decoding audio file...");
-        const arrayBuffer = await file.arrayBuffer();
-        const decodedBuffer = await decodeCtx.decodeAudioData(arrayBuffer);
-        
-        console.log("Normalizing and resampling to 16kHz...");
-        resampledData = await resampleTo16k(decodedBuffer);
+        const region = selection ? sliceAudioBuffer(buffer, selection.start, selection.end) : buffer;
+
+        log.debug(`Resampling ${region.duration.toFixed(1)}s to 16kHz...`);
+        resampledData = await resampleTo16k(region);
         
-        // Normalize volume (Simple Peak Normalization)
-        let maxVal = 0;
-        for (let i = 0; i < resampledData.length; i++) {
-            if (Math.abs(resampledData[i]) > maxVal) maxVal = Math.abs(resampledData[i]);
+        if (selection?.normalize ?? true) {
+            // Normalize volume (Simple Peak Normalization), leaving a little headroom
+            const scale = normalizePeak(resampledData);
+            log.debug(`Normalizing audio gain by factor of ${scale.toFixed(2)}`);
         }
-        if (maxVal > 0) {
-            const scale = 0.95 / maxVal; // Leave a little headroom
-            console.log(`Normalizing audio gain by factor of ${scale.toFixed(2)}`);
-            for (let i = 0; i < resampledData.length; i++) {
-                resampledData[i] *= scale;
-            }
+
+        this.turnCapture.replaceInput(resampledData, name);
+
+        // In harmony mode the clip becomes the loop; it starts with the model's reply
+        this.stopHarmonyLoop();
+        if (this.performanceMode === 'harmony') {
+            const bed = await resampleBuffer(region, OUTPUT_SAMPLE_RATE);
+            if (selection?.normalize ?? true) normalizePeak(bed);
+            this.harmonyBed = { name, samples: bed, source: null, startTime: 0 };
         }
 
     } catch (e: any) {
-        console.error("Error decoding audio file:", e);
+        log.error("Error preparing audio clip:", e);
         this.isProcessingFile = false;
-        throw new Error("Failed to decode audio file: " + e.message);
+        throw new Error("Failed to prepare audio clip: " + e.message);
     }
 
-    // Try to stream the data, with one retry attempt
     try {
-        await this.streamAudioData(resampledData);
-    } catch (e: any) {
-        console.error("Stream failed:", e);
-        
-        // Retry logic for connection issues
-        if (e.message?.includes('unavailable') || e.message?.includes('timeout') || e.message?.includes('closed') || e.message?.includes('Session not active')) {
-            console.log("Connection issue detected. Attempting to reconnect and retry upload...");
-            this.disconnect();
-            await this.connect();
-            // Retry once
-            await this.streamAudioData(resampledData);
-        } else {
-            throw e;
-        }
+        await this.streamWithRetry(resampledData, name);
     } finally {
         this.isProcessingFile = false; // Resume mic input
     }
   }
 
-  private async streamAudioData(data: Float32Array) {
-      if (!this.sessionPromise) throw new Error("Session not active");
-      const session = await this.sessionPromise;
+  // Streams a prompt, retrying once after the session recovers
+  private async streamWithRetry(data: Float32Array, name: string) {
+    try {
+        await this.streamAudioData(data, name);
+    } catch (e: any) {
+        const error = classifyError(e);
+        log.error(`Stream failed (${error.kind}):`, error);
+        if (!error.retryable) throw error;
 
-      console.log(`Streaming ${data.length} samples...`);
+        log.info("Connection issue detected. Waiting for reconnect to retry upload...");
+        await this.streamAudioData(data, name);
+    }
+  }
 
-      // 8192 samples @ 16kHz = ~0.512 seconds
-      // Sending every 50ms = ~10x speed.
-      const CHUNK_SIZE = 8192; 
-      
-      // VISUALIZATION SETUP
-      // We want to visualize this data as it goes out.
-      // We can use the inputContext and inputAnalyser
-      if (this.inputContext && this.inputAnalyser) {
-          // Create a buffer for the whole file to play into the analyser (muted at destination)
-          // This is purely for visual feedback
+  // Batch mode: clips are sent one per turn, each waiting for the previous
+  // continuation to complete and finish playing
+  public enqueueBatch(files: File[]) {
+    const items: BatchItem[] = files.map(file => ({ id: crypto.randomUUID(), file, status: 'queued' }));
+    this.batchItems = [...this.batchItems, ...items];
+    this.emitBatchUpdate();
+    if (!this.isBatchRunning) this.processBatch();
+  }
+
+  // Drops clips that haven't started; the one in flight still completes
+  public cancelBatch() {
+    this.batchItems = this.batchItems.filter(item => item.status !== 'queued');
+    this.emitBatchUpdate();
+  }
+
+  public clearBatch() {
+    if (this.isBatchRunning) return;
+    this.batchItems = [];
+    this.emitBatchUpdate();
+  }
+
+  public isBatchActive() {
+    return this.isBatchRunning;
+  }
+
+  private async processBatch() {
+    this.isBatchRunning = true;
+    try {
+      let item: BatchItem | undefined;
+      while ((item = this.batchItems.find(i => i.status === 'queued'))) {
+        if (this.state === ConnectionState.DISCONNECTED || this.state === ConnectionState.ERROR) break;
+        await this.processBatchItem(item);
+        await this.waitForPlaybackIdle();
+      }
+    } finally {
+      this.isBatchRunning = false;
+      this.emitBatchUpdate();
+    }
+  }
+
+  private async processBatchItem(item: BatchItem) {
+    this.updateBatchItem(item.id, { status: 'sending' });
+    try {
+      await this.sendAudioFile(item.file);
+      this.updateBatchItem(item.id, { status: 'waiting', sentAt: Date.now() });
+
+      const turn = await this.waitForTurn(BATCH_TURN_TIMEOUT_MS);
+      if (!turn) throw new Error("No continuation received");
+      this.updateBatchItem(item.id, { status: 'done', turn });
+    } catch (e: any) {
+      log.error(`Batch clip ${item.file.name} failed`, e);
+      this.updateBatchItem(item.id, { status: 'failed', error: e.message });
+    }
+  }
+
+  private updateBatchItem(id: string, patch: Partial<BatchItem>) {
+    this.batchItems = this.batchItems.map(item => (item.id === id ? { ...item, ...patch } : item));
+    this.emitBatchUpdate();
+  }
+
+  private emitBatchUpdate() {
+    this.onBatchUpdate(this.batchItems);
+  }
+
+  // Resolves with the next finished turn, or null on timeout or teardown
+  private waitForTurn(timeoutMs: number): Promise<CapturedTurn | null> {
+    return new Promise(resolve => {
+      const waiter = (turn: CapturedTurn | null) => {
+        clearTimeout(timer);
+        resolve(turn);
+      };
+      const timer = setTimeout(() => {
+        this.turnWaiters = this.turnWaiters.filter(w => w !== waiter);
+        resolve(null);
+      }, timeoutMs);
+      this.turnWaiters.push(waiter);
+    });
+  }
+
+  private resolveTurnWaiters(turn: CapturedTurn | null) {
+    const waiters = this.turnWaiters;
+    this.turnWaiters = [];
+    waiters.forEach(w => w(turn));
+  }
+
+  private waitForPlaybackIdle(): Promise<void> {
+    if (this.playbackState !== 'playing') return Promise.resolve();
+    return new Promise(resolve => this.playbackIdleWaiters.push(resolve));
+  }
+
+  private resolvePlaybackIdle() {
+    const waiters = this.playbackIdleWaiters;
+    this.playbackIdleWaiters = [];
+    waiters.forEach(w => w());
+  }
+
+  // Jam loop: each continuation becomes the next prompt, starting from `seed`,
+  // a continuation at OUTPUT_SAMPLE_RATE. `startRound` lets a jam branch off
+  // from an earlier round.
+  public async startJam(seed: Float32Array, settings: JamSettings, startRound = 0) {
+    if (this.state === ConnectionState.DISCONNECTED || this.state === ConnectionState.ERROR) {
+        throw new LiveSessionError(LiveErrorKind.SESSION_CLOSED, "Session not active");
+    }
+    this.stopHarmonyLoop(); // Jam rounds are continuations
+    this.jam = { settings, round: startRound, pendingResponse: null };
+    this.jamMicFrames = [];
+    this.jamMicSamples = 0;
+    await this.playJamRound(await this.buildJamPrompt(seed));
+  }
+
+  // The round in flight still completes, but isn't fed back
+  public stopJam() {
+    if (!this.jam) return;
+    const { round, settings } = this.jam;
+    this.jam = null;
+    this.jamMicFrames = [];
+    this.jamMicSamples = 0;
+    this.onJamStatusChange({ active: false, round, totalRounds: settings.rounds });
+  }
+
+  public isJamming() {
+    return this.jam !== null;
+  }
+
+  private async playJamRound(prompt: Float32Array) {
+    const jam = this.jam;
+    if (!jam) return;
+    jam.round++;
+    this.onJamStatusChange({ active: true, round: jam.round, totalRounds: jam.settings.rounds });
+    log.info(`Jam round ${jam.round}: sending ${(prompt.length / INPUT_SAMPLE_RATE).toFixed(1)}s`);
+
+    this.isProcessingFile = true;
+    this.turnCapture.replaceInput(prompt, `Jam round ${jam.round}`);
+    try {
+        await this.streamWithRetry(prompt, `Jam round ${jam.round}`);
+    } catch (e: any) {
+        log.error("Jam round failed", e);
+        this.stopJam();
+        this.onError(`Jam stopped: ${e.message}`);
+    } finally {
+        this.isProcessingFile = false;
+    }
+  }
+
+  private handleJamTurn(turn: CapturedTurn | null) {
+    const jam = this.jam;
+    if (!jam) return;
+    if (!turn) {
+        this.stopJam();
+        this.onError("Jam stopped: the model returned no audio");
+        return;
+    }
+
+    this.onJamRound({ index: jam.round, prompt: turn.input, response: turn.output, completedAt: turn.completedAt });
+    if (jam.settings.rounds > 0 && jam.round >= jam.settings.rounds) {
+        this.stopJam();
+        return;
+    }
+    jam.pendingResponse = turn.output;
+    this.maybeAdvanceJam();
+  }
+
+  // Starts the next round once the captured response has finished playing
+  private maybeAdvanceJam() {
+    const jam = this.jam;
+    if (!jam || !jam.pendingResponse || this.playbackState === 'playing') return;
+
+    const response = jam.pendingResponse;
+    jam.pendingResponse = null;
+    this.buildJamPrompt(response)
+      .then(prompt => {
+        if (this.jam === jam) return this.playJamRound(prompt);
+      })
+      .catch(e => {
+        log.error("Failed to prepare jam round", e);
+        this.stopJam();
+        this.onError(`Jam stopped: ${e.message}`);
+      });
+  }
+
+  private async buildJamPrompt(response: Float32Array): Promise<Float32Array> {
+    if (!this.outputContext) throw new LiveSessionError(LiveErrorKind.SESSION_CLOSED, "Session not active");
+
+    const buffer = this.outputContext.createBuffer(1, response.length, OUTPUT_SAMPLE_RATE);
+    buffer.copyToChannel(response, 0);
+    const prompt = await resampleTo16k(buffer);
+
+    // The most recent mic audio lines up with the response as it was heard
+    const mic = this.takeJamMic();
+    const level = this.jam?.settings.micLevel ?? 0;
+    if (mic.length > 0 && level > 0) {
+        const offset = Math.max(0, mic.length - prompt.length);
+        for (let i = 0; i < prompt.length && offset + i < mic.length; i++) {
+            prompt[i] += mic[offset + i] * level;
+        }
+    }
+    normalizePeak(prompt);
+    return prompt;
+  }
+
+  private collectJamMic(samples: Float32Array) {
+    this.jamMicFrames.push(samples);
+    this.jamMicSamples += samples.length;
+    while (this.jamMicSamples > MAX_JAM_MIC_SECONDS * INPUT_SAMPLE_RATE) {
+      this.jamMicSamples -= this.jamMicFrames.shift()!.length;
+    }
+  }
+
+  private takeJamMic(): Float32Array {
+    const mic = new Float32Array(this.jamMicSamples);
+    let offset = 0;
+    for (const frame of this.jamMicFrames) {
+      mic.set(frame, offset);
+      offset += frame.length;
+    }
+    this.jamMicFrames = [];
+    this.jamMicSamples = 0;
+    return mic;
+  }
+
+  private async streamAudioData(data: Float32Array, name: string) {
+      const session = await this.waitForSession();
+
+      // Pace on the input context's clock when it's running, so the visualization
+      // below plays on the same timeline as the upload
+      const context = this.inputContext;
+      const clock = context && context.state === 'running' ? () => context.currentTime : performanceClock;
+      const pacer = new UploadPacer(clock, INPUT_SAMPLE_RATE, this.uploadSpeed);
+      const chunkSize = pacer.chunkSize;
+
+      log.debug(`Streaming ${data.length} samples at ${this.uploadSpeed}x in ${chunkSize}-sample chunks...`);
+
+      // In client-driven turn modes the clip is its own activity, unless one is already open
+      if (this.usesClientActivity() && !this.activityOpen) {
+          this.startActivity(session);
+      }
+
+      const startTime = pacer.start();
+
+      // VISUALIZATION: play the clip into the analyser (never the destination, or
+      // the user hears it) at the upload speed, starting when the upload does
+      if (context && this.inputAnalyser && clock !== performanceClock) {
           try {
-             const vizBuffer = this.inputContext.createBuffer(1, data.length, 16000);
+             const vizBuffer = context.createBuffer(1, data.length, INPUT_SAMPLE_RATE);
              vizBuffer.copyToChannel(data, 0);
-             const vizSource = this.inputContext.createBufferSource();
+             const vizSource = context.createBufferSource();
              vizSource.buffer = vizBuffer;
              vizSource.connect(this.inputAnalyser);
-             // Do NOT connect to destination, or user hears it twice/echo
-             // Start it now, it will play at 1x speed visually, while we upload at 10x speed.
-             // This mismatch is acceptable, or we can playback faster.
-             vizSource.playbackRate.value = 5.0; // Match upload speed roughly
-             vizSource.start();
-          } catch(e) { console.warn("Viz error", e)}
+             vizSource.playbackRate.value = pacer.getSpeed();
+             vizSource.start(startTime);
+          } catch(e) { log.warn("Viz error", e)}
       }
 
-      for (let i = 0; i < data.length; i += CHUNK_SIZE) {
-          const chunk = data.slice(i, i + CHUNK_SIZE);
+      for (let i = 0; i < data.length; i += chunkSize) {
+          // Each chunk is due when its first sample would be reached at the upload speed
+          await pacer.waitFor(i);
+
+          // A closed socket can swallow sends silently, so check the session is still ours
+          if (session !== this.session) {
+             throw new LiveSessionError(LiveErrorKind.SESSION_CLOSED, "Session lost during upload");
+          }
+          const chunk = data.slice(i, i + chunkSize);
           const pcmBlob = createGeminiAudioBlob(chunk);
           
           try {
             session.sendRealtimeInput({ media: pcmBlob });
+            this.metrics.record({ type: 'audioSent', bytes: chunk.length * 2 });
+            this.recorder.recordInput(chunk);
+            this.turnCapture.markInputSent(chunk.length);
           } catch(e) {
-             throw new Error("Failed to send chunk: " + e);
+             const error = classifyError(e);
+             // Don't wait for the close event to start recovering
+             if (error.retryable && session === this.session) this.handleSessionLost(error);
+             throw error;
           }
-          
-          await new Promise(r => setTimeout(r, 50));
       }
 
-      console.log("File audio sent. Sending completion prompt...");
+      // Let the last chunk's worth of time pass before ending the input
+      await pacer.waitFor(data.length);
+
+      log.debug("File audio sent. Sending completion prompt...");
       // Explicitly ask for response
-      session.sendRealtimeInput({ 
-          content: { parts: [{ text: "I have finished playing. Generate a musical continuation now." }] } 
-      });
-      console.log("Upload sequence complete.");
+      this.sendCompletionPrompt(session, name);
+      log.debug("Upload sequence complete.");
+  }
+
+  // The prompt goes inside any open activity, which it then closes.
+  // `label` names the clip or phrase in the chat if instructions go with it.
+  private sendCompletionPrompt(session: LiveTransportSession, label: string) {
+      const prompt = this.harmonyBed ? HARMONY_PROMPT : COMPLETION_PROMPT;
+      const instruction = this.clipInstruction;
+      session.sendRealtimeInput({ text: instruction ? withInstruction(prompt, instruction) : prompt });
+      if (instruction) {
+        this.transcript.addUser(instruction, label);
+        this.setClipInstruction(null);
+      }
+      this.metrics.record({ type: 'inputEnded', source: 'prompt' });
+      if (this.activityOpen) this.endActivity(session);
+      this.setPlaybackState('waiting');
+      if (this.turnMode === 'manual') this.awaitingResponse = true;
+  }
+
+  // Push-to-talk: the key or button went down or up
+  public setPushToTalk(held: boolean) {
+    if (this.turnMode !== 'pushToTalk' || held === this.pushToTalkHeld) return;
+    this.pushToTalkHeld = held;
+    if (this.state !== ConnectionState.CONNECTED || !this.session || this.isProcessingFile) return;
+
+    try {
+      if (held && !this.activityOpen) this.startActivity(this.session);
+      if (!held && this.activityOpen) this.endActivity(this.session);
+    } catch (err) {
+      log.error("Error sending activity signal", err);
+    }
+  }
+
+  // Explicit end of the user's turn ("Your turn" button)
+  public endUserTurn() {
+    if (this.state !== ConnectionState.CONNECTED || !this.session) {
+      throw new LiveSessionError(LiveErrorKind.SESSION_CLOSED, "Session not active");
+    }
+    this.sendCompletionPrompt(this.session, 'your phrase');
+  }
+
+  // Sends typed instructions as a turn of their own, outside any clip
+  public async sendTextPrompt(text: string) {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    if (this.isProcessingFile) {
+      throw new Error("A clip is uploading. Attach the instructions to the next clip instead.");
+    }
+
+    const session = await this.waitForSession();
+    try {
+      if (this.activityOpen) {
+        // A phrase in progress ends with the text, like the completion prompt
+        session.sendRealtimeInput({ text: trimmed });
+        this.endActivity(session);
+      } else {
+        session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: trimmed }] }], turnComplete: true });
+        this.metrics.record({ type: 'inputEnded', source: 'text' });
+        this.setPlaybackState('waiting');
+      }
+    } catch (e) {
+      throw classifyError(e);
+    }
+    this.transcript.addUser(trimmed);
+    if (this.turnMode === 'manual') this.awaitingResponse = true;
+  }
+
+  // Holds typed instructions for the next clip or ended phrase; null clears them
+  public setClipInstruction(text: string | null) {
+    const instruction = text?.trim() || null;
+    if (instruction === this.clipInstruction) return;
+    this.clipInstruction = instruction;
+    this.onClipInstructionChange(instruction);
+  }
+
+  public setVadSettings(settings: Partial<VadSettings>) {
+    this.vadSettings = { ...this.vadSettings, ...settings };
   }
 
   public disconnect() {
+    this.stopJam();
+    this.cancelBatch();
+    this.teardown();
+    this.setState(ConnectionState.DISCONNECTED);
+  }
+
+  // Releases the session and audio graph without touching connection state
+  private teardown() {
     this.isProcessingFile = false;
     this.hasActiveMic = false;
-    
-    if (this.sessionPromise) {
-        this.sessionPromise.then(s => {
-            if (s && s.close) s.close();
-        }).catch(() => {});
+
+    // Invalidate callbacks from the current session before closing it
+    this.sessionGeneration++;
+    if (this.reconnectTimer) {
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+    }
+    if (this.session) {
+        try { this.session.close(); } catch (e) { /* already closed */ }
     }
     
     if (this.scriptProcessor) {
         this.scriptProcessor.disconnect();
         this.scriptProcessor.onaudioprocess = null;
     }
+
+    if (this.captureNode) {
+        this.captureNode.port.onmessage = null;
+        this.captureNode.disconnect();
+    }
     
     if (this.inputSource) {
         this.inputSource.disconnect();
     }
 
+    this.stopMidiInput();
+    this.stopHarmonyLoop();
+    this.metronome?.dispose();
+    if (this.tempoContextTimer) {
+        clearTimeout(this.tempoContextTimer);
+        this.tempoContextTimer = null;
+    }
+
+    // Release the mic so the browser's recording indicator goes away
+    this.mediaStream?.getTracks().forEach(track => track.stop());
+
     if (this.inputContext && this.inputContext.state !== 'closed') {
         this.inputContext.close();
     }
     
+    if (this.playbackQueue) {
+        this.playbackQueue.onEvent = () => {};
+        this.playbackQueue.dispose();
+    }
+
     if (this.outputContext && this.outputContext.state !== 'closed') {
         this.outputContext.close();
     }
 
-    this.sessionPromise = null;
+    this.session = null;
+    this.pendingMicFrames = [];
+    this.pendingMicSamples = 0;
     this.inputContext = null;
     this.outputContext = null;
     this.scriptProcessor = null;
+    this.captureNode = null;
     this.inputSource = null;
-    this.nextStartTime = 0;
-    this.onStatusChange('DISCONNECTED');
+    this.mediaStream = null;
+    this.inputGain = null;
+    this.inputMix = null;
+    this.monitorGain = null;
+    this.playbackQueue = null;
+    this.bedGain = null;
+    this.responseGain = null;
+    this.metronome = null;
+    this.setCountingIn(false);
+    this.setPlaybackState('idle');
+    this.setActivityOpen(false);
+    this.pushToTalkHeld = false;
+    this.awaitingResponse = false;
+    this.resolveTurnWaiters(null);
+    this.resolvePlaybackIdle();
+  }
+
+  // Harmony mode applies from the next clip; switching back to continue stops the loop
+  public setPerformanceMode(mode: PerformanceMode) {
+    if (mode === this.performanceMode) return;
+    this.performanceMode = mode;
+    if (mode === 'continue') this.stopHarmonyLoop();
+    this.rampLevel(this.responseGain, this.responseLevel());
+  }
+
+  public setHarmonySettings(settings: Partial<HarmonySettings>) {
+    this.harmonySettings = { ...this.harmonySettings, ...settings };
+    this.rampLevel(this.bedGain, this.harmonySettings.bedLevel);
+    this.rampLevel(this.responseGain, this.responseLevel());
+  }
+
+  public stopHarmonyLoop() {
+    const bed = this.harmonyBed;
+    if (!bed) return;
+    this.harmonyBed = null;
+    if (!bed.source) return;
+    try { bed.source.stop(); } catch (e) { /* already stopped */ }
+    bed.source.disconnect();
+    this.onHarmonyLoopChange(false);
+  }
+
+  private responseLevel() {
+    return this.performanceMode === 'harmony' ? this.harmonySettings.harmonyLevel : 1;
+  }
+
+  private rampLevel(gain: GainNode | null, level: number) {
+    if (!gain) return;
+    gain.gain.setTargetAtTime(level, gain.context.currentTime, LEVEL_RAMP_SECONDS / 3);
+  }
+
+  // Model turns over a loop start on a loop boundary. The first reply to a new
+  // clip starts the loop itself, so both begin together.
+  private alignToHarmonyLoop(earliest: number): number {
+    const bed = this.harmonyBed;
+    if (this.performanceMode !== 'harmony' || !bed || !this.outputContext || !this.bedGain) return earliest;
+
+    if (!bed.source) {
+      const buffer = this.outputContext.createBuffer(1, bed.samples.length, OUTPUT_SAMPLE_RATE);
+      buffer.copyToChannel(bed.samples, 0);
+      const source = this.outputContext.createBufferSource();
+      source.buffer = buffer;
+      source.loop = true;
+      source.connect(this.bedGain);
+      source.start(earliest);
+      bed.source = source;
+      bed.startTime = earliest;
+      this.onHarmonyLoopChange(true);
+      return earliest;
+    }
+
+    const loopSeconds = bed.samples.length / OUTPUT_SAMPLE_RATE;
+    const passes = Math.max(0, Math.ceil((earliest - bed.startTime) / loopSeconds));
+    return bed.startTime + passes * loopSeconds;
+  }
+
+  private emitHarmonyTake(turn: CapturedTurn) {
+    const bed = this.harmonyBed;
+    if (this.performanceMode !== 'harmony' || !bed?.source || turn.output.length === 0) return;
+    this.onHarmonyTake({
+      index: ++this.harmonyTakeCount,
+      name: bed.name,
+      bed: bed.samples,
+      harmony: turn.output,
+      completedAt: turn.completedAt,
+    });
+  }
+
+  // Takes effect from the next upload
+  public setUploadSpeed(speed: number) {
+    if (!(speed > 0)) throw new Error(`Upload speed must be positive, got ${speed}`);
+    this.uploadSpeed = speed;
   }
 
   public getInputAnalyser() { return this.inputAnalyser; }
   public getOutputAnalyser() { return this.outputAnalyser; }
+  public getOutputContext() { return this.outputContext; }
   public isMicEnabled() { return this.hasActiveMic; }
+  public getState() { return this.state; }
+  public getRecorder() { return this.recorder; }
+  public getMetrics() { return this.metrics; }
+  public getUploadSpeed() { return this.uploadSpeed; }
+  public getPerformanceMode() { return this.performanceMode; }
+  public getHarmonySettings() { return this.harmonySettings; }
+  public getTranscript() { return this.transcript; }
+  public getClipInstruction() { return this.clipInstruction; }
+  public isHarmonyLoopPlaying() { return !!this.harmonyBed?.source; }
+  public getConfig() { return this.config; }
+  public getTurnMode() { return this.turnMode; }
+  public getPlaybackState() { return this.playbackState; }
+  public getVadSettings() { return this.vadSettings; }
+  public getInputSettings() { return this.inputSettings; }
+  public getMidiSettings() { return this.midiSettings; }
+  public isMidiActive() { return this.midiInput !== null; }
+  public getMetronomeSettings() { return this.metronomeSettings; }
+  public isCountingIn() { return this.countingIn; }
 }
\ No newline at end of file
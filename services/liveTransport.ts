@@ -0,0 +1,32 @@
+import type { LiveConnectConfig, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveServerMessage } from '@google/genai';
+
+// Subset of CloseEvent that transports report when the connection ends
+export interface LiveTransportCloseEvent {
+  code: number;
+  reason: string;
+}
+
+export interface LiveTransportCallbacks {
+  onopen?: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror?: (error: ErrorEvent | Error) => void;
+  onclose?: (event: LiveTransportCloseEvent) => void;
+}
+
+export interface LiveTransportConnectParams {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: LiveTransportCallbacks;
+}
+
+// An open bidirectional session, as returned by LiveTransport.connect
+export interface LiveTransportSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  close(): void;
+}
+
+// Anything that can open a Live session: the Gemini SDK, a mock, a proxy...
+export interface LiveTransport {
+  connect(params: LiveTransportConnectParams): Promise<LiveTransportSession>;
+}
@@ -0,0 +1,131 @@
+import { MetronomeBeat, MetronomeSettings } from '../types';
+
+// Click track scheduled ahead on the output AudioContext, the same clock the
+// playback queue schedules model audio on. It plays straight to the speakers
+// and never passes through the input graph, so it is not part of the mic
+// stream sent to Gemini (echo cancellation handles speaker bleed).
+
+export const DEFAULT_METRONOME_SETTINGS: MetronomeSettings = {
+  enabled: false,
+  bpm: 100,
+  beatsPerBar: 4,
+  beatUnit: 4,
+  countInBars: 1,
+  volume: 0.6,
+};
+
+// Classic lookahead scheduling: a coarse timer tops up clicks a little ahead
+// of the audio clock so timer jitter never reaches the click timing
+const LOOKAHEAD_MS = 25;
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+const START_DELAY_SECONDS = 0.05;
+const CLICK_SECONDS = 0.03;
+
+const ACCENT_FREQUENCY = 1600;
+const BEAT_FREQUENCY = 1000;
+
+export const secondsPerBeat = (settings: MetronomeSettings) => (60 / settings.bpm) * (4 / settings.beatUnit);
+
+// Tempo context for the model, as a sentence
+export const describeTempo = (settings: MetronomeSettings) =>
+  `The user is playing along to a metronome at ${settings.bpm} BPM in ${settings.beatsPerBar}/${settings.beatUnit} time. ` +
+  `Keep your continuation at this tempo and meter.`;
+
+export class Metronome {
+  private context: AudioContext;
+  private output: GainNode;
+  private settings: MetronomeSettings;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private nextBeatTime = 0;
+  private beatIndex = 0; // Counted from the first count-in click
+  private countInBeats = 0;
+  private notifyTimers = new Set<ReturnType<typeof setTimeout>>();
+
+  public onBeat: (beat: MetronomeBeat) => void = () => {};
+  public onCountInComplete: () => void = () => {};
+
+  constructor(context: AudioContext, destination: AudioNode, settings: MetronomeSettings) {
+    this.context = context;
+    this.settings = settings;
+    this.output = context.createGain();
+    this.output.gain.value = settings.volume;
+    this.output.connect(destination);
+  }
+
+  // Tempo changes take effect from the next click
+  public setSettings(settings: MetronomeSettings) {
+    this.settings = settings;
+    this.output.gain.setTargetAtTime(settings.volume, this.context.currentTime, 0.02);
+  }
+
+  // Starts on a fresh bar, optionally preceded by count-in bars; returns
+  // the time capture should start
+  public start(countInBars = 0): number {
+    this.stop();
+    this.beatIndex = 0;
+    this.countInBeats = countInBars * this.settings.beatsPerBar;
+    this.nextBeatTime = this.context.currentTime + START_DELAY_SECONDS;
+    const downbeat = this.nextBeatTime + this.countInBeats * secondsPerBeat(this.settings);
+
+    this.timer = setInterval(this.schedule, LOOKAHEAD_MS);
+    this.schedule();
+    if (this.countInBeats === 0) this.onCountInComplete();
+    return downbeat;
+  }
+
+  public stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.notifyTimers.forEach(timer => clearTimeout(timer));
+    this.notifyTimers.clear();
+  }
+
+  public isRunning() {
+    return this.timer !== null;
+  }
+
+  public dispose() {
+    this.stop();
+    this.output.disconnect();
+  }
+
+  private schedule = () => {
+    while (this.nextBeatTime < this.context.currentTime + SCHEDULE_AHEAD_SECONDS) {
+      this.scheduleBeat(this.beatIndex, this.nextBeatTime);
+      this.nextBeatTime += secondsPerBeat(this.settings);
+      this.beatIndex++;
+    }
+  };
+
+  private scheduleBeat(index: number, time: number) {
+    const { beatsPerBar } = this.settings;
+    const fromDownbeat = index - this.countInBeats;
+    const beat: MetronomeBeat = {
+      bar: Math.floor(fromDownbeat / beatsPerBar),
+      beat: ((fromDownbeat % beatsPerBar) + beatsPerBar) % beatsPerBar,
+      time,
+      countIn: fromDownbeat < 0,
+    };
+
+    const oscillator = this.context.createOscillator();
+    oscillator.frequency.value = beat.beat === 0 ? ACCENT_FREQUENCY : BEAT_FREQUENCY;
+    const gain = this.context.createGain();
+    gain.gain.setValueAtTime(1, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + CLICK_SECONDS);
+    oscillator.connect(gain);
+    gain.connect(this.output);
+    oscillator.onended = () => gain.disconnect();
+    oscillator.start(time);
+    oscillator.stop(time + CLICK_SECONDS);
+
+    // Callbacks fire when the click is heard, not when it is scheduled
+    const timer = setTimeout(() => {
+      this.notifyTimers.delete(timer);
+      this.onBeat(beat);
+      if (fromDownbeat === 0) this.onCountInComplete();
+    }, Math.max(0, (time - this.context.currentTime) * 1000));
+    this.notifyTimers.add(timer);
+  }
+}
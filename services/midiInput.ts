@@ -0,0 +1,98 @@
+// Web MIDI keyboard input. Note messages from the selected port, or from
+// every connected port, are forwarded to the note callbacks.
+
+export interface MidiPortInfo {
+  id: string;
+  name: string;
+}
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+const CC_ALL_SOUND_OFF = 120;
+const CC_ALL_NOTES_OFF = 123;
+
+export const isMidiSupported = () => typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+
+const toPortInfo = (input: MIDIInput): MidiPortInfo => ({ id: input.id, name: input.name || input.id });
+
+// Prompts for MIDI permission the first time
+async function requestAccess(): Promise<MIDIAccess> {
+  if (!isMidiSupported()) throw new Error("Web MIDI is not supported in this browser");
+  return navigator.requestMIDIAccess();
+}
+
+export async function listMidiInputs(): Promise<MidiPortInfo[]> {
+  const access = await requestAccess();
+  return Array.from(access.inputs.values()).map(toPortInfo);
+}
+
+export class MidiInputController {
+  private access: MIDIAccess | null = null;
+  private portId: string | null = null;
+  private attached = new Set<MIDIInput>();
+
+  public onNoteOn: (pitch: number, velocity: number) => void = () => {};
+  public onNoteOff: (pitch: number) => void = () => {};
+  public onAllNotesOff: () => void = () => {};
+
+  public async open(portId: string | null) {
+    this.portId = portId;
+    this.access = await requestAccess();
+    // Keyboards plugged in later are picked up too
+    this.access.onstatechange = () => this.attach();
+    this.attach();
+  }
+
+  public setPort(portId: string | null) {
+    this.portId = portId;
+    this.onAllNotesOff(); // The old port's held notes will never get their note-off
+    this.attach();
+  }
+
+  public getPorts(): MidiPortInfo[] {
+    return this.access ? Array.from(this.access.inputs.values()).map(toPortInfo) : [];
+  }
+
+  public close() {
+    this.detach();
+    if (this.access) this.access.onstatechange = null;
+    this.access = null;
+    this.onAllNotesOff();
+  }
+
+  private attach() {
+    this.detach();
+    if (!this.access) return;
+    for (const input of this.access.inputs.values()) {
+      if (this.portId && input.id !== this.portId) continue;
+      input.onmidimessage = this.handleMessage;
+      this.attached.add(input);
+    }
+  }
+
+  private detach() {
+    for (const input of this.attached) input.onmidimessage = null;
+    this.attached.clear();
+  }
+
+  private handleMessage = (e: MIDIMessageEvent) => {
+    const data = e.data;
+    if (!data || data.length < 3) return;
+    const [status, data1, data2] = data;
+
+    switch (status & 0xf0) {
+      case NOTE_ON:
+        // Note-on with velocity 0 is the common running-status note-off
+        if (data2 > 0) this.onNoteOn(data1, data2);
+        else this.onNoteOff(data1);
+        break;
+      case NOTE_OFF:
+        this.onNoteOff(data1);
+        break;
+      case CONTROL_CHANGE:
+        if (data1 === CC_ALL_SOUND_OFF || data1 === CC_ALL_NOTES_OFF) this.onAllNotesOff();
+        break;
+    }
+  };
+}
@@ -0,0 +1,175 @@
+import { SynthTimbre, TimedNote } from '../types';
+import { midiToTimedNotes, parseMidiFile } from '../utils/midiFile';
+
+// Small polyphonic synth for MIDI input: one oscillator and an ADSR envelope
+// per note. Works on any BaseAudioContext, so the same voices are used live
+// and when rendering an imported MIDI file offline.
+
+interface Envelope {
+  attack: number; // Seconds
+  decay: number; // Seconds
+  sustain: number; // Fraction of the peak level
+  release: number; // Seconds
+}
+
+const ENVELOPES: Record<SynthTimbre, Envelope> = {
+  sine: { attack: 0.01, decay: 0.3, sustain: 0.8, release: 0.25 },
+  triangle: { attack: 0.005, decay: 0.4, sustain: 0.6, release: 0.3 },
+  square: { attack: 0.005, decay: 0.2, sustain: 0.5, release: 0.15 },
+  sawtooth: { attack: 0.01, decay: 0.3, sustain: 0.6, release: 0.2 },
+  organ: { attack: 0.02, decay: 0.05, sustain: 1, release: 0.08 },
+};
+
+export const SYNTH_TIMBRES: { timbre: SynthTimbre; label: string }[] = [
+  { timbre: 'triangle', label: 'Soft keys' },
+  { timbre: 'sine', label: 'Sine' },
+  { timbre: 'square', label: 'Square lead' },
+  { timbre: 'sawtooth', label: 'Saw lead' },
+  { timbre: 'organ', label: 'Organ' },
+];
+
+// Headroom so a few held notes don't clip the capture stream
+const MASTER_LEVEL = 0.3;
+
+// Drawbar-style partials for the organ timbre
+const ORGAN_HARMONICS = [0, 1, 0.6, 0.3, 0.2, 0.1, 0.05];
+
+// Offline renders use a common rate and are resampled on upload like any clip
+const RENDER_SAMPLE_RATE = 44100;
+
+export const midiToFrequency = (pitch: number) => 440 * Math.pow(2, (pitch - 69) / 12);
+
+interface Voice {
+  oscillator: OscillatorNode;
+  gain: GainNode;
+  release: number;
+}
+
+export class MidiSynth {
+  private context: BaseAudioContext;
+  private output: GainNode;
+  private voices = new Map<number, Voice>();
+  private timbre: SynthTimbre;
+  private organWave: PeriodicWave | null = null;
+
+  constructor(context: BaseAudioContext, timbre: SynthTimbre = 'triangle', volume = 1) {
+    this.context = context;
+    this.timbre = timbre;
+    this.output = context.createGain();
+    this.output.gain.value = MASTER_LEVEL * volume;
+  }
+
+  public connect(destination: AudioNode) {
+    this.output.connect(destination);
+  }
+
+  public setTimbre(timbre: SynthTimbre) {
+    this.timbre = timbre; // Held notes keep their timbre
+  }
+
+  public setVolume(volume: number) {
+    this.output.gain.setTargetAtTime(MASTER_LEVEL * volume, this.context.currentTime, 0.02);
+  }
+
+  public noteOn(pitch: number, velocity: number, time = this.context.currentTime) {
+    // Retriggering a held key restarts it
+    this.noteOff(pitch, time);
+
+    const envelope = ENVELOPES[this.timbre];
+    const peak = Math.max(0, Math.min(1, velocity / 127));
+
+    const oscillator = this.context.createOscillator();
+    if (this.timbre === 'organ') {
+      oscillator.setPeriodicWave(this.getOrganWave());
+    } else {
+      oscillator.type = this.timbre;
+    }
+    oscillator.frequency.value = midiToFrequency(pitch);
+
+    const gain = this.context.createGain();
+    gain.gain.setValueAtTime(0, time);
+    gain.gain.linearRampToValueAtTime(peak, time + envelope.attack);
+    gain.gain.setTargetAtTime(peak * envelope.sustain, time + envelope.attack, envelope.decay / 3);
+
+    oscillator.connect(gain);
+    gain.connect(this.output);
+    oscillator.onended = () => gain.disconnect();
+    oscillator.start(time);
+    this.voices.set(pitch, { oscillator, gain, release: envelope.release });
+  }
+
+  public noteOff(pitch: number, time = this.context.currentTime) {
+    const voice = this.voices.get(pitch);
+    if (!voice) return;
+    this.voices.delete(pitch);
+
+    const param = voice.gain.gain;
+    if (typeof param.cancelAndHoldAtTime === 'function') {
+      param.cancelAndHoldAtTime(time);
+    } else {
+      // Firefox: hold whatever level the envelope has reached
+      param.cancelScheduledValues(time);
+      param.setValueAtTime(param.value, time);
+    }
+    param.setTargetAtTime(0, time, voice.release / 4);
+    voice.oscillator.stop(time + voice.release * 2);
+  }
+
+  public allNotesOff(time = this.context.currentTime) {
+    for (const pitch of Array.from(this.voices.keys())) this.noteOff(pitch, time);
+  }
+
+  public getActiveNotes(): number[] {
+    return Array.from(this.voices.keys());
+  }
+
+  public dispose() {
+    for (const voice of this.voices.values()) {
+      voice.oscillator.onended = null;
+      voice.oscillator.stop();
+      voice.gain.disconnect();
+    }
+    this.voices.clear();
+    this.output.disconnect();
+  }
+
+  private getOrganWave(): PeriodicWave {
+    if (!this.organWave) {
+      const real = new Float32Array(ORGAN_HARMONICS.length);
+      const imag = Float32Array.from(ORGAN_HARMONICS);
+      this.organWave = this.context.createPeriodicWave(real, imag);
+    }
+    return this.organWave;
+  }
+}
+
+// Renders notes through the synth into a mono buffer, tail included
+export async function renderNotes(notes: TimedNote[], timbre: SynthTimbre, sampleRate = RENDER_SAMPLE_RATE): Promise<AudioBuffer> {
+  if (notes.length === 0) throw new Error("No notes to render");
+
+  // Note-offs before note-ons at the same time, so repeated notes retrigger cleanly
+  const events = notes.flatMap(note => [
+    { time: note.start, on: true, note },
+    { time: note.start + note.duration, on: false, note },
+  ]).sort((a, b) => a.time - b.time || Number(a.on) - Number(b.on));
+
+  const end = events[events.length - 1].time + ENVELOPES[timbre].release * 2;
+  const context = new OfflineAudioContext(1, Math.ceil(end * sampleRate), sampleRate);
+  const synth = new MidiSynth(context, timbre);
+  synth.connect(context.destination);
+
+  for (const event of events) {
+    if (event.on) synth.noteOn(event.note.pitch, event.note.velocity, event.time);
+    else synth.noteOff(event.note.pitch, event.time);
+  }
+  return context.startRendering();
+}
+
+// Renders a Standard MIDI File, keeping only notes that start within maxSeconds
+export async function renderMidiFile(data: ArrayBuffer, timbre: SynthTimbre, maxSeconds: number): Promise<AudioBuffer> {
+  const notes = midiToTimedNotes(parseMidiFile(new Uint8Array(data)))
+    .filter(note => note.start < maxSeconds)
+    .map(note => ({ ...note, duration: Math.min(note.duration, maxSeconds - note.start) }));
+  if (notes.length === 0) throw new Error(`No pitched notes in the first ${maxSeconds}s of the MIDI file`);
+  return renderNotes(notes, timbre);
+}
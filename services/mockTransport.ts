@@ -0,0 +1,191 @@
+import { LiveServerMessage } from '@google/genai';
+import type { LiveSendClientContentParameters, LiveSendRealtimeInputParameters } from '@google/genai';
+import { encodePCM } from '../utils/audioUtils';
+import { LiveErrorKind, LiveSessionError } from './liveErrors';
+import { OUTPUT_SAMPLE_RATE } from '../types';
+import {
+  LiveTransport,
+  LiveTransportCallbacks,
+  LiveTransportConnectParams,
+  LiveTransportSession,
+} from './liveTransport';
+
+// One scripted model turn, replayed in response to the client finishing a turn
+export interface MockTurn {
+  messages: LiveServerMessage[];
+  delayMs?: number; // Gap between consecutive messages
+}
+
+export interface MockTransportOptions {
+  turns: MockTurn[];
+  // Replay the first turn as soon as the session opens instead of waiting for the client
+  replayOnOpen?: boolean;
+  // Number of connect() calls that fail before one succeeds
+  failConnects?: number;
+  // Audio chunks each session accepts, in connect order, before its connection
+  // drops abnormally; sessions past the end of the list never drop
+  dropAfterChunks?: number[];
+  connectDelayMs?: number;
+}
+
+export type MockSentMessage =
+  | { kind: 'realtime'; params: LiveSendRealtimeInputParameters }
+  | { kind: 'content'; params: LiveSendClientContentParameters };
+
+// Builders for the server messages a script is made of
+export function mockAudioMessage(samples: Float32Array): LiveServerMessage {
+  return Object.assign(new LiveServerMessage(), {
+    serverContent: {
+      modelTurn: {
+        parts: [{ inlineData: { data: encodePCM(samples), mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}` } }],
+      },
+    },
+  });
+}
+
+export function mockTextMessage(text: string): LiveServerMessage {
+  return Object.assign(new LiveServerMessage(), {
+    serverContent: { modelTurn: { parts: [{ text }] } },
+  });
+}
+
+export function mockInterruptedMessage(): LiveServerMessage {
+  return Object.assign(new LiveServerMessage(), { serverContent: { interrupted: true } });
+}
+
+export function mockTurnCompleteMessage(): LiveServerMessage {
+  return Object.assign(new LiveServerMessage(), { serverContent: { turnComplete: true } });
+}
+
+export function mockResumptionMessage(handle: string): LiveServerMessage {
+  return Object.assign(new LiveServerMessage(), {
+    sessionResumptionUpdate: { newHandle: handle, resumable: true },
+  });
+}
+
+// Short sine arpeggio, split into chunks the way the real server streams audio
+export function createDemoTurn(frequencies: number[] = [440, 554.37, 659.25, 880], noteSeconds = 0.4): MockTurn {
+  const messages: LiveServerMessage[] = [];
+  const noteLength = Math.round(noteSeconds * OUTPUT_SAMPLE_RATE);
+  for (const frequency of frequencies) {
+    const samples = new Float32Array(noteLength);
+    for (let i = 0; i < noteLength; i++) {
+      const envelope = Math.min(1, i / 240, (noteLength - i) / 240);
+      samples[i] = 0.4 * envelope * Math.sin((2 * Math.PI * frequency * i) / OUTPUT_SAMPLE_RATE);
+    }
+    messages.push(mockAudioMessage(samples));
+  }
+  messages.push(mockTurnCompleteMessage());
+  return { messages, delayMs: 100 };
+}
+
+export class MockLiveSession implements LiveTransportSession {
+  public readonly sent: MockSentMessage[] = [];
+  public closed = false;
+  private activityOpen = false;
+  private chunksAccepted = 0;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+
+  constructor(
+    private callbacks: LiveTransportCallbacks,
+    private turns: MockTurn[],
+    private dropAfterChunks = Infinity
+  ) {}
+
+  public sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    if (params.media && !this.closed && this.chunksAccepted++ >= this.dropAfterChunks) {
+      this.simulateClose(1006, 'Mock connection dropped');
+    }
+    if (this.closed) throw new LiveSessionError(LiveErrorKind.SESSION_CLOSED, 'Session closed');
+    this.sent.push({ kind: 'realtime', params });
+    if (params.activityStart) this.activityOpen = true;
+    // An explicit activity end marks the end of the user's turn, as does a
+    // text prompt sent outside an activity
+    if (params.activityEnd) {
+      this.activityOpen = false;
+      this.replayNextTurn();
+    } else if (params.text !== undefined && !this.activityOpen) {
+      this.replayNextTurn();
+    }
+  }
+
+  public sendClientContent(params: LiveSendClientContentParameters) {
+    if (this.closed) throw new LiveSessionError(LiveErrorKind.SESSION_CLOSED, 'Session closed');
+    this.sent.push({ kind: 'content', params });
+    if (params.turnComplete !== false) {
+      this.replayNextTurn();
+    }
+  }
+
+  public close() {
+    this.simulateClose(1000, 'Client closed');
+  }
+
+  public replayNextTurn() {
+    const turn = this.turns.shift();
+    if (!turn) return;
+
+    const delay = turn.delayMs ?? 0;
+    turn.messages.forEach((message, index) => {
+      this.timers.push(setTimeout(() => {
+        if (!this.closed) this.callbacks.onmessage(message);
+      }, delay * (index + 1)));
+    });
+  }
+
+  // Browsers follow a socket error with an abnormal close, so the mock does too
+  public simulateError(message: string) {
+    this.callbacks.onerror?.(new Error(message));
+    this.simulateClose(1006, message);
+  }
+
+  public simulateClose(code: number, reason: string) {
+    if (this.closed) return;
+    this.closed = true;
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+    this.callbacks.onclose?.({ code, reason });
+  }
+}
+
+// In-process transport that replays scripted LiveServerMessage sequences,
+// for offline development and deterministic tests of LiveManager.
+export class MockLiveTransport implements LiveTransport {
+  public readonly sessions: MockLiveSession[] = [];
+  public connectCount = 0;
+  private turns: MockTurn[];
+  private failConnects: number;
+
+  constructor(private options: MockTransportOptions) {
+    this.turns = [...options.turns];
+    this.failConnects = options.failConnects ?? 0;
+  }
+
+  public async connect({ callbacks, config }: LiveTransportConnectParams): Promise<LiveTransportSession> {
+    this.connectCount++;
+    if (this.options.connectDelayMs) {
+      await new Promise(r => setTimeout(r, this.options.connectDelayMs));
+    }
+    if (this.failConnects > 0) {
+      this.failConnects--;
+      throw new LiveSessionError(LiveErrorKind.UNAVAILABLE, 'Mock connect failure');
+    }
+
+    // Turns are shared across sessions so a reconnect resumes the script
+    const session = new MockLiveSession(callbacks, this.turns, this.options.dropAfterChunks?.[this.sessions.length]);
+    this.sessions.push(session);
+
+    setTimeout(() => {
+      callbacks.onopen?.();
+      if (config.sessionResumption) {
+        callbacks.onmessage(mockResumptionMessage(`mock-handle-${this.connectCount}`));
+      }
+      if (this.options.replayOnOpen) session.replayNextTurn();
+    }, 0);
+    return session;
+  }
+
+  public get currentSession(): MockLiveSession | undefined {
+    return this.sessions[this.sessions.length - 1];
+  }
+}
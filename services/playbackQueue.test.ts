@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PlaybackQueue } from './playbackQueue';
+import { PlaybackEvent } from '../types';
+import { FakeAudioContext } from '../test/fakeAudio';
+
+function createQueue() {
+  const context = new FakeAudioContext();
+  const sources: AudioBufferSourceNode[] = [];
+  const createSource = context.createBufferSource.bind(context);
+  vi.spyOn(context, 'createBufferSource').mockImplementation(() => {
+    const source = createSource();
+    sources.push(source as unknown as AudioBufferSourceNode);
+    return source;
+  });
+  const audioContext = context as unknown as AudioContext;
+  const queue = new PlaybackQueue(audioContext, audioContext.destination);
+  const events: PlaybackEvent[] = [];
+  queue.onEvent = (event) => events.push(event);
+  const chunk = () => audioContext.createBuffer(1, 2400, 24000);
+  const finished = () => events.filter(event => event.type === 'turnFinished');
+  return { queue, sources, events, chunk, finished };
+}
+
+describe('PlaybackQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('finishes a turn once it is complete and its audio has played', () => {
+    const { queue, sources, chunk, finished } = createQueue();
+
+    queue.enqueue(chunk());
+    queue.enqueue(chunk());
+    queue.markTurnComplete();
+    expect(finished()).toEqual([]);
+
+    sources.forEach(source => source.onended?.(new Event('ended')));
+    expect(finished()).toEqual([{ type: 'turnFinished', interrupted: false }]);
+    expect(queue.isPlaying()).toBe(false);
+  });
+
+  it('reports an interrupted turn once, even when the server completes it afterwards', () => {
+    const { queue, chunk, finished } = createQueue();
+
+    queue.enqueue(chunk());
+    queue.interrupt();
+    queue.markTurnComplete();
+
+    expect(finished()).toEqual([{ type: 'turnFinished', interrupted: true }]);
+  });
+
+  it('ignores completion of a turn that never played', () => {
+    const { queue, events } = createQueue();
+
+    queue.markTurnComplete();
+    queue.interrupt();
+
+    expect(events).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import { PlaybackEvent } from '../types';
+
+// Fade applied when an interruption cuts the model off mid-phrase
+const INTERRUPT_FADE_SECONDS = 0.03;
+
+// Gapless scheduling of model audio chunks on the output AudioContext. Every
+// scheduled source is tracked so an interruption can silence what is queued
+// instead of letting stale audio overlap the next turn.
+export class PlaybackQueue {
+  private context: AudioContext;
+  private destination: AudioNode;
+  private turnGain: GainNode; // Per turn, so a fade-out doesn't affect the next one
+  private sources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+  private turnActive = false;
+  private turnComplete = false;
+
+  public onEvent: (event: PlaybackEvent) => void = () => {};
+  // Picks the start time of a turn's first chunk, given the earliest it could play
+  public alignTurnStart: (earliest: number) => number = (earliest) => earliest;
+
+  constructor(context: AudioContext, destination: AudioNode) {
+    this.context = context;
+    this.destination = destination;
+    this.turnGain = this.createTurnGain();
+  }
+
+  // Schedules a chunk right after the previous one; returns its start time
+  public enqueue(buffer: AudioBuffer): number {
+    // Ensure time is monotonic
+    let startTime = Math.max(this.nextStartTime, this.context.currentTime);
+    if (!this.turnActive) startTime = Math.max(startTime, this.alignTurnStart(startTime));
+    // Mid-turn, a chunk that can't start where the last one ended means playback ran dry
+    if (this.turnActive && this.nextStartTime > 0 && startTime > this.nextStartTime) {
+      this.onEvent({ type: 'underrun', gapSeconds: startTime - this.nextStartTime });
+    }
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.turnGain);
+    source.onended = () => this.handleEnded(source);
+    source.start(startTime);
+
+    this.sources.add(source);
+    this.nextStartTime = startTime + buffer.duration;
+
+    if (!this.turnActive) {
+      this.turnActive = true;
+      this.turnComplete = false;
+      this.onEvent({ type: 'turnStarted', startTime });
+    }
+    return startTime;
+  }
+
+  // The server finished the turn; it ends for the listener when the queue drains.
+  // Turns that never started (text-only replies) or were already cut off by an
+  // interruption have nothing left to finish.
+  public markTurnComplete() {
+    if (!this.turnActive) return;
+    this.turnComplete = true;
+    if (this.sources.size === 0) this.finishTurn(false);
+  }
+
+  // Fades out and drops everything scheduled
+  public interrupt(fadeSeconds = INTERRUPT_FADE_SECONDS) {
+    const hadAudio = this.turnActive || this.sources.size > 0;
+    this.silence(fadeSeconds);
+    if (hadAudio) this.finishTurn(true);
+  }
+
+  // Seconds of audio scheduled beyond the current time
+  public getQueuedSeconds() {
+    return Math.max(0, this.nextStartTime - this.context.currentTime);
+  }
+
+  public isPlaying() {
+    return this.turnActive;
+  }
+
+  public dispose() {
+    this.silence(0);
+    this.turnGain.disconnect();
+    this.turnActive = false;
+    this.turnComplete = false;
+  }
+
+  private createTurnGain(): GainNode {
+    const gain = this.context.createGain();
+    gain.connect(this.destination);
+    return gain;
+  }
+
+  private silence(fadeSeconds: number) {
+    const now = this.context.currentTime;
+    const gain = this.turnGain;
+    gain.gain.setValueAtTime(gain.gain.value, now);
+    gain.gain.linearRampToValueAtTime(0, now + fadeSeconds);
+
+    for (const source of this.sources) {
+      source.onended = null;
+      try { source.stop(now + fadeSeconds); } catch (e) { /* already stopped */ }
+    }
+    this.sources.clear();
+    this.nextStartTime = 0;
+
+    // Release the faded gain once it is silent and route new audio through a fresh one
+    this.turnGain = this.createTurnGain();
+    setTimeout(() => gain.disconnect(), fadeSeconds * 1000 + 50);
+  }
+
+  private handleEnded(source: AudioBufferSourceNode) {
+    if (!this.sources.delete(source)) return;
+    this.onEvent({
+      type: 'chunkPlayed',
+      duration: source.buffer?.duration ?? 0,
+      queuedSeconds: this.getQueuedSeconds(),
+    });
+    if (this.sources.size === 0 && this.turnComplete) this.finishTurn(false);
+  }
+
+  private finishTurn(interrupted: boolean) {
+    this.turnActive = false;
+    this.turnComplete = false;
+    this.onEvent({ type: 'turnFinished', interrupted });
+  }
+}
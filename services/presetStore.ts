@@ -0,0 +1,101 @@
+import { Modality } from '@google/genai';
+import { SessionConfig, SessionPreset } from '../types';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('PresetStore');
+
+const STORAGE_KEY = 'melody-weaver.presets';
+
+export const DEFAULT_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+export const PREBUILT_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const DEFAULT_SYSTEM_INSTRUCTION = `You are a world-class musical improviser. 
+Your goal is to complete the user's musical idea seamlessly.
+If the user sings, hums, or plays a melody, continue it in the same key, tempo, and style.
+If the user is silent, wait.
+DO NOT SPEAK. ONLY GENERATE MUSICAL AUDIO (singing, humming, beatboxing, or whistling).
+Be creative and expressive.`;
+
+export const DEFAULT_SESSION_CONFIG: SessionConfig = {
+  model: DEFAULT_MODEL,
+  voiceName: 'Kore',
+  systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
+  responseModalities: [Modality.AUDIO],
+};
+
+const withInstruction = (systemInstruction: string, voiceName = 'Kore'): SessionConfig => ({
+  ...DEFAULT_SESSION_CONFIG,
+  voiceName,
+  systemInstruction,
+});
+
+export const BUILT_IN_PRESETS: SessionPreset[] = [
+  { name: 'Improviser', config: DEFAULT_SESSION_CONFIG, builtIn: true },
+  {
+    name: 'Jazz scat',
+    builtIn: true,
+    config: withInstruction(`You are a jazz scat singer.
+Answer the user's phrase with a scat solo (syllables like "doo-bah", "shoo-bee-doo") over the same key and swing feel.
+Use chromatic approach notes, syncopation and call-backs to the user's motif.
+DO NOT SPEAK. ONLY GENERATE MUSICAL AUDIO.`, 'Aoede'),
+  },
+  {
+    name: 'Beatbox',
+    builtIn: true,
+    config: withInstruction(`You are a beatboxer.
+Lock onto the tempo of the user's input and continue it with a vocal percussion groove: kicks, snares, hi-hats and bass sounds.
+Keep the groove tight and vary it every few bars.
+DO NOT SPEAK. ONLY GENERATE MUSICAL AUDIO.`, 'Puck'),
+  },
+  {
+    name: 'Lullaby hum',
+    builtIn: true,
+    config: withInstruction(`You are humming a gentle lullaby.
+Continue the user's melody softly and slowly, in the same key, with simple stepwise motion and long resolving phrases.
+DO NOT SPEAK. ONLY GENERATE MUSICAL AUDIO (humming).`, 'Leda'),
+  },
+  {
+    name: 'Call-and-response',
+    builtIn: true,
+    config: withInstruction(`You are the "response" in a call-and-response.
+After each phrase from the user, answer with a phrase of the same length and rhythm that echoes and then resolves it.
+Stop when your answer is done and wait for the next call.
+DO NOT SPEAK. ONLY GENERATE MUSICAL AUDIO.`),
+  },
+];
+
+// User presets saved in localStorage; built-ins are never stored
+export function loadUserPresets(): SessionPreset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isValidPreset) : [];
+  } catch (e) {
+    log.warn('Failed to load presets', e);
+    return [];
+  }
+}
+
+export function saveUserPreset(preset: SessionPreset): SessionPreset[] {
+  const presets = loadUserPresets().filter(p => p.name !== preset.name);
+  presets.push({ name: preset.name, config: preset.config });
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+}
+
+export function deleteUserPreset(name: string): SessionPreset[] {
+  const presets = loadUserPresets().filter(p => p.name !== name);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+}
+
+function isValidPreset(value: any): value is SessionPreset {
+  const config = value?.config;
+  return typeof value?.name === 'string' &&
+    typeof config?.model === 'string' &&
+    typeof config?.voiceName === 'string' &&
+    typeof config?.systemInstruction === 'string' &&
+    Array.isArray(config?.responseModalities);
+}
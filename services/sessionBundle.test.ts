@@ -0,0 +1,36 @@
+import { Modality } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { buildPresetLink, readPresetLink } from './sessionBundle';
+import { DEFAULT_SESSION_CONFIG } from './presetStore';
+
+const BASE = 'http://localhost:3000/';
+
+// Encodes an arbitrary payload the way buildPresetLink does, for links it would never build
+const hashFor = (payload: unknown) =>
+  '#preset=' + Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+describe('preset links', () => {
+  it('round-trips a preset through the URL fragment', () => {
+    const config = { ...DEFAULT_SESSION_CONFIG, systemInstruction: 'Answer in 6/8 — slowly' };
+    const url = new URL(buildPresetLink('Waltz', config, BASE));
+
+    expect(readPresetLink(url.hash)).toEqual({ name: 'Waltz', config });
+  });
+
+  it('returns null without a preset in the fragment', () => {
+    expect(readPresetLink('')).toBeNull();
+    expect(readPresetLink('#other=1')).toBeNull();
+  });
+
+  it('rejects response modalities outside the enum', () => {
+    const config = { ...DEFAULT_SESSION_CONFIG, responseModalities: [Modality.AUDIO, 'VIDEO_AND_MORE'] };
+
+    expect(() => readPresetLink(hashFor({ version: 1, name: 'Odd', config }))).toThrow(
+      /config\.responseModalities\[1\] must be one of/,
+    );
+  });
+
+  it('rejects a damaged fragment', () => {
+    expect(() => readPresetLink('#preset=%%%')).toThrow('The shared preset link is damaged');
+  });
+});
@@ -0,0 +1,368 @@
+import { Modality } from '@google/genai';
+import { HistoryTurn, INPUT_SAMPLE_RATE, LyricSegment, OUTPUT_SAMPLE_RATE, SessionConfig, TurnAnalysis, TurnLyrics } from '../types';
+import { decodeWAV, encodeWAV, resampleLinear } from '../utils/audioUtils';
+import { base64ToBytes, bytesToBase64 } from '../utils/base64';
+import { ZipEntry, readZip, writeZip } from '../utils/zipFile';
+
+// Session bundles: a zip with manifest.json and a WAV for every input clip and
+// continuation, for handing a session to someone else. Version 1 is the batch
+// export's manifest, which the bundle grew out of; those zips import too, as
+// bundles without a preset. Presets alone can also travel in a link.
+
+export const SESSION_BUNDLE_FORMAT = 'melody-weaver-session';
+export const SESSION_BUNDLE_VERSION = 2;
+export const SESSION_BUNDLE_EXTENSION = '.mwsession';
+
+const MANIFEST_PATH = 'manifest.json';
+const LINK_PARAM = 'preset';
+
+interface BundleAudio {
+  path: string;
+  sampleRate: number;
+  duration: number; // Seconds
+}
+
+interface BundleTurn {
+  name: string;
+  fileName?: string;
+  startedAt: string;
+  completedAt: string;
+  input: BundleAudio;
+  output: BundleAudio;
+  texts: string[];
+  lyrics?: TurnLyrics; // Added within version 2; older bundles have none
+  analysis: TurnAnalysis | null;
+}
+
+export interface SessionBundleManifest {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  preset: { name: string; config?: SessionConfig }; // No config in bundles migrated from version 1
+  turns: BundleTurn[];
+}
+
+// An imported bundle, with turns ready for the history
+export interface SessionBundle {
+  exportedAt: string;
+  presetName: string;
+  config: SessionConfig | null;
+  turns: HistoryTurn[];
+}
+
+export interface PresetLink {
+  name: string;
+  config: SessionConfig;
+}
+
+type JsonObject = Record<string, unknown>;
+
+// Validation
+
+// Raised for a field that doesn't match the schema; callers say what was being read
+class SchemaError extends Error {}
+
+const invalid = (path: string, problem: string): never => {
+  throw new SchemaError(`${path} ${problem}`);
+};
+
+function withContext<T>(context: string, read: () => T): T {
+  try {
+    return read();
+  } catch (e) {
+    if (e instanceof SchemaError) throw new Error(`${context}: ${e.message}`);
+    throw e;
+  }
+}
+
+function expectObject(value: unknown, path: string): JsonObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) invalid(path, 'must be an object');
+  return value as JsonObject;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) invalid(path, 'must be an array');
+  return value as unknown[];
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') invalid(path, 'must be a string');
+  return value as string;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) invalid(path, 'must be a number');
+  return value as number;
+}
+
+function expectDate(value: unknown, path: string): string {
+  const text = expectString(value, path);
+  if (Number.isNaN(Date.parse(text))) invalid(path, 'must be an ISO date');
+  return text;
+}
+
+const MODALITIES = new Set<string>(Object.values(Modality));
+
+function expectModality(value: unknown, path: string): Modality {
+  const text = expectString(value, path);
+  if (!MODALITIES.has(text)) invalid(path, `must be one of ${[...MODALITIES].join(', ')}`);
+  return text as Modality;
+}
+
+function optionalString(value: unknown, path: string): string | undefined {
+  return value === undefined ? undefined : expectString(value, path);
+}
+
+function validateConfig(value: unknown, path: string): SessionConfig {
+  const config = expectObject(value, path);
+  return {
+    model: expectString(config.model, `${path}.model`),
+    voiceName: expectString(config.voiceName, `${path}.voiceName`),
+    systemInstruction: expectString(config.systemInstruction, `${path}.systemInstruction`),
+    responseModalities: expectArray(config.responseModalities, `${path}.responseModalities`)
+      .map((modality, i) => expectModality(modality, `${path}.responseModalities[${i}]`)),
+  };
+}
+
+function validateAudio(value: unknown, path: string, archivePaths: Set<string>): BundleAudio {
+  const audio = expectObject(value, path);
+  const audioPath = expectString(audio.path, `${path}.path`);
+  if (!archivePaths.has(audioPath)) invalid(`${path}.path`, `points at ${audioPath}, which is not in the bundle`);
+  const sampleRate = expectNumber(audio.sampleRate, `${path}.sampleRate`);
+  if (sampleRate <= 0) invalid(`${path}.sampleRate`, 'must be positive');
+  return { path: audioPath, sampleRate, duration: expectNumber(audio.duration, `${path}.duration`) };
+}
+
+// Analysis is display metadata, so only its outline is checked
+function validateAnalysis(value: unknown, path: string): TurnAnalysis | null {
+  if (value === null || value === undefined) return null;
+  const analysis = expectObject(value, path);
+  expectObject(analysis.input, `${path}.input`);
+  expectObject(analysis.output, `${path}.output`);
+  expectObject(analysis.match, `${path}.match`);
+  return analysis as unknown as TurnAnalysis;
+}
+
+function validateLyricSegments(value: unknown, path: string): LyricSegment[] {
+  return expectArray(value ?? [], path).map((item, i) => {
+    const segment = expectObject(item, `${path}[${i}]`);
+    return {
+      text: expectString(segment.text, `${path}[${i}].text`),
+      start: expectNumber(segment.start, `${path}[${i}].start`),
+      end: expectNumber(segment.end, `${path}[${i}].end`),
+    };
+  });
+}
+
+function validateLyrics(value: unknown, path: string): TurnLyrics | undefined {
+  if (value === undefined) return undefined;
+  const lyrics = expectObject(value, path);
+  return {
+    input: validateLyricSegments(lyrics.input, `${path}.input`),
+    output: validateLyricSegments(lyrics.output, `${path}.output`),
+  };
+}
+
+function validateTurn(value: unknown, path: string, archivePaths: Set<string>): BundleTurn {
+  const turn = expectObject(value, path);
+  return {
+    name: expectString(turn.name, `${path}.name`),
+    fileName: optionalString(turn.fileName, `${path}.fileName`),
+    startedAt: expectDate(turn.startedAt, `${path}.startedAt`),
+    completedAt: expectDate(turn.completedAt, `${path}.completedAt`),
+    input: validateAudio(turn.input, `${path}.input`, archivePaths),
+    output: validateAudio(turn.output, `${path}.output`, archivePaths),
+    texts: expectArray(turn.texts ?? [], `${path}.texts`).map((text, i) => expectString(text, `${path}.texts[${i}]`)),
+    lyrics: validateLyrics(turn.lyrics, `${path}.lyrics`),
+    analysis: validateAnalysis(turn.analysis, `${path}.analysis`),
+  };
+}
+
+// Migrations, each from the version it is keyed by to the next
+
+// Batch manifest: finished clips become turns; per-clip analysis was only a summary, so it is dropped
+function migrateFromBatchManifest(manifest: JsonObject): JsonObject {
+  const exportedAt = expectDate(manifest.exportedAt, 'exportedAt');
+  const turns = expectArray(manifest.items, 'items')
+    .map((value, i) => expectObject(value, `items[${i}]`))
+    .filter(item => item.status === 'done' && item.input && item.continuation)
+    .map(item => ({
+      name: item.fileName,
+      fileName: item.fileName,
+      startedAt: item.startedAt ?? exportedAt,
+      completedAt: item.completedAt ?? exportedAt,
+      input: item.input,
+      output: item.continuation,
+      texts: item.texts ?? [],
+      analysis: null,
+    }));
+
+  return {
+    format: SESSION_BUNDLE_FORMAT,
+    version: 2,
+    exportedAt,
+    preset: { name: typeof manifest.presetName === 'string' ? manifest.presetName : 'Imported batch' },
+    turns,
+  };
+}
+
+const MIGRATIONS: Record<number, (manifest: JsonObject) => JsonObject> = {
+  1: migrateFromBatchManifest,
+};
+
+// Checks a parsed manifest against the current format, migrating older versions first
+export function validateSessionManifest(value: unknown, archivePaths: Set<string>): SessionBundleManifest {
+  let manifest = expectObject(value, 'manifest');
+  let version = expectNumber(manifest.version, 'version');
+  if (version > SESSION_BUNDLE_VERSION) {
+    throw new Error(`This bundle uses format version ${version}, which is newer than this app supports (${SESSION_BUNDLE_VERSION})`);
+  }
+  while (version < SESSION_BUNDLE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Session bundle format version ${version} is not supported`);
+    manifest = migrate(manifest);
+    version = expectNumber(manifest.version, 'version');
+  }
+
+  if (manifest.format !== SESSION_BUNDLE_FORMAT) invalid('format', `must be "${SESSION_BUNDLE_FORMAT}"`);
+  const preset = expectObject(manifest.preset, 'preset');
+  return {
+    format: SESSION_BUNDLE_FORMAT,
+    version,
+    exportedAt: expectDate(manifest.exportedAt, 'exportedAt'),
+    preset: {
+      name: expectString(preset.name, 'preset.name'),
+      config: preset.config === undefined ? undefined : validateConfig(preset.config, 'preset.config'),
+    },
+    turns: expectArray(manifest.turns, 'turns').map((turn, i) => validateTurn(turn, `turns[${i}]`, archivePaths)),
+  };
+}
+
+// Export
+
+// Keeps archive paths portable
+const safeName = (name: string) => name.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_').slice(0, 60) || 'turn';
+
+export async function buildSessionBundle(turns: HistoryTurn[], presetName: string, config: SessionConfig): Promise<Uint8Array> {
+  const entries: ZipEntry[] = [];
+  const bundleTurns: BundleTurn[] = [];
+
+  for (const [i, turn] of turns.entries()) {
+    const prefix = `${String(i + 1).padStart(2, '0')}-${safeName(turn.fileName ?? turn.name)}`;
+    const input: BundleAudio = { path: `audio/${prefix}-input.wav`, sampleRate: INPUT_SAMPLE_RATE, duration: turn.input.length / INPUT_SAMPLE_RATE };
+    const output: BundleAudio = { path: `audio/${prefix}-continuation.wav`, sampleRate: OUTPUT_SAMPLE_RATE, duration: turn.output.length / OUTPUT_SAMPLE_RATE };
+    entries.push({ name: input.path, data: new Uint8Array(await encodeWAV([turn.input], INPUT_SAMPLE_RATE).arrayBuffer()) });
+    entries.push({ name: output.path, data: new Uint8Array(await encodeWAV([turn.output], OUTPUT_SAMPLE_RATE).arrayBuffer()) });
+
+    bundleTurns.push({
+      name: turn.name,
+      fileName: turn.fileName,
+      startedAt: new Date(turn.startedAt).toISOString(),
+      completedAt: new Date(turn.completedAt).toISOString(),
+      input,
+      output,
+      texts: turn.texts,
+      lyrics: turn.lyrics,
+      analysis: turn.analysis,
+    });
+  }
+
+  const manifest: SessionBundleManifest = {
+    format: SESSION_BUNDLE_FORMAT,
+    version: SESSION_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    preset: { name: presetName, config },
+    turns: bundleTurns,
+  };
+  entries.unshift({ name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return writeZip(entries);
+}
+
+// Import
+
+// Mono at the rate the app expects for that side of a turn
+function readAudio(entries: Map<string, Uint8Array>, audio: BundleAudio, targetRate: number): Float32Array {
+  const { channels, sampleRate } = decodeWAV(entries.get(audio.path)!);
+  let samples = channels[0] ?? new Float32Array(0);
+  if (channels.length > 1) {
+    samples = new Float32Array(samples.length);
+    for (const channel of channels) {
+      for (let i = 0; i < samples.length; i++) samples[i] += channel[i] / channels.length;
+    }
+  }
+  return resampleLinear(samples, sampleRate, targetRate);
+}
+
+export function parseSessionBundle(data: Uint8Array): SessionBundle {
+  const entries = new Map(readZip(data).map(entry => [entry.name, entry.data]));
+  const manifestData = entries.get(MANIFEST_PATH);
+  if (!manifestData) throw new Error(`Not a session bundle: ${MANIFEST_PATH} is missing`);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(manifestData));
+  } catch (e) {
+    throw new Error(`Not a session bundle: ${MANIFEST_PATH} is not valid JSON`);
+  }
+  const manifest = withContext('Invalid session bundle', () => validateSessionManifest(raw, new Set(entries.keys())));
+
+  const turns = manifest.turns.map((turn): HistoryTurn => {
+    const input = readAudio(entries, turn.input, INPUT_SAMPLE_RATE);
+    const output = readAudio(entries, turn.output, OUTPUT_SAMPLE_RATE);
+    return {
+      id: crypto.randomUUID(),
+      name: turn.name,
+      input,
+      output,
+      texts: turn.texts,
+      lyrics: turn.lyrics,
+      startedAt: Date.parse(turn.startedAt),
+      completedAt: Date.parse(turn.completedAt),
+      fileName: turn.fileName,
+      presetName: manifest.preset.name,
+      inputDuration: input.length / INPUT_SAMPLE_RATE,
+      outputDuration: output.length / OUTPUT_SAMPLE_RATE,
+      analysis: turn.analysis,
+    };
+  });
+
+  return {
+    exportedAt: manifest.exportedAt,
+    presetName: manifest.preset.name,
+    config: manifest.preset.config ?? null,
+    turns,
+  };
+}
+
+// Preset links: the preset rides in the URL fragment, which never reaches a server
+
+const toBase64Url = (text: string) =>
+  bytesToBase64(new TextEncoder().encode(text)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return new TextDecoder().decode(base64ToBytes(base64 + '='.repeat((4 - (base64.length % 4)) % 4)));
+}
+
+export function buildPresetLink(name: string, config: SessionConfig, base = window.location.href): string {
+  const url = new URL(base);
+  url.hash = `${LINK_PARAM}=${toBase64Url(JSON.stringify({ version: SESSION_BUNDLE_VERSION, name, config }))}`;
+  return url.toString();
+}
+
+// Null when the fragment carries no preset; throws when it carries a bad one
+export function readPresetLink(hash = window.location.hash): PresetLink | null {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(LINK_PARAM);
+  if (!value) return null;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fromBase64Url(value));
+  } catch (e) {
+    throw new Error("The shared preset link is damaged");
+  }
+  return withContext('Invalid preset link', () => {
+    const link = expectObject(raw, 'link');
+    return { name: expectString(link.name, 'name'), config: validateConfig(link.config, 'config') };
+  });
+}
@@ -0,0 +1,198 @@
+import { LatencySummary, MetricsEvent, SessionMetricsSnapshot, TurnMetrics } from '../types';
+
+// Per-session telemetry. LiveManager records raw events here; this derives
+// the latency, jitter and per-turn figures and republishes every event,
+// including the derived ones, through onEvent.
+
+type WithoutTime<T> = T extends unknown ? Omit<T, 'at'> : never;
+export type MetricsInput = WithoutTime<MetricsEvent>;
+
+// Kept for the debug overlay; the export has the aggregates
+const MAX_RECENT_EVENTS = 50;
+
+// Per-chunk events would flood the recent list, so they only update counters
+const STREAM_EVENTS: MetricsEvent['type'][] = ['audioSent', 'audioReceived'];
+
+interface TurnState extends TurnMetrics {
+  inputEndedAt: number | null;
+  lastChunkAt: number | null;
+  gaps: number[]; // Chunk inter-arrival times, ms
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+function standardDeviation(values: number[]): number | null {
+  const average = mean(values);
+  if (average === null || values.length < 2) return null;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - average) ** 2, 0) / values.length);
+}
+
+const round = (value: number | null, digits = 1) => (value === null ? null : Number(value.toFixed(digits)));
+
+export class SessionMetrics {
+  private startedAt: number | null = null;
+  private startedAtWall: Date | null = null;
+  private bytesSent = 0;
+  private bytesReceived = 0;
+  private chunksReceived = 0;
+  private reconnects = 0;
+  private underruns = 0;
+  private turns: TurnState[] = [];
+  private current: TurnState | null = null; // Turn waiting for or receiving a response
+  private lastVoicedAt: number | null = null;
+  private recentEvents: MetricsEvent[] = [];
+
+  public onEvent: (event: MetricsEvent) => void = () => {};
+
+  public record(input: MetricsInput, at = performance.now()) {
+    const event = { ...input, at } as MetricsEvent;
+
+    switch (event.type) {
+      case 'sessionStarted':
+        this.reset(at);
+        break;
+      case 'reconnecting':
+        this.reconnects++;
+        break;
+      case 'inputEnded':
+        this.endInput(event.source, at);
+        break;
+      case 'audioSent':
+        this.bytesSent += event.bytes;
+        break;
+      case 'audioReceived':
+        this.receiveChunk(event.bytes, event.duration, at);
+        break;
+      case 'underrun':
+        this.underruns++;
+        if (this.current) this.current.underruns++;
+        break;
+      case 'interrupted':
+        if (this.current) this.current.interrupted = true;
+        break;
+      case 'turnComplete':
+        if (this.current) this.current.completed = true;
+        this.current = null;
+        this.lastVoicedAt = null;
+        break;
+    }
+    this.publish(event);
+  }
+
+  // Automatic turns have no end-of-input signal, so the last voiced mic frame
+  // before the response stands in for it. Too frequent to be an event.
+  public noteVoicedInput(at = performance.now()) {
+    this.lastVoicedAt = at;
+  }
+
+  public getSnapshot(): SessionMetricsSnapshot {
+    const latencies = this.turns.map(t => t.firstChunkLatencyMs).filter((v): v is number => v !== null);
+    const jitters = this.turns.map(t => t.jitterMs).filter((v): v is number => v !== null);
+    const latency: LatencySummary = {
+      count: latencies.length,
+      last: latencies.length ? latencies[latencies.length - 1] : null,
+      mean: round(mean(latencies)),
+      min: latencies.length ? Math.min(...latencies) : null,
+      max: latencies.length ? Math.max(...latencies) : null,
+    };
+
+    return {
+      startedAt: this.startedAtWall?.toISOString() ?? null,
+      durationMs: this.startedAt === null ? 0 : Math.round(performance.now() - this.startedAt),
+      bytesSent: this.bytesSent,
+      bytesReceived: this.bytesReceived,
+      chunksReceived: this.chunksReceived,
+      reconnects: this.reconnects,
+      underruns: this.underruns,
+      latency,
+      meanJitterMs: round(mean(jitters)),
+      turns: this.turns.map(({ inputEndedAt, lastChunkAt, gaps, ...turn }) => turn),
+    };
+  }
+
+  public getRecentEvents(): MetricsEvent[] {
+    return this.recentEvents.slice();
+  }
+
+  public toJSON() {
+    return this.getSnapshot();
+  }
+
+  private reset(at: number) {
+    this.startedAt = at;
+    this.startedAtWall = new Date();
+    this.bytesSent = 0;
+    this.bytesReceived = 0;
+    this.chunksReceived = 0;
+    this.reconnects = 0;
+    this.underruns = 0;
+    this.turns = [];
+    this.current = null;
+    this.lastVoicedAt = null;
+    this.recentEvents = [];
+  }
+
+  private beginTurn(): TurnState {
+    const turn: TurnState = {
+      index: this.turns.length,
+      inputEndSource: null,
+      firstChunkLatencyMs: null,
+      chunks: 0,
+      bytesReceived: 0,
+      audioSeconds: 0,
+      jitterMs: null,
+      underruns: 0,
+      interrupted: false,
+      completed: false,
+      inputEndedAt: null,
+      lastChunkAt: null,
+      gaps: [],
+    };
+    this.turns.push(turn);
+    this.current = turn;
+    return turn;
+  }
+
+  private endInput(source: TurnMetrics['inputEndSource'], at: number) {
+    // A second end signal before any response (e.g. prompt after activityEnd) keeps the first
+    const turn = this.current && this.current.chunks === 0 ? this.current : this.beginTurn();
+    if (turn.inputEndedAt !== null) return;
+    turn.inputEndedAt = at;
+    turn.inputEndSource = source;
+  }
+
+  private receiveChunk(bytes: number, duration: number, at: number) {
+    this.bytesReceived += bytes;
+    this.chunksReceived++;
+
+    let turn = this.current;
+    if (!turn) {
+      turn = this.beginTurn();
+      if (this.lastVoicedAt !== null) {
+        turn.inputEndedAt = this.lastVoicedAt;
+        turn.inputEndSource = 'voice';
+        this.publish({ type: 'inputEnded', at: this.lastVoicedAt, source: 'voice' });
+      }
+    }
+
+    if (turn.chunks === 0) {
+      turn.firstChunkLatencyMs = turn.inputEndedAt === null ? null : Math.round(at - turn.inputEndedAt);
+      this.publish({ type: 'firstChunk', at, latencyMs: turn.firstChunkLatencyMs });
+    } else if (turn.lastChunkAt !== null) {
+      turn.gaps.push(at - turn.lastChunkAt);
+      turn.jitterMs = round(standardDeviation(turn.gaps));
+    }
+    turn.chunks++;
+    turn.bytesReceived += bytes;
+    turn.audioSeconds = Number((turn.audioSeconds + duration).toFixed(3));
+    turn.lastChunkAt = at;
+  }
+
+  private publish(event: MetricsEvent) {
+    if (!STREAM_EVENTS.includes(event.type)) {
+      this.recentEvents.push(event);
+      if (this.recentEvents.length > MAX_RECENT_EVENTS) this.recentEvents.shift();
+    }
+    this.onEvent(event);
+  }
+}
@@ -0,0 +1,95 @@
+import { encodeInterleavedPCM, encodeWAV, resampleLinear } from '../utils/audioUtils';
+import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE } from '../types';
+
+export type TakeSource = 'input' | 'output' | 'mix';
+export type TakeFormat = 'wav' | 'pcm';
+
+interface RecordedSegment {
+  offset: number; // Seconds from the start of the recording
+  samples: Float32Array;
+}
+
+// Buffers the audio sent to and received from Gemini on a shared timeline
+// so a session can be exported after the fact.
+export class SessionRecorder {
+  private startTime = performance.now();
+  private inputSegments: RecordedSegment[] = [];
+  private outputSegments: RecordedSegment[] = [];
+  private inputCursor = 0; // End of the last input segment, in seconds
+
+  public reset() {
+    this.startTime = performance.now();
+    this.inputSegments = [];
+    this.outputSegments = [];
+    this.inputCursor = 0;
+  }
+
+  public hasAudio() {
+    return this.inputSegments.length > 0 || this.outputSegments.length > 0;
+  }
+
+  // Records a 16kHz frame that was just sent to the model.
+  // File uploads are sent faster than real time, so frames are laid end to end
+  // rather than at their wall-clock time to keep the take at 1x speed.
+  public recordInput(samples: Float32Array) {
+    const offset = Math.max(this.inputCursor, this.elapsed());
+    this.inputSegments.push({ offset, samples });
+    this.inputCursor = offset + samples.length / INPUT_SAMPLE_RATE;
+  }
+
+  // Records a 24kHz model chunk that is scheduled to play `delay` seconds from now
+  public recordOutput(samples: Float32Array, delay: number) {
+    this.outputSegments.push({ offset: this.elapsed() + Math.max(0, delay), samples });
+  }
+
+  public render(source: TakeSource): { channels: Float32Array[]; sampleRate: number } {
+    if (source === 'input') {
+      return { channels: [this.renderSegments(this.inputSegments, INPUT_SAMPLE_RATE)], sampleRate: INPUT_SAMPLE_RATE };
+    }
+    if (source === 'output') {
+      return { channels: [this.renderSegments(this.outputSegments, OUTPUT_SAMPLE_RATE)], sampleRate: OUTPUT_SAMPLE_RATE };
+    }
+
+    // Stereo mix: user on the left, AI on the right, both at the output rate
+    const input = resampleLinear(
+      this.renderSegments(this.inputSegments, INPUT_SAMPLE_RATE),
+      INPUT_SAMPLE_RATE,
+      OUTPUT_SAMPLE_RATE
+    );
+    const output = this.renderSegments(this.outputSegments, OUTPUT_SAMPLE_RATE);
+    const length = Math.max(input.length, output.length);
+    const left = new Float32Array(length);
+    const right = new Float32Array(length);
+    left.set(input);
+    right.set(output);
+    return { channels: [left, right], sampleRate: OUTPUT_SAMPLE_RATE };
+  }
+
+  public exportTake(source: TakeSource, format: TakeFormat): Blob {
+    const { channels, sampleRate } = this.render(source);
+    if (format === 'wav') {
+      return encodeWAV(channels, sampleRate);
+    }
+    return new Blob([encodeInterleavedPCM(channels)], { type: `audio/pcm;rate=${sampleRate}` });
+  }
+
+  private elapsed() {
+    return (performance.now() - this.startTime) / 1000;
+  }
+
+  private renderSegments(segments: RecordedSegment[], sampleRate: number): Float32Array {
+    let length = 0;
+    for (const segment of segments) {
+      length = Math.max(length, Math.round(segment.offset * sampleRate) + segment.samples.length);
+    }
+
+    const result = new Float32Array(length);
+    for (const segment of segments) {
+      const start = Math.round(segment.offset * sampleRate);
+      for (let i = 0; i < segment.samples.length; i++) {
+        result[start + i] += segment.samples[i];
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,164 @@
+import { CapturedTurn, INPUT_SAMPLE_RATE, LyricSegment, OUTPUT_SAMPLE_RATE } from '../types';
+import { analyzeTurn } from '../utils/musicAnalysis';
+
+// Caps memory use when the mic runs for a long time without a model reply
+const MAX_TURN_SECONDS = 60;
+
+// Transcription fragments this close together, in seconds of audio, join one segment
+const LYRIC_GAP_SECONDS = 1;
+
+class RollingBuffer {
+  private chunks: Float32Array[] = [];
+  private length = 0;
+
+  constructor(private maxLength: number) {}
+
+  public push(samples: Float32Array) {
+    this.chunks.push(samples);
+    this.length += samples.length;
+    while (this.chunks.length > 1 && this.length - this.chunks[0].length >= this.maxLength) {
+      this.length -= this.chunks.shift()!.length;
+    }
+  }
+
+  public clear() {
+    this.chunks = [];
+    this.length = 0;
+  }
+
+  public isEmpty() {
+    return this.length === 0;
+  }
+
+  public toArray(): Float32Array {
+    const result = new Float32Array(this.length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return result.length > this.maxLength ? result.slice(result.length - this.maxLength) : result;
+  }
+}
+
+// Adds a transcription fragment heard at `at` seconds, extending the last
+// segment when it follows closely enough
+function appendLyric(segments: LyricSegment[], text: string, at: number) {
+  const last = segments[segments.length - 1];
+  if (last && at - last.end <= LYRIC_GAP_SECONDS) {
+    last.text += text;
+    last.end = at;
+  } else {
+    segments.push({ text, start: at, end: at });
+  }
+}
+
+// Lyrics are timed against everything captured, so shift them to match a
+// buffer that rolled over, dropping any that fell off the front
+function trimLyrics(segments: LyricSegment[], droppedSeconds: number): LyricSegment[] {
+  if (droppedSeconds <= 0) return segments;
+  return segments
+    .filter(segment => segment.end >= droppedSeconds)
+    .map(segment => ({ ...segment, start: Math.max(0, segment.start - droppedSeconds), end: segment.end - droppedSeconds }));
+}
+
+const trimmedText = (segments: LyricSegment[]) =>
+  segments.map(segment => ({ ...segment, text: segment.text.trim() })).filter(segment => segment.text.length > 0);
+
+// Collects the user's phrase and the model's reply for one turn
+export class TurnCapture {
+  private input = new RollingBuffer(MAX_TURN_SECONDS * INPUT_SAMPLE_RATE);
+  private output = new RollingBuffer(MAX_TURN_SECONDS * OUTPUT_SAMPLE_RATE);
+  private texts: string[] = [];
+  private inputLyrics: LyricSegment[] = [];
+  private outputLyrics: LyricSegment[] = [];
+  private inputPosition = 0; // Samples of input sent so far, which transcriptions are timed by
+  private outputPosition = 0;
+  private startedAt: number | null = null;
+  private fileName: string | undefined;
+
+  // 16kHz audio sent to the model
+  public addInput(samples: Float32Array) {
+    if (this.startedAt === null) this.startedAt = Date.now();
+    this.input.push(samples);
+    this.inputPosition += samples.length;
+  }
+
+  // An uploaded clip is the whole prompt, so it replaces whatever the mic picked up.
+  // It is captured up front; markInputSent tracks how much has gone out.
+  public replaceInput(samples: Float32Array, fileName?: string) {
+    this.input.clear();
+    this.inputLyrics = [];
+    this.inputPosition = 0;
+    this.startedAt = Date.now();
+    this.fileName = fileName;
+    this.input.push(samples);
+  }
+
+  public markInputSent(sampleCount: number) {
+    this.inputPosition += sampleCount;
+  }
+
+  // 24kHz audio received from the model
+  public addOutput(samples: Float32Array) {
+    this.output.push(samples);
+    this.outputPosition += samples.length;
+  }
+
+  public addText(text: string) {
+    this.texts.push(text);
+  }
+
+  // What the model heard, timed by how much input it had been sent
+  public addInputTranscription(text: string) {
+    appendLyric(this.inputLyrics, text, this.inputPosition / INPUT_SAMPLE_RATE);
+  }
+
+  // What the model sang, timed by how much of its reply had arrived
+  public addOutputTranscription(text: string) {
+    appendLyric(this.outputLyrics, text, this.outputPosition / OUTPUT_SAMPLE_RATE);
+  }
+
+  public discardOutput() {
+    this.output.clear();
+    this.texts = [];
+    this.outputLyrics = [];
+    this.outputPosition = 0;
+  }
+
+  // Returns the finished turn, analysed, and starts collecting the next one.
+  // Returns null when either side has no audio.
+  public finishTurn(): CapturedTurn | null {
+    if (this.input.isEmpty() || this.output.isEmpty()) {
+      this.discardOutput();
+      return null;
+    }
+
+    const input = this.input.toArray();
+    const output = this.output.toArray();
+    const turn: CapturedTurn = {
+      input,
+      output,
+      texts: this.texts,
+      lyrics: {
+        input: trimmedText(trimLyrics(this.inputLyrics, (this.inputPosition - input.length) / INPUT_SAMPLE_RATE)),
+        output: trimmedText(trimLyrics(this.outputLyrics, (this.outputPosition - output.length) / OUTPUT_SAMPLE_RATE)),
+      },
+      startedAt: this.startedAt ?? Date.now(),
+      completedAt: Date.now(),
+      fileName: this.fileName,
+      analysis: analyzeTurn(input, output),
+    };
+
+    this.input.clear();
+    this.output.clear();
+    this.texts = [];
+    this.inputLyrics = [];
+    this.outputLyrics = [];
+    this.inputPosition = 0;
+    this.outputPosition = 0;
+    this.startedAt = null;
+    this.fileName = undefined;
+    return turn;
+  }
+}
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UploadPacer } from './uploadPacer';
+
+const RATE = 16000;
+
+
+describe('UploadPacer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects a speed that is not positive', () => {
+    expect(() => new UploadPacer(() => 0, RATE, 0)).toThrow(/must be positive/);
+    expect(() => new UploadPacer(() => 0, RATE, Number.NaN)).toThrow(/must be positive/);
+  });
+
+  it('sizes chunks for a send every 50ms, within bounds', () => {
+    expect(new UploadPacer(() => 0, RATE, 1).chunkSize).toBe(1024);
+    expect(new UploadPacer(() => 0, RATE, 4).chunkSize).toBe(3200);
+    expect(new UploadPacer(() => 0, RATE, 10).chunkSize).toBe(8000);
+    expect(new UploadPacer(() => 0, RATE, 40).chunkSize).toBe(8192);
+  });
+
+  it('schedules samples from the clock time of start()', () => {
+    const pacer = new UploadPacer(() => 100, RATE, 4);
+
+    expect(pacer.start()).toBe(100);
+    expect(pacer.timeFor(0)).toBe(100);
+    expect(pacer.timeFor(RATE)).toBe(100.25);
+    expect(pacer.timeFor(RATE * 8)).toBe(102);
+  });
+
+  it('keeps deadlines absolute when a wait overruns', async () => {
+    // Follows the fake timers, so waiting moves it
+    const pacer = new UploadPacer(() => Date.now() / 1000, RATE, 1);
+    const chunk = RATE / 10; // Due every 100ms
+    const startedAt = pacer.start();
+
+    // The first send takes 250ms, so the next two chunks are already late and go at once
+    vi.advanceTimersByTime(250);
+    await pacer.waitFor(chunk);
+    await pacer.waitFor(chunk * 2);
+    expect(Date.now() / 1000 - startedAt).toBeCloseTo(0.25);
+
+    // The fourth is still due 300ms from the start, not 100ms after the late ones
+    let resolved = false;
+    const fourth = pacer.waitFor(chunk * 3).then(() => { resolved = true; });
+    await vi.advanceTimersByTimeAsync(40);
+    expect(resolved).toBe(false);
+    await vi.advanceTimersByTimeAsync(20);
+    await fourth;
+    expect(resolved).toBe(true);
+    expect(pacer.timeFor(chunk * 3) - startedAt).toBeCloseTo(0.3);
+  });
+});
@@ -0,0 +1,58 @@
+// Paces a chunked upload at a fixed multiple of real time. Every chunk has an
+// absolute deadline from the start, so timer jitter and slow sends don't add
+// up over a long clip the way fixed sleeps between chunks do. The clock is
+// pluggable: LiveManager uses the input AudioContext, which lets the upload
+// visualization be scheduled on exactly the same timeline.
+
+export type PacerClock = () => number; // Seconds
+
+export const performanceClock: PacerClock = () => performance.now() / 1000;
+
+// Default upload speed; the model copes well with audio well above real time
+export const DEFAULT_UPLOAD_SPEED = 10;
+
+// Aim for a send about this often, whatever the speed
+const TARGET_SEND_INTERVAL_SECONDS = 0.05;
+const MIN_CHUNK_SAMPLES = 1024;
+const MAX_CHUNK_SAMPLES = 8192;
+
+export class UploadPacer {
+  private clock: PacerClock;
+  private sampleRate: number;
+  private speed: number;
+  private startTime = 0;
+
+  constructor(clock: PacerClock, sampleRate: number, speed: number) {
+    if (!(speed > 0)) throw new Error(`Upload speed must be positive, got ${speed}`);
+    this.clock = clock;
+    this.sampleRate = sampleRate;
+    this.speed = speed;
+  }
+
+  // Samples per send, so sends land roughly every TARGET_SEND_INTERVAL_SECONDS
+  public get chunkSize(): number {
+    const samples = Math.round(this.sampleRate * this.speed * TARGET_SEND_INTERVAL_SECONDS);
+    return Math.max(MIN_CHUNK_SAMPLES, Math.min(MAX_CHUNK_SAMPLES, samples));
+  }
+
+  public getSpeed() {
+    return this.speed;
+  }
+
+  // Starts the timeline; returns the clock time of sample 0
+  public start(at = this.clock()): number {
+    this.startTime = at;
+    return at;
+  }
+
+  // Clock time at which the sample at this offset is due
+  public timeFor(sampleOffset: number): number {
+    return this.startTime + sampleOffset / (this.sampleRate * this.speed);
+  }
+
+  // Resolves once the sample at this offset is due; immediately if already late
+  public async waitFor(sampleOffset: number): Promise<void> {
+    const delay = this.timeFor(sampleOffset) - this.clock();
+    if (delay > 0) await new Promise(r => setTimeout(r, delay * 1000));
+  }
+}
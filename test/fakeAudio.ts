@@ -0,0 +1,112 @@
+// Just enough of the Web Audio API for LiveManager to build its graph under
+// node. Nothing makes sound: sources never end on their own, and a context's
+// clock follows Date.now(), so fake timers move it.
+
+class FakeParam {
+  constructor(public value = 1) {}
+  setValueAtTime(value: number) { this.value = value; return this; }
+  setTargetAtTime(value: number) { this.value = value; return this; }
+  linearRampToValueAtTime(value: number) { this.value = value; return this; }
+  exponentialRampToValueAtTime(value: number) { this.value = value; return this; }
+  cancelScheduledValues() { return this; }
+}
+
+class FakeNode {
+  connect<T>(destination: T): T { return destination; }
+  disconnect() {}
+}
+
+class FakeGain extends FakeNode {
+  gain = new FakeParam();
+}
+
+class FakeAnalyser extends FakeNode {
+  fftSize = 2048;
+  frequencyBinCount = 1024;
+  getByteFrequencyData() {}
+  getByteTimeDomainData() {}
+  getFloatTimeDomainData() {}
+}
+
+class FakeBuffer {
+  private channels: Float32Array[];
+  constructor(channelCount: number, public length: number, public sampleRate: number) {
+    this.channels = Array.from({ length: channelCount }, () => new Float32Array(length));
+  }
+  get duration() { return this.length / this.sampleRate; }
+  get numberOfChannels() { return this.channels.length; }
+  getChannelData(channel: number) { return this.channels[channel]; }
+  copyToChannel(source: Float32Array, channel: number) { this.channels[channel].set(source.subarray(0, this.length)); }
+}
+
+class FakeBufferSource extends FakeNode {
+  buffer: FakeBuffer | null = null;
+  loop = false;
+  playbackRate = new FakeParam();
+  onended: (() => void) | null = null;
+  start() {}
+  stop() {}
+}
+
+export class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+  sampleRate = 48000;
+  state: AudioContextState = 'running';
+  destination = new FakeNode();
+  private createdAt = Date.now();
+
+  constructor() {
+    FakeAudioContext.instances.push(this);
+  }
+
+  get currentTime() {
+    return (Date.now() - this.createdAt) / 1000;
+  }
+
+  createGain() { return new FakeGain(); }
+  createAnalyser() { return new FakeAnalyser(); }
+  createStereoPanner() { return Object.assign(new FakeNode(), { pan: new FakeParam(0) }); }
+  createOscillator() { return Object.assign(new FakeNode(), { frequency: new FakeParam(440), type: 'sine', start() {}, stop() {} }); }
+  createBuffer(channels: number, length: number, sampleRate: number) { return new FakeBuffer(channels, length, sampleRate); }
+  createBufferSource() { return new FakeBufferSource(); }
+  async resume() { this.state = 'running'; }
+  async close() { this.state = 'closed'; }
+}
+
+// Renders the most recently started source straight through, resampled to the
+// context's rate by nearest sample
+export class FakeOfflineAudioContext {
+  destination = new FakeNode();
+  private source: FakeBufferSource | null = null;
+
+  constructor(private channels: number, private length: number, private sampleRate: number) {}
+
+  createBufferSource() {
+    this.source = new FakeBufferSource();
+    return this.source;
+  }
+
+  async startRendering() {
+    const rendered = new FakeBuffer(this.channels, this.length, this.sampleRate);
+    const input = this.source?.buffer;
+    if (input) {
+      const from = input.getChannelData(0);
+      const to = rendered.getChannelData(0);
+      for (let i = 0; i < to.length; i++) to[i] = from[Math.min(from.length - 1, Math.round((i * input.sampleRate) / this.sampleRate))];
+    }
+    return rendered;
+  }
+}
+
+// Installs the fake as the global AudioContext, with no microphone available
+export function installFakeAudio() {
+  FakeAudioContext.instances = [];
+  const globals = globalThis as any;
+  globals.window ??= globals;
+  globals.window.AudioContext = FakeAudioContext;
+  globals.OfflineAudioContext = FakeOfflineAudioContext;
+  Object.defineProperty(globals, 'navigator', {
+    configurable: true,
+    value: { mediaDevices: { getUserMedia: () => Promise.reject(new Error('No microphone in tests')) } },
+  });
+}
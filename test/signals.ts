@@ -0,0 +1,41 @@
+// Synthetic signals for the analysis and transcription tests
+
+export const midiToFrequency = (midi: number) => 440 * 2 ** ((midi - 69) / 12);
+
+// Steady sine, optionally with short fades so it has a clear start and end
+export function sine(frequency: number, seconds: number, sampleRate: number, amplitude = 0.5): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  for (let i = 0; i < samples.length; i++) samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  return samples;
+}
+
+// Notes played legato: phase runs on across note changes and the level never
+// drops, so only the pitch marks where one note ends and the next begins
+export function legatoMelody(midis: number[], noteSeconds: number, sampleRate: number, amplitude = 0.5): Float32Array {
+  const noteLength = Math.round(noteSeconds * sampleRate);
+  const samples = new Float32Array(midis.length * noteLength);
+  let phase = 0;
+  midis.forEach((midi, n) => {
+    const step = (2 * Math.PI * midiToFrequency(midi)) / sampleRate;
+    for (let i = 0; i < noteLength; i++) {
+      phase += step;
+      samples[n * noteLength + i] = amplitude * Math.sin(phase);
+    }
+  });
+  return samples;
+}
+
+// Short decaying clicks on every beat
+export function clickTrack(bpm: number, seconds: number, sampleRate: number): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  const period = (60 / bpm) * sampleRate;
+  for (let beat = 0; beat * period < samples.length; beat++) {
+    const start = Math.round(beat * period);
+    for (let i = 0; i < 200 && start + i < samples.length; i++) {
+      samples[start + i] = 0.8 * Math.exp(-i / 30) * (i % 2 ? 1 : -1);
+    }
+  }
+  return samples;
+}
+
+export const C_MAJOR_SCALE = [60, 62, 64, 65, 67, 69, 71, 72];
@@ -9,9 +9,338 @@ export enum ConnectionState {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR',
 }
 
+export interface ReconnectStatus {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number; // Backoff before this attempt
+  gaveUp: boolean;
+  lastError?: string;
+}
+
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// How the end of the user's turn is decided:
+// auto - server-side voice activity detection (the default)
+// vad - client-side voice activity detection sending activity start/end signals
+// pushToTalk - the user holds a key or button while playing
+// manual - the user presses "Your turn" when finished
+export type TurnMode = 'auto' | 'vad' | 'pushToTalk' | 'manual';
+
+export interface VadSettings {
+  thresholdDb: number; // Frame RMS level, in dBFS, that counts as voice
+  hangoverMs: number; // Silence allowed inside a phrase before the turn ends
+  dropSilentFrames: boolean; // Skip sending mic frames outside voice activity
+}
+
+export interface JamSettings {
+  rounds: number; // Rounds to play before stopping; 0 plays until stopped
+  mixMic: boolean; // Blend live mic input into each fed-back round
+  micLevel: number; // 0..1, mic gain in the mix
+}
+
+// One jam round: the prompt fed to the model and what it played back
+export interface JamRound {
+  index: number; // 1-based
+  prompt: Float32Array; // INPUT_SAMPLE_RATE
+  response: Float32Array; // OUTPUT_SAMPLE_RATE
+  completedAt: number;
+}
+
+export interface JamStatus {
+  active: boolean;
+  round: number; // Round in progress, or the last one played once stopped
+  totalRounds: number; // 0 = until stopped
+}
+
+// What the model is asked to do with an uploaded clip:
+// continue - play on from where the clip stops (the default)
+// harmony - loop the clip as a backing bed and play an accompaniment over it
+export type PerformanceMode = 'continue' | 'harmony';
+
+export interface HarmonySettings {
+  bedLevel: number; // 0..1, level of the looped clip
+  harmonyLevel: number; // 0..1, level of the model's part
+}
+
+// A harmony response and the loop it was played over. Playback starts the
+// harmony on a loop boundary, so sample 0 of each lines up with the other.
+export interface HarmonyTake {
+  index: number; // 1-based
+  name: string; // Clip the loop came from
+  bed: Float32Array; // One pass of the loop, OUTPUT_SAMPLE_RATE
+  harmony: Float32Array; // OUTPUT_SAMPLE_RATE
+  completedAt: number;
+}
+
+// Audio that can be placed on the arrangement timeline: either side of a turn
+export interface ArrangementClip {
+  id: string;
+  name: string;
+  source: 'input' | 'output';
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+// A clip placed on a track
+export interface ArrangementRegion {
+  id: string;
+  clipId: string;
+  offset: number; // Seconds from the start of the arrangement
+}
+
+export interface ArrangementTrack {
+  id: string;
+  name: string;
+  regions: ArrangementRegion[];
+  gain: number; // Linear, 0..1.5
+  pan: number; // -1 (left) .. 1 (right)
+  mute: boolean;
+  solo: boolean;
+}
+
+export interface Arrangement {
+  clips: ArrangementClip[];
+  tracks: ArrangementTrack[];
+}
+
+// One line of the chat transcript: typed instructions or the model's text reply
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  at: number; // Epoch ms
+  attachedTo?: string; // User instructions sent along with this clip or phrase
+}
+
+export interface InputSettings {
+  deviceId: string | null; // null uses the system default input
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  gain: number; // Linear gain applied before capture and analysis
+  monitor: boolean; // Play the input back so the user can hear themselves
+}
+
+export interface MetronomeSettings {
+  enabled: boolean;
+  bpm: number;
+  beatsPerBar: number; // Time signature numerator
+  beatUnit: number; // Time signature denominator: 4 for quarter notes, 8 for eighths
+  countInBars: number; // Bars of clicks before capture starts; 0 for none
+  volume: number;
+}
+
+export interface MetronomeBeat {
+  bar: number; // Counted from the start; count-in bars are negative
+  beat: number; // Within the bar, 0 is the downbeat
+  time: number; // Output AudioContext time of the click
+  countIn: boolean;
+}
+
+export type SynthTimbre = 'sine' | 'triangle' | 'square' | 'sawtooth' | 'organ';
+
+export interface MidiInputSettings {
+  enabled: boolean;
+  portId: string | null; // null listens to every connected MIDI input
+  timbre: SynthTimbre;
+  volume: number; // Linear synth level into the capture stream
+}
+
+// A note with absolute timing, as played back by the synth
+export interface TimedNote {
+  pitch: number; // MIDI note number
+  start: number; // Seconds
+  duration: number; // Seconds
+  velocity: number; // 1-127
+}
+
+// Region of an uploaded clip to send, in seconds of the decoded audio
+export interface ClipSelection {
+  start: number;
+  end: number;
+  normalize: boolean;
+}
+
+export type BatchItemStatus = 'queued' | 'sending' | 'waiting' | 'done' | 'failed';
+
+// One clip in a batch run, with the continuation it produced
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  sentAt?: number; // When the clip finished sending
+  turn?: CapturedTurn;
+  error?: string;
+}
+
+export interface SessionConfig {
+  model: string;
+  voiceName: string;
+  systemInstruction: string;
+  responseModalities: Modality[];
+}
+
+export interface SessionPreset {
+  name: string;
+  config: SessionConfig;
+  builtIn?: boolean;
+}
+
+export interface PitchPoint {
+  time: number; // Seconds from the start of the analysed audio
+  frequency: number; // Hz
+  midi: number; // Fractional MIDI note number
+  confidence: number; // 0..1, 1 - YIN aperiodicity
+}
+
+export interface KeyEstimate {
+  tonic: number; // Pitch class, 0 = C
+  mode: 'major' | 'minor';
+  name: string; // e.g. "A minor"
+  confidence: number; // Correlation with the key profile, -1..1
+}
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number; // 0..1
+}
+
+export interface AudioAnalysis {
+  duration: number;
+  contour: PitchPoint[];
+  pitchClassHistogram: number[]; // 12 bins, normalised to sum to 1
+  key: KeyEstimate | null;
+  tempo: TempoEstimate | null;
+}
+
+export interface MatchScore {
+  overall: number | null; // 0..1, null when there is too little to compare
+  key: number | null;
+  tempo: number | null;
+  pitchClasses: number | null;
+}
+
+export interface TurnAnalysis {
+  input: AudioAnalysis;
+  output: AudioAnalysis;
+  match: MatchScore;
+}
+
+export type VisualizerMode = 'spectrum' | 'waveform' | 'pianoRoll';
+
+// What the model side of the conversation is doing
+// idle - nothing pending; waiting - the user handed over and no audio has arrived yet
+export type PlaybackState = 'idle' | 'waiting' | 'playing';
+
+export type PlaybackEvent =
+  | { type: 'turnStarted'; startTime: number } // Output AudioContext time of the first chunk
+  | { type: 'chunkPlayed'; duration: number; queuedSeconds: number } // Audio still scheduled after it
+  | { type: 'turnFinished'; interrupted: boolean }
+  | { type: 'underrun'; gapSeconds: number }; // Queue ran dry mid-turn; the next chunk starts late
+
+// How the end of the user's input was detected: an activityEnd signal, the
+// completion prompt after a clip, a typed text turn, or (automatic turns) the
+// last voiced mic frame
+export type InputEndSource = 'activity' | 'prompt' | 'text' | 'voice';
+
+// Telemetry LiveManager publishes to SessionMetrics; `at` is performance.now()
+export type MetricsEvent =
+  | { type: 'sessionStarted'; at: number }
+  | { type: 'connected'; at: number }
+  | { type: 'reconnecting'; at: number; attempt: number; reason: string }
+  | { type: 'inputEnded'; at: number; source: InputEndSource }
+  | { type: 'audioSent'; at: number; bytes: number }
+  | { type: 'audioReceived'; at: number; bytes: number; duration: number }
+  | { type: 'firstChunk'; at: number; latencyMs: number | null }
+  | { type: 'underrun'; at: number; gapSeconds: number }
+  | { type: 'interrupted'; at: number }
+  | { type: 'turnComplete'; at: number };
+
+export interface TurnMetrics {
+  index: number;
+  inputEndSource: InputEndSource | null;
+  firstChunkLatencyMs: number | null; // End of input to first audio chunk
+  chunks: number;
+  bytesReceived: number;
+  audioSeconds: number;
+  jitterMs: number | null; // Standard deviation of chunk inter-arrival times
+  underruns: number;
+  interrupted: boolean;
+  completed: boolean;
+}
+
+export interface LatencySummary {
+  count: number;
+  last: number | null;
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+export interface SessionMetricsSnapshot {
+  startedAt: string | null; // ISO time
+  durationMs: number;
+  bytesSent: number; // 16-bit PCM, before base64
+  bytesReceived: number;
+  chunksReceived: number;
+  reconnects: number;
+  underruns: number;
+  latency: LatencySummary;
+  meanJitterMs: number | null;
+  turns: TurnMetrics[];
+}
+
+// Transcribed words from one side of a turn, timed in seconds from the start
+// of that side's audio by when the transcription arrived
+export interface LyricSegment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// What the Live API heard the user sing and what the model sang back
+export interface TurnLyrics {
+  input: LyricSegment[];
+  output: LyricSegment[];
+}
+
+// One user phrase and the model's reply, as captured by LiveManager
+export interface CapturedTurn {
+  input: Float32Array; // INPUT_SAMPLE_RATE
+  output: Float32Array; // OUTPUT_SAMPLE_RATE
+  texts: string[];
+  lyrics: TurnLyrics;
+  startedAt: number; // Epoch ms of the first input audio
+  completedAt: number;
+  fileName?: string; // Set when the input was an uploaded clip
+  analysis: TurnAnalysis | null;
+}
+
+// A captured turn persisted in the history database
+export interface HistoryTurn {
+  id: string;
+  name: string;
+  input: Float32Array;
+  output: Float32Array;
+  texts: string[];
+  lyrics?: TurnLyrics; // Missing on turns saved before transcription was on
+  startedAt: number;
+  completedAt: number;
+  fileName?: string;
+  presetName?: string;
+  inputDuration: number; // Seconds
+  outputDuration: number;
+  analysis: TurnAnalysis | null;
+}
+
 export interface VisualizerData {
   input: Uint8Array;
   output: Uint8Array;
@@ -19,3 +348,6 @@ export interface VisualizerData {
 
 export const INPUT_SAMPLE_RATE = 16000;
 export const OUTPUT_SAMPLE_RATE = 24000;
+
+// Mic frame size sent to Gemini: 1024 samples @ 16kHz = 64ms
+export const DEFAULT_CAPTURE_FRAME_SIZE = 1024;
@@ -1,46 +1,64 @@
-import { Blob } from '@google/genai';
+import type { Blob as GeminiBlob } from '@google/genai';
+import { base64ToBytes, bytesToBase64 } from './base64';
 
-// Encodes a Float32Array (PCM) to a base64 string
-export function encodePCM(data: Float32Array): string {
+// Converts Float32 (-1.0 to 1.0) samples to Int16 (-32768 to 32767)
+export function floatTo16BitPCM(data: Float32Array): Int16Array {
   const l = data.length;
-  // Convert Float32 (-1.0 to 1.0) to Int16 (-32768 to 32767)
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
-  
-  // Convert buffer to binary string
-  let binary = '';
-  const bytes = new Uint8Array(int16.buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  return int16;
+}
+
+// Converts Int16 samples back to Float32 (-1.0 to 1.0)
+export function int16ToFloat32(data: Int16Array): Float32Array {
+  const result = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    result[i] = data[i] / 32768.0;
   }
-  return btoa(binary);
+  return result;
+}
+
+// Encodes a Float32Array (PCM) to a base64 string
+export function encodePCM(data: Float32Array): string {
+  return encodeInt16PCM(floatTo16BitPCM(data));
+}
+
+// Encodes Int16 PCM samples to a base64 string
+export function encodeInt16PCM(int16: Int16Array): string {
+  // View only this array's bytes; it may be a window into a larger buffer
+  return bytesToBase64(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength));
 }
 
 // Decodes a base64 string to a Uint8Array (PCM bytes)
 export function decodePCM(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+  return base64ToBytes(base64);
+}
+
+// Views little-endian 16-bit PCM bytes as samples. Bytes that aren't 2-byte
+// aligned (a subarray at an odd offset) are copied first; a trailing odd byte
+// is dropped.
+export function pcmBytesToInt16(data: Uint8Array): Int16Array {
+  const sampleCount = data.byteLength >> 1;
+  if (data.byteOffset % 2 === 0) {
+    return new Int16Array(data.buffer, data.byteOffset, sampleCount);
   }
-  return bytes;
+  return new Int16Array(data.slice(0, sampleCount * 2).buffer);
 }
 
 // Convert raw PCM bytes to AudioBuffer for playback
 export async function pcmToAudioBuffer(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number,
   numChannels: number = 1
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+  const dataInt16 = pcmBytesToInt16(data);
+  // Incomplete trailing frames are dropped rather than read out of bounds
+  const frameCount = Math.floor(dataInt16.length / numChannels);
+  const buffer = ctx.createBuffer(numChannels, Math.max(1, frameCount), sampleRate);
 
   for (let channel = 0; channel < numChannels; channel++) {
     const channelData = buffer.getChannelData(channel);
@@ -51,16 +69,20 @@ export async function pcmToAudioBuffer(
   return buffer;
 }
 
-export function createGeminiAudioBlob(data: Float32Array): Blob {
+export function createGeminiAudioBlob(data: Float32Array | Int16Array): GeminiBlob {
   return {
-    data: encodePCM(data),
+    data: data instanceof Int16Array ? encodeInt16PCM(data) : encodePCM(data),
     mimeType: 'audio/pcm;rate=16000',
   };
 }
 
 // Helper to resample an audio buffer to 16kHz for Gemini Input if needed
 export async function resampleTo16k(audioBuffer: AudioBuffer): Promise<Float32Array> {
-  const targetRate = 16000;
+  return resampleBuffer(audioBuffer, 16000);
+}
+
+// Renders a buffer down to mono at `targetRate`
+export async function resampleBuffer(audioBuffer: AudioBuffer, targetRate: number): Promise<Float32Array> {
   // Ensure length is an integer and at least 1 to prevent OfflineAudioContext errors
   const length = Math.max(1, Math.ceil(audioBuffer.duration * targetRate));
   
@@ -79,10 +101,51 @@ export async function resampleTo16k(audioBuffer: AudioBuffer): Promise<Float32Ar
   return resampled.getChannelData(0);
 }
 
+// Decodes an audio file with a short-lived context, for previews and editing
+export async function decodeAudioFile(file: File): Promise<AudioBuffer> {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    return await ctx.decodeAudioData(await file.arrayBuffer());
+  } finally {
+    ctx.close();
+  }
+}
+
+// Copies [start, end) seconds of a buffer into a new one
+export function sliceAudioBuffer(buffer: AudioBuffer, start: number, end: number): AudioBuffer {
+  const from = Math.max(0, Math.min(buffer.length, Math.floor(start * buffer.sampleRate)));
+  const to = Math.max(from + 1, Math.min(buffer.length, Math.ceil(end * buffer.sampleRate)));
+  const slice = new AudioBuffer({
+    length: to - from,
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate,
+  });
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    slice.copyToChannel(buffer.getChannelData(channel).subarray(from, to), channel);
+  }
+  return slice;
+}
+
+// Averages all channels into one
+export function mixToMono(buffer: AudioBuffer): Float32Array {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < mono.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
 // Real-time downsampling using linear interpolation
 export function downsampleTo16k(input: Float32Array, inputRate: number): Float32Array {
-  if (inputRate === 16000) return input;
-  const ratio = inputRate / 16000;
+  return resampleLinear(input, inputRate, 16000);
+}
+
+// Resamples between arbitrary rates using linear interpolation
+export function resampleLinear(input: Float32Array, inputRate: number, outputRate: number): Float32Array {
+  if (inputRate === outputRate) return input;
+  const ratio = inputRate / outputRate;
   const newLength = Math.ceil(input.length / ratio);
   const result = new Float32Array(newLength);
   
@@ -95,3 +158,121 @@ export function downsampleTo16k(input: Float32Array, inputRate: number): Float32
   }
   return result;
 }
+
+// Scales in place so the loudest sample sits at `target`; returns the gain applied
+export function normalizePeak(samples: Float32Array, target = 0.95): number {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    if (Math.abs(samples[i]) > peak) peak = Math.abs(samples[i]);
+  }
+  if (peak === 0) return 1;
+  const scale = target / peak;
+  for (let i = 0; i < samples.length; i++) samples[i] *= scale;
+  return scale;
+}
+
+// Mixes `layer` over `loop` repeated to the same length, starting together.
+// The result covers at least one full pass of the loop and is scaled down if it would clip.
+export function mixOverLoop(loop: Float32Array, layer: Float32Array, loopLevel: number, layerLevel: number): Float32Array {
+  const mix = new Float32Array(Math.max(loop.length, layer.length));
+  let peak = 0;
+  for (let i = 0; i < mix.length; i++) {
+    const value = (loop.length ? loop[i % loop.length] * loopLevel : 0) + (i < layer.length ? layer[i] * layerLevel : 0);
+    mix[i] = value;
+    if (Math.abs(value) > peak) peak = Math.abs(value);
+  }
+  if (peak > 1) normalizePeak(mix, 0.99);
+  return mix;
+}
+
+// Interleaves channels into 16-bit little-endian PCM bytes
+export function encodeInterleavedPCM(channels: Float32Array[]): Uint8Array {
+  const numChannels = channels.length;
+  const frameCount = numChannels > 0 ? channels[0].length : 0;
+  const interleaved = new Float32Array(frameCount * numChannels);
+  for (let i = 0; i < frameCount; i++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      interleaved[i * numChannels + channel] = channels[channel][i];
+    }
+  }
+  return new Uint8Array(floatTo16BitPCM(interleaved).buffer);
+}
+
+// Wraps 16-bit PCM channels in a RIFF/WAVE container
+export function encodeWAV(channels: Float32Array[], sampleRate: number): Blob {
+  const numChannels = channels.length;
+  const pcm = encodeInterleavedPCM(channels);
+  const blockAlign = numChannels * 2;
+  const header = new DataView(new ArrayBuffer(44));
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      header.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM format
+  header.setUint16(22, numChannels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * blockAlign, true); // byte rate
+  header.setUint16(32, blockAlign, true);
+  header.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+
+  return new Blob([header, pcm], { type: 'audio/wav' });
+}
+
+// Reads a 16-bit PCM RIFF/WAVE file, such as encodeWAV writes, without resampling
+export function decodeWAV(data: Uint8Array): { channels: Float32Array[]; sampleRate: number } {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const readString = (offset: number) => String.fromCharCode(...data.subarray(offset, offset + 4));
+  if (data.length < 12 || readString(0) !== 'RIFF' || readString(8) !== 'WAVE') {
+    throw new Error("Not a WAV file");
+  }
+
+  let numChannels = 0;
+  let sampleRate = 0;
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const id = readString(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      const format = view.getUint16(body, true);
+      const bitsPerSample = view.getUint16(body + 14, true);
+      if (format !== 1 || bitsPerSample !== 16) throw new Error("Only 16-bit PCM WAV is supported");
+      numChannels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+    } else if (id === 'data') {
+      if (!numChannels) throw new Error("WAV data before format");
+      const frameCount = Math.floor(Math.min(size, data.length - body) / (numChannels * 2));
+      const channels = Array.from({ length: numChannels }, () => new Float32Array(frameCount));
+      for (let i = 0; i < frameCount; i++) {
+        for (let channel = 0; channel < numChannels; channel++) {
+          channels[channel][i] = view.getInt16(body + (i * numChannels + channel) * 2, true) / 32768;
+        }
+      }
+      return { channels, sampleRate };
+    }
+    offset = body + size + (size & 1); // Chunks are word aligned
+  }
+  throw new Error("WAV file has no audio data");
+}
+
+// Plays raw mono samples once; returns the source so callers can stop it early
+export function playSamples(ctx: AudioContext, samples: Float32Array, sampleRate: number): AudioBufferSourceNode {
+  const buffer = ctx.createBuffer(1, Math.max(1, samples.length), sampleRate);
+  buffer.copyToChannel(samples, 0);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+  source.start();
+  return source;
+}
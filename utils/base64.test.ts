@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { base64ToBytes, bytesToBase64, decodeBase64Atob, decodeBase64Table, encodeBase64Table } from './base64';
+import { encodeInt16PCM, pcmBytesToInt16 } from './audioUtils';
+
+// Deterministic bytes covering every value
+const bytesOf = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 151 + 7) & 0xff);
+
+const binaryString = (bytes: Uint8Array) => Array.from(bytes, b => String.fromCharCode(b)).join('');
+
+describe('table base64 codec', () => {
+  it.each([0, 1, 2, 3, 4, 5, 65_537])('round-trips %i bytes', (length) => {
+    const bytes = bytesOf(length);
+
+    expect(decodeBase64Table(encodeBase64Table(bytes))).toEqual(bytes);
+  });
+
+  it.each([0, 1, 2, 3, 1000, 4099])('matches btoa and atob for %i bytes', (length) => {
+    const bytes = bytesOf(length);
+    const expected = btoa(binaryString(bytes));
+
+    expect(encodeBase64Table(bytes)).toBe(expected);
+    expect(decodeBase64Table(expected)).toEqual(decodeBase64Atob(expected));
+  });
+
+  it('accepts unpadded input, as atob does', () => {
+    expect(decodeBase64Table('QQ')).toEqual(new Uint8Array([65]));
+    expect(decodeBase64Table('QUI')).toEqual(new Uint8Array([65, 66]));
+  });
+
+  it.each([
+    ['a character outside the alphabet', 'QU!D'],
+    ['a character beyond Latin-1', 'QUĀD'],
+    ['a dangling character', 'QUJDR'],
+    ['padding inside a group', 'Q=JD'],
+    ['padding on a partial group', 'QQ='],
+    ['three padding characters', 'Q==='],
+    ['padding mid-string', 'QQ==QUJD'],
+  ])('rejects %s', (_, input) => {
+    expect(() => decodeBase64Table(input)).toThrow(/Invalid base64/);
+    expect(() => atob(input)).toThrow();
+  });
+});
+
+describe('typed array views', () => {
+  it('encodes only the bytes a view covers', () => {
+    const backing = bytesOf(16);
+    const view = new Uint8Array(backing.buffer, 5, 7);
+
+    expect(bytesToBase64(view)).toBe(btoa(binaryString(backing.slice(5, 12))));
+    expect(encodeBase64Table(view)).toBe(bytesToBase64(view));
+  });
+
+  it('round-trips Int16 PCM from a window into a larger buffer', () => {
+    const samples = Int16Array.from([0, -32768, 32767, 1234, -1]);
+    const window = samples.subarray(1, 4);
+
+    const decoded = pcmBytesToInt16(base64ToBytes(encodeInt16PCM(window)));
+
+    expect(Array.from(decoded)).toEqual([-32768, 32767, 1234]);
+  });
+
+  it('decodes into a fresh buffer at offset 0', () => {
+    const bytes = base64ToBytes(btoa('abc'));
+
+    expect(bytes.byteOffset).toBe(0);
+    expect(bytes.buffer.byteLength).toBe(3);
+  });
+});
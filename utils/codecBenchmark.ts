@@ -0,0 +1,69 @@
+import { bytesToBase64, base64ToBytes, decodeBase64Atob, decodeBase64Table, encodeBase64Table } from './base64';
+
+// Micro-benchmark of the PCM base64 paths, comparing the original per-character
+// encoder with the alternatives and the current choice. Run it from the metrics overlay;
+// timings are per call.
+
+export interface CodecBenchmarkResult {
+  name: string;
+  bytes: number;
+  encodeMs: number;
+  decodeMs: number;
+}
+
+// What encodeInt16PCM used to do, kept as the baseline
+function encodePerChar(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+// btoa over a string built in 32 KB slices, the usual middle ground
+const SLICE = 0x8000;
+function encodeChunked(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += SLICE) {
+    parts.push(String.fromCharCode.apply(null, bytes.subarray(i, i + SLICE) as unknown as number[]));
+  }
+  return btoa(parts.join(''));
+}
+
+const IMPLEMENTATIONS: { name: string; encode: (bytes: Uint8Array) => string; decode: (base64: string) => Uint8Array }[] = [
+  { name: 'per-char btoa / atob (old)', encode: encodePerChar, decode: decodeBase64Atob },
+  { name: 'chunked btoa / atob', encode: encodeChunked, decode: decodeBase64Atob },
+  { name: 'lookup table', encode: encodeBase64Table, decode: decodeBase64Table },
+  { name: 'current', encode: bytesToBase64, decode: base64ToBytes },
+];
+
+function timePerCall(fn: () => void, iterations: number): number {
+  fn(); // Warm up
+  const start = performance.now();
+  for (let i = 0; i < iterations; i++) fn();
+  return (performance.now() - start) / iterations;
+}
+
+// Sizes: one 1024-sample mic frame, one 8192-sample upload chunk, one second at 24 kHz
+export function runCodecBenchmark(sizes = [2048, 16384, 48000], iterations = 200): CodecBenchmarkResult[] {
+  const results: CodecBenchmarkResult[] = [];
+
+  for (const size of sizes) {
+    const bytes = new Uint8Array(size);
+    for (let i = 0; i < size; i++) bytes[i] = (i * 7919) & 0xff;
+    const reference = encodePerChar(bytes);
+
+    for (const impl of IMPLEMENTATIONS) {
+      // Every implementation has to agree with the baseline before it is timed
+      if (impl.encode(bytes) !== reference) throw new Error(`${impl.name} encodes incorrectly`);
+      const decoded = impl.decode(reference);
+      if (decoded.length !== size || decoded.some((b, i) => b !== bytes[i])) throw new Error(`${impl.name} decodes incorrectly`);
+
+      results.push({
+        name: impl.name,
+        bytes: size,
+        encodeMs: Number(timePerCall(() => impl.encode(bytes), iterations).toFixed(4)),
+        decodeMs: Number(timePerCall(() => impl.decode(reference), iterations).toFixed(4)),
+      });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,66 @@
+/// <reference types="vite/client" />
+
+// Leveled console logging. Production builds show only warnings and errors;
+// set the level in localStorage (see setLogLevel) to see more on a live site.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+const STORAGE_KEY = 'melody-weaver.log-level';
+
+const isLogLevel = (value: unknown): value is LogLevel => typeof value === 'string' && value in LEVEL_ORDER;
+
+function initialLevel(): LogLevel {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLogLevel(stored)) return stored;
+  } catch (e) {
+    // Storage can be unavailable (privacy mode, workers); fall through
+  }
+  return import.meta.env?.PROD ? 'warn' : 'debug';
+}
+
+let currentLevel: LogLevel = initialLevel();
+
+export function getLogLevel(): LogLevel {
+  return currentLevel;
+}
+
+// Persisted levels survive reloads, e.g. setLogLevel('debug', true) from the console
+export function setLogLevel(level: LogLevel, persist = false) {
+  currentLevel = level;
+  if (!persist) return;
+  try {
+    localStorage.setItem(STORAGE_KEY, level);
+  } catch (e) {
+    // Not persisted; the level still applies to this page
+  }
+}
+
+export interface Logger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+export function createLogger(scope: string): Logger {
+  const prefix = `[${scope}]`;
+  const at = (level: LogLevel, write: (...args: unknown[]) => void) => (...args: unknown[]) => {
+    if (LEVEL_ORDER[level] >= LEVEL_ORDER[currentLevel]) write(prefix, ...args);
+  };
+  return {
+    // console.debug is hidden by default in Chrome, so debug goes to log
+    debug: at('debug', console.log),
+    info: at('info', console.info),
+    warn: at('warn', console.warn),
+    error: at('error', console.error),
+  };
+}
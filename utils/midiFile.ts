@@ -0,0 +1,310 @@
+// Standard MIDI File (SMF) reading and writing. Pure TypeScript, no DOM dependencies.
+
+import { TimedNote } from '../types';
+
+export interface MidiNote {
+  pitch: number; // MIDI note number, 0-127
+  startTick: number;
+  durationTicks: number;
+  velocity: number; // 1-127
+  channel: number; // 0-15
+}
+
+export interface MidiSequence {
+  ppq: number; // Ticks per quarter note
+  bpm: number;
+  name?: string;
+  notes: MidiNote[];
+  // Optional per-channel names, written as text meta events at tick 0
+  channelNames?: Record<number, string>;
+}
+
+// MIDI variable-length quantity: 7 bits per byte, high bit set on all but the last
+export function encodeVariableLength(value: number): number[] {
+  let buffer = value & 0x7f;
+  const bytes: number[] = [];
+  while ((value >>= 7) > 0) {
+    buffer <<= 8;
+    buffer |= (value & 0x7f) | 0x80;
+  }
+  for (;;) {
+    bytes.push(buffer & 0xff);
+    if (buffer & 0x80) buffer >>= 8;
+    else break;
+  }
+  return bytes;
+}
+
+const textBytes = (text: string) => Array.from(new TextEncoder().encode(text));
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, Math.round(value)));
+
+interface TrackEvent {
+  tick: number;
+  order: number; // Tie-break at equal ticks: note-offs before note-ons
+  data: number[];
+}
+
+// Writes a format 0 (single track) Standard MIDI File
+export function writeMidiFile(sequence: MidiSequence): Uint8Array {
+  const events: TrackEvent[] = [];
+  const microsecondsPerQuarter = Math.round(60000000 / sequence.bpm);
+
+  events.push({
+    tick: 0,
+    order: 0,
+    data: [0xff, 0x51, 0x03, (microsecondsPerQuarter >> 16) & 0xff, (microsecondsPerQuarter >> 8) & 0xff, microsecondsPerQuarter & 0xff],
+  });
+  // 4/4, 24 clocks per click, 8 32nds per quarter
+  events.push({ tick: 0, order: 0, data: [0xff, 0x58, 0x04, 0x04, 0x02, 0x18, 0x08] });
+  if (sequence.name) {
+    const name = textBytes(sequence.name);
+    events.push({ tick: 0, order: 0, data: [0xff, 0x03, ...encodeVariableLength(name.length), ...name] });
+  }
+  for (const [channel, label] of Object.entries(sequence.channelNames ?? {})) {
+    const text = textBytes(`Ch${Number(channel) + 1}: ${label}`);
+    events.push({ tick: 0, order: 0, data: [0xff, 0x01, ...encodeVariableLength(text.length), ...text] });
+  }
+
+  for (const note of sequence.notes) {
+    const channel = clamp(note.channel, 0, 15);
+    const pitch = clamp(note.pitch, 0, 127);
+    const start = Math.max(0, Math.round(note.startTick));
+    const end = start + Math.max(1, Math.round(note.durationTicks));
+    events.push({ tick: start, order: 2, data: [0x90 | channel, pitch, clamp(note.velocity, 1, 127)] });
+    events.push({ tick: end, order: 1, data: [0x80 | channel, pitch, 0] });
+  }
+
+  events.sort((a, b) => a.tick - b.tick || a.order - b.order);
+
+  const track: number[] = [];
+  let lastTick = 0;
+  for (const event of events) {
+    track.push(...encodeVariableLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  }
+  track.push(0x00, 0xff, 0x2f, 0x00); // End of track
+
+  const file = new Uint8Array(14 + 8 + track.length);
+  const view = new DataView(file.buffer);
+  file.set(textBytes('MThd'), 0);
+  view.setUint32(4, 6);
+  view.setUint16(8, 0); // Format 0
+  view.setUint16(10, 1); // One track
+  view.setUint16(12, sequence.ppq);
+  file.set(textBytes('MTrk'), 14);
+  view.setUint32(18, track.length);
+  file.set(track, 22);
+  return file;
+}
+
+export interface TempoChange {
+  tick: number;
+  microsecondsPerQuarter: number;
+}
+
+export interface ParsedMidiFile {
+  format: number;
+  ppq: number;
+  name?: string;
+  tempos: TempoChange[]; // Sorted by tick, always starting at tick 0
+  notes: MidiNote[]; // Sorted by start tick
+}
+
+// General MIDI reserves channel 10 for drums
+export const DRUM_CHANNEL = 9;
+
+const DEFAULT_MICROSECONDS_PER_QUARTER = 500000; // 120 bpm
+
+class MidiReader {
+  private view: DataView;
+  public offset: number;
+
+  constructor(private data: Uint8Array, offset = 0) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    this.offset = offset;
+  }
+
+  public get remaining() { return this.data.length - this.offset; }
+
+  public uint8() {
+    if (this.offset >= this.data.length) throw new Error("Unexpected end of MIDI data");
+    return this.data[this.offset++];
+  }
+
+  public uint16() { const v = this.view.getUint16(this.offset); this.offset += 2; return v; }
+  public uint32() { const v = this.view.getUint32(this.offset); this.offset += 4; return v; }
+
+  public text(length: number) {
+    const bytes = this.bytes(length);
+    return new TextDecoder().decode(bytes);
+  }
+
+  public bytes(length: number) {
+    if (this.offset + length > this.data.length) throw new Error("Unexpected end of MIDI data");
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  public variableLength() {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.uint8();
+      value = (value << 7) | (byte & 0x7f);
+      if (!(byte & 0x80)) return value;
+    }
+    throw new Error("Invalid variable-length value in MIDI data");
+  }
+}
+
+interface TrackContents {
+  name?: string;
+  tempos: TempoChange[];
+  notes: MidiNote[];
+}
+
+function readTrack(reader: MidiReader, end: number): TrackContents {
+  const contents: TrackContents = { tempos: [], notes: [] };
+  // Open notes keyed by channel and pitch; a stack so overlapping repeats pair up in order
+  const open = new Map<number, { tick: number; velocity: number }[]>();
+  let tick = 0;
+  let runningStatus = 0;
+
+  const closeNote = (channel: number, pitch: number) => {
+    const started = open.get(channel * 128 + pitch)?.shift();
+    if (started) {
+      contents.notes.push({ pitch, channel, startTick: started.tick, durationTicks: tick - started.tick, velocity: started.velocity });
+    }
+  };
+
+  while (reader.offset < end) {
+    tick += reader.variableLength();
+    let status = reader.uint8();
+
+    if (status === 0xff) {
+      const type = reader.uint8();
+      const length = reader.variableLength();
+      if (type === 0x51 && length === 3) {
+        const bytes = reader.bytes(3);
+        contents.tempos.push({ tick, microsecondsPerQuarter: (bytes[0] << 16) | (bytes[1] << 8) | bytes[2] });
+      } else if (type === 0x03 && contents.name === undefined) {
+        contents.name = reader.text(length);
+      } else if (type === 0x2f) {
+        reader.bytes(length);
+        break;
+      } else {
+        reader.bytes(length);
+      }
+      continue;
+    }
+    if (status === 0xf0 || status === 0xf7) {
+      reader.bytes(reader.variableLength()); // SysEx
+      continue;
+    }
+
+    let data1: number;
+    if (status & 0x80) {
+      runningStatus = status;
+      data1 = reader.uint8();
+    } else {
+      if (!runningStatus) throw new Error("MIDI data byte without a status");
+      data1 = status;
+      status = runningStatus;
+    }
+
+    const type = status & 0xf0;
+    const channel = status & 0x0f;
+    // Program change and channel pressure carry a single data byte
+    const data2 = type === 0xc0 || type === 0xd0 ? 0 : reader.uint8();
+
+    if (type === 0x90 && data2 > 0) {
+      const key = channel * 128 + data1;
+      const stack = open.get(key) ?? [];
+      stack.push({ tick, velocity: data2 });
+      open.set(key, stack);
+    } else if (type === 0x80 || type === 0x90) {
+      closeNote(channel, data1);
+    }
+  }
+
+  // Notes never released end with the track
+  for (const [key, stack] of open) {
+    for (let i = stack.length; i > 0; i--) closeNote(Math.floor(key / 128), key % 128);
+  }
+  return contents;
+}
+
+// Reads format 0 and format 1 files with tick (not SMPTE) timing
+export function parseMidiFile(data: Uint8Array): ParsedMidiFile {
+  const reader = new MidiReader(data);
+  if (data.length < 14 || reader.text(4) !== 'MThd') throw new Error("Not a MIDI file");
+
+  const headerLength = reader.uint32();
+  const format = reader.uint16();
+  const trackCount = reader.uint16();
+  const division = reader.uint16();
+  reader.offset = 8 + headerLength;
+  if (format > 1) throw new Error(`MIDI format ${format} is not supported`);
+  if (division & 0x8000) throw new Error("SMPTE-timed MIDI files are not supported");
+
+  let name: string | undefined;
+  const tempos: TempoChange[] = [];
+  const notes: MidiNote[] = [];
+
+  for (let track = 0; track < trackCount && reader.remaining >= 8; track++) {
+    const chunkType = reader.text(4);
+    const length = reader.uint32();
+    const end = Math.min(data.length, reader.offset + length);
+    if (chunkType === 'MTrk') {
+      const contents = readTrack(reader, end);
+      name ??= contents.name;
+      tempos.push(...contents.tempos);
+      notes.push(...contents.notes);
+    }
+    reader.offset = end; // Skip unknown chunks and anything after end of track
+  }
+
+  tempos.sort((a, b) => a.tick - b.tick);
+  if (tempos.length === 0 || tempos[0].tick > 0) {
+    tempos.unshift({ tick: 0, microsecondsPerQuarter: DEFAULT_MICROSECONDS_PER_QUARTER });
+  }
+  notes.sort((a, b) => a.startTick - b.startTick || a.pitch - b.pitch);
+
+  return { format, ppq: division, name, tempos, notes };
+}
+
+// Converts ticks to seconds through the tempo map. Drums are dropped by
+// default since the synth would play them as pitched notes.
+export function midiToTimedNotes(file: ParsedMidiFile, includeDrums = false): TimedNote[] {
+  const segments: { tick: number; seconds: number; secondsPerTick: number }[] = [];
+  let seconds = 0;
+  for (const [i, tempo] of file.tempos.entries()) {
+    if (i > 0) {
+      const previous = segments[i - 1];
+      seconds += (tempo.tick - previous.tick) * previous.secondsPerTick;
+    }
+    segments.push({ tick: tempo.tick, seconds, secondsPerTick: tempo.microsecondsPerQuarter / 1000000 / file.ppq });
+  }
+
+  const tickToSeconds = (tick: number) => {
+    let segment = segments[0];
+    for (const s of segments) {
+      if (s.tick > tick) break;
+      segment = s;
+    }
+    return segment.seconds + (tick - segment.tick) * segment.secondsPerTick;
+  };
+
+  return file.notes
+    .filter(note => includeDrums || note.channel !== DRUM_CHANNEL)
+    .map(note => {
+      const start = tickToSeconds(note.startTick);
+      return {
+        pitch: note.pitch,
+        start,
+        duration: Math.max(0.01, tickToSeconds(note.startTick + note.durationTicks) - start),
+        velocity: note.velocity,
+      };
+    });
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { detectOnsets, detectPitch, estimateKey, estimateTempo, midiToNoteName, frequencyToMidi, pitchClassHistogram, pitchContour } from './musicAnalysis';
+import { C_MAJOR_SCALE, clickTrack, legatoMelody, midiToFrequency, sine } from '../test/signals';
+
+const SAMPLE_RATE = 16000;
+
+// Long enough for two periods of the lowest pitch YIN looks for
+const FRAME_LENGTH = 2048;
+
+describe('detectPitch', () => {
+  it('reads A4 from a 440 Hz sine', () => {
+    const detection = detectPitch(sine(440, FRAME_LENGTH / SAMPLE_RATE, SAMPLE_RATE), SAMPLE_RATE);
+    expect(detection).not.toBeNull();
+    expect(detection!.frequency).toBeCloseTo(440, 0);
+    expect(midiToNoteName(frequencyToMidi(detection!.frequency))).toBe('A4');
+    expect(detection!.confidence).toBeGreaterThan(0.9);
+  });
+
+  it.each([110, 261.63, 880])('tracks a %s Hz sine to within a few cents', (frequency) => {
+    const detection = detectPitch(sine(frequency, FRAME_LENGTH / SAMPLE_RATE, SAMPLE_RATE), SAMPLE_RATE);
+    expect(Math.abs(1200 * Math.log2(detection!.frequency / frequency))).toBeLessThan(5);
+  });
+
+  it('reports noise and silence as unvoiced', () => {
+    const noise = new Float32Array(FRAME_LENGTH);
+    let seed = 1;
+    for (let i = 0; i < noise.length; i++) {
+      seed = (seed * 16807) % 2147483647;
+      noise[i] = seed / 2147483647 - 0.5;
+    }
+    expect(detectPitch(noise, SAMPLE_RATE)).toBeNull();
+    expect(detectPitch(new Float32Array(FRAME_LENGTH), SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('estimateKey', () => {
+  it('finds C major in a C major scale', () => {
+    const histogram = pitchClassHistogram(pitchContour(legatoMelody(C_MAJOR_SCALE, 0.5, SAMPLE_RATE), SAMPLE_RATE));
+    expect(estimateKey(histogram)?.name).toBe('C major');
+  });
+
+  it('finds A minor in a melody built around the A minor triad', () => {
+    const melody = [57, 60, 64, 57, 59, 60, 62, 64, 65, 64, 60, 57, 64, 57];
+    const histogram = pitchClassHistogram(pitchContour(legatoMelody(melody, 0.3, SAMPLE_RATE), SAMPLE_RATE));
+    expect(estimateKey(histogram)?.name).toBe('A minor');
+  });
+
+  it('follows a transposition', () => {
+    const scale = C_MAJOR_SCALE.map(midi => midi + 7);
+    const histogram = pitchClassHistogram(pitchContour(legatoMelody(scale, 0.5, SAMPLE_RATE), SAMPLE_RATE));
+    expect(estimateKey(histogram)?.name).toBe('G major');
+  });
+
+  it('has no key for an empty histogram', () => {
+    expect(estimateKey(new Array(12).fill(0))).toBeNull();
+  });
+});
+
+describe('estimateTempo', () => {
+  it.each([80, 100, 140])('finds %s BPM in a click track', (bpm) => {
+    const tempo = estimateTempo(clickTrack(bpm, 10, SAMPLE_RATE), SAMPLE_RATE);
+    expect(tempo).not.toBeNull();
+    expect(tempo!.bpm).toBeGreaterThan(bpm * 0.98);
+    expect(tempo!.bpm).toBeLessThan(bpm * 1.02);
+  });
+
+  it('needs a few beats of audio', () => {
+    expect(estimateTempo(clickTrack(100, 1, SAMPLE_RATE), SAMPLE_RATE)).toBeNull();
+  });
+
+  it('has no tempo for a steady tone', () => {
+    expect(estimateTempo(sine(midiToFrequency(69), 6, SAMPLE_RATE), SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('detectOnsets', () => {
+  it('finds each step of a legato scale at a constant level', () => {
+    const onsets = detectOnsets(legatoMelody(C_MAJOR_SCALE, 0.5, SAMPLE_RATE), SAMPLE_RATE);
+    expect(onsets).toHaveLength(C_MAJOR_SCALE.length - 1);
+    onsets.forEach((onset, i) => expect(onset).toBeCloseTo((i + 1) * 0.5, 1));
+  });
+
+  it('still finds the steps when the scale is quiet', () => {
+    const onsets = detectOnsets(legatoMelody(C_MAJOR_SCALE, 0.5, SAMPLE_RATE, 0.05), SAMPLE_RATE);
+    expect(onsets).toHaveLength(C_MAJOR_SCALE.length - 1);
+  });
+
+  it('finds nothing in a steady tone', () => {
+    expect(detectOnsets(sine(440, 2, SAMPLE_RATE), SAMPLE_RATE)).toEqual([]);
+  });
+});
@@ -0,0 +1,380 @@
+import { AudioAnalysis, INPUT_SAMPLE_RATE, KeyEstimate, MatchScore, OUTPUT_SAMPLE_RATE, PitchPoint, TempoEstimate, TurnAnalysis } from '../types';
+
+// Pure pitch / key / tempo analysis. No Web Audio dependencies so it can run
+// anywhere, including on synthetic signals in tests.
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Krumhansl-Kessler key profiles
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const MIN_FREQUENCY = 70; // Hz, a little below a low male voice
+const MAX_FREQUENCY = 1400; // Hz, whistling range
+const MIN_VOICED_POINTS = 8; // Below this we don't guess a key
+const MAX_ANALYSIS_SECONDS = 20; // Only the end of each side is analysed, bounding the CPU cost
+
+export interface PitchDetection {
+  frequency: number;
+  confidence: number;
+}
+
+export function frequencyToMidi(frequency: number): number {
+  return 69 + 12 * Math.log2(frequency / 440);
+}
+
+export function midiToNoteName(midi: number): string {
+  const rounded = Math.round(midi);
+  return `${NOTE_NAMES[((rounded % 12) + 12) % 12]}${Math.floor(rounded / 12) - 1}`;
+}
+
+function rms(data: Float32Array, start: number, length: number): number {
+  let sum = 0;
+  for (let i = start; i < start + length; i++) sum += data[i] * data[i];
+  return Math.sqrt(sum / length);
+}
+
+// YIN fundamental frequency estimator (de Cheveigné & Kawahara, 2002).
+// Returns null for unvoiced frames.
+export function detectPitch(
+  frame: Float32Array,
+  sampleRate: number,
+  threshold = 0.15
+): PitchDetection | null {
+  const tauMin = Math.max(2, Math.floor(sampleRate / MAX_FREQUENCY));
+  const tauMax = Math.min(Math.floor(sampleRate / MIN_FREQUENCY), Math.floor(frame.length / 2));
+  if (tauMax <= tauMin) return null;
+  const window = frame.length - tauMax;
+
+  // Difference function and its cumulative mean normalised form
+  const cmnd = new Float32Array(tauMax + 1);
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let diff = 0;
+    for (let j = 0; j < window; j++) {
+      const delta = frame[j] - frame[j + tau];
+      diff += delta * delta;
+    }
+    runningSum += diff;
+    cmnd[tau] = runningSum > 0 ? (diff * tau) / runningSum : 1;
+  }
+
+  // First dip below the threshold, walked down to its local minimum
+  let tau = -1;
+  for (let t = tauMin; t <= tauMax; t++) {
+    if (cmnd[t] < threshold) {
+      while (t + 1 <= tauMax && cmnd[t + 1] < cmnd[t]) t++;
+      tau = t;
+      break;
+    }
+  }
+  if (tau === -1) return null;
+
+  // Parabolic interpolation around the minimum for sub-sample accuracy
+  let betterTau = tau;
+  if (tau > 1 && tau < tauMax) {
+    const s0 = cmnd[tau - 1];
+    const s1 = cmnd[tau];
+    const s2 = cmnd[tau + 1];
+    const denominator = s0 + s2 - 2 * s1;
+    if (denominator !== 0) betterTau = tau + (s0 - s2) / (2 * denominator);
+  }
+
+  return { frequency: sampleRate / betterTau, confidence: Math.max(0, 1 - cmnd[tau]) };
+}
+
+export function pitchContour(
+  samples: Float32Array,
+  sampleRate: number,
+  hopSeconds = 0.02,
+  silenceRms = 0.01
+): PitchPoint[] {
+  const frameLength = 2 * Math.ceil(sampleRate / MIN_FREQUENCY);
+  const hop = Math.max(1, Math.round(hopSeconds * sampleRate));
+  const contour: PitchPoint[] = [];
+
+  for (let start = 0; start + frameLength <= samples.length; start += hop) {
+    // Skip silence: it's both unvoiced and the expensive case for YIN
+    if (rms(samples, start, frameLength) < silenceRms) continue;
+
+    const detection = detectPitch(samples.subarray(start, start + frameLength), sampleRate);
+    if (!detection) continue;
+    contour.push({
+      time: (start + frameLength / 2) / sampleRate,
+      frequency: detection.frequency,
+      midi: frequencyToMidi(detection.frequency),
+      confidence: detection.confidence,
+    });
+  }
+  return contour;
+}
+
+export function pitchClassHistogram(contour: PitchPoint[]): number[] {
+  const histogram = new Array(12).fill(0);
+  for (const point of contour) {
+    const pitchClass = ((Math.round(point.midi) % 12) + 12) % 12;
+    histogram[pitchClass] += point.confidence;
+  }
+  const total = histogram.reduce((a, b) => a + b, 0);
+  return total > 0 ? histogram.map(v => v / total) : histogram;
+}
+
+function correlation(a: number[], b: number[]): number {
+  const meanA = a.reduce((x, y) => x + y, 0) / a.length;
+  const meanB = b.reduce((x, y) => x + y, 0) / b.length;
+  let num = 0;
+  let denA = 0;
+  let denB = 0;
+  for (let i = 0; i < a.length; i++) {
+    num += (a[i] - meanA) * (b[i] - meanB);
+    denA += (a[i] - meanA) ** 2;
+    denB += (b[i] - meanB) ** 2;
+  }
+  return denA > 0 && denB > 0 ? num / Math.sqrt(denA * denB) : 0;
+}
+
+// Krumhansl-Schmuckler key finding over a pitch-class histogram
+export function estimateKey(histogram: number[]): KeyEstimate | null {
+  if (histogram.every(v => v === 0)) return null;
+
+  let best: KeyEstimate | null = null;
+  for (let tonic = 0; tonic < 12; tonic++) {
+    // Rotate so the candidate tonic lines up with index 0 of the profile
+    const rotated = histogram.map((_, i) => histogram[(i + tonic) % 12]);
+    for (const mode of ['major', 'minor'] as const) {
+      const score = correlation(rotated, mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE);
+      if (!best || score > best.confidence) {
+        best = { tonic, mode, name: `${NOTE_NAMES[tonic]} ${mode}`, confidence: score };
+      }
+    }
+  }
+  return best;
+}
+
+const ONSET_HOP_SECONDS = 0.01;
+
+// Compresses magnitudes so quiet partials still register in the flux
+const SPECTRAL_COMPRESSION = 100;
+
+// Flux an onset has to rise above its surroundings by. It catches a legato
+// semitone step in a quiet (-26 dBFS) sine while staying well above a steady
+// tone's frame-to-frame flux.
+const MIN_ONSET_FLUX = 0.05;
+
+// In-place radix-2 FFT; `re` and `im` must have the same power-of-two length
+function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+// Half-wave rectified spectral flux, one value per 10ms hop. Rising energy in
+// any frequency band counts, so a new pitch at the same loudness is an onset too.
+export function onsetEnvelope(samples: Float32Array, sampleRate: number): Float32Array {
+  const hop = Math.round(sampleRate * ONSET_HOP_SECONDS);
+  const frameLength = 2 * hop;
+  const size = 2 ** Math.ceil(Math.log2(frameLength));
+  const bins = size / 2;
+  const frameCount = Math.max(0, Math.floor(samples.length / hop) - 1);
+
+  const window = new Float32Array(frameLength);
+  for (let i = 0; i < frameLength; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameLength);
+
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+  let previous = new Float32Array(bins);
+  let current = new Float32Array(bins);
+  const flux = new Float32Array(frameCount);
+
+  for (let f = 0; f < frameCount; f++) {
+    re.fill(0);
+    im.fill(0);
+    const offset = f * hop;
+    for (let i = 0; i < frameLength && offset + i < samples.length; i++) re[i] = samples[offset + i] * window[i];
+    fft(re, im);
+
+    let sum = 0;
+    for (let k = 0; k < bins; k++) {
+      current[k] = Math.log(1 + SPECTRAL_COMPRESSION * Math.hypot(re[k], im[k]));
+      if (f > 0) sum += Math.max(0, current[k] - previous[k]);
+    }
+    flux[f] = sum / bins;
+    [previous, current] = [current, previous];
+  }
+  return flux;
+}
+
+// Onset times in seconds: local envelope peaks above an adaptive (moving median) threshold
+export function detectOnsets(
+  samples: Float32Array,
+  sampleRate: number,
+  sensitivity = MIN_ONSET_FLUX,
+  minIntervalSeconds = 0.05
+): number[] {
+  const flux = onsetEnvelope(samples, sampleRate);
+  const radius = 5; // Frames either side for the median window
+  const minInterval = Math.round(minIntervalSeconds / ONSET_HOP_SECONDS);
+  const onsets: number[] = [];
+  let lastOnset = -Infinity;
+
+  for (let i = 1; i < flux.length - 1; i++) {
+    if (flux[i] < flux[i - 1] || flux[i] < flux[i + 1]) continue;
+
+    const window = Array.from(flux.subarray(Math.max(0, i - radius), Math.min(flux.length, i + radius + 1))).sort((a, b) => a - b);
+    const median = window[Math.floor(window.length / 2)];
+    if (flux[i] > median + sensitivity && i - lastOnset >= minInterval) {
+      // Frames span two hops, so the first frame to see the onset starts a hop before it
+      onsets.push((i + 1) * ONSET_HOP_SECONDS);
+      lastOnset = i;
+    }
+  }
+  return onsets;
+}
+
+// Tempo from the autocorrelation of an energy-flux onset envelope
+export function estimateTempo(
+  samples: Float32Array,
+  sampleRate: number,
+  minBpm = 60,
+  maxBpm = 180
+): TempoEstimate | null {
+  const hopSeconds = ONSET_HOP_SECONDS;
+  const minLag = Math.floor(60 / (maxBpm * hopSeconds));
+  const maxLag = Math.ceil(60 / (minBpm * hopSeconds));
+  const flux = onsetEnvelope(samples, sampleRate);
+  const frameCount = flux.length;
+  // Need a few beats' worth of envelope to see any periodicity
+  if (frameCount < maxLag * 3) return null;
+  // Without a single onset, any periodicity is just ripple from a steady tone
+  if (!flux.some(value => value > MIN_ONSET_FLUX)) return null;
+
+  let mean = 0;
+  for (let i = 0; i < frameCount; i++) mean += flux[i];
+  mean /= frameCount;
+  for (let i = 0; i < frameCount; i++) flux[i] -= mean;
+
+  const autocorrelate = (lag: number) => {
+    let sum = 0;
+    for (let i = 0; i + lag < frameCount; i++) sum += flux[i] * flux[i + lag];
+    return sum / (frameCount - lag);
+  };
+  const zeroLag = autocorrelate(0);
+  if (zeroLag <= 0) return null;
+
+  const acf = new Float32Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) acf[lag] = autocorrelate(lag);
+
+  // Weight towards ~120 BPM to resolve octave ambiguity the way listeners do
+  let bestLag = -1;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = 60 / (lag * hopSeconds);
+    const weight = Math.exp(-0.5 * Math.log2(bpm / 120) ** 2);
+    const score = acf[lag] * weight;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (bestLag === -1 || acf[bestLag] <= 0) return null;
+
+  let refinedLag = bestLag;
+  const s0 = acf[bestLag - 1];
+  const s1 = acf[bestLag];
+  const s2 = acf[bestLag + 1];
+  const denominator = s0 + s2 - 2 * s1;
+  if (denominator !== 0) refinedLag = bestLag + (s0 - s2) / (2 * denominator);
+
+  return {
+    bpm: 60 / (refinedLag * hopSeconds),
+    confidence: Math.min(1, Math.max(0, acf[bestLag] / zeroLag)),
+  };
+}
+
+export function analyzeAudio(samples: Float32Array, sampleRate: number): AudioAnalysis {
+  const contour = pitchContour(samples, sampleRate);
+  const histogram = pitchClassHistogram(contour);
+  return {
+    duration: samples.length / sampleRate,
+    contour,
+    pitchClassHistogram: histogram,
+    key: contour.length >= MIN_VOICED_POINTS ? estimateKey(histogram) : null,
+    tempo: estimateTempo(samples, sampleRate),
+  };
+}
+
+// Position on the circle of fifths, with minor keys mapped to their relative major
+function circleOfFifthsPosition(key: KeyEstimate): number {
+  const majorTonic = key.mode === 'major' ? key.tonic : (key.tonic + 3) % 12;
+  return (majorTonic * 7) % 12;
+}
+
+export function compareKeys(a: KeyEstimate, b: KeyEstimate): number {
+  const distance = Math.abs(circleOfFifthsPosition(a) - circleOfFifthsPosition(b));
+  return 1 - Math.min(distance, 12 - distance) / 6;
+}
+
+// Half- and double-time count as a match; beyond ~25% off scores zero
+export function compareTempos(a: TempoEstimate, b: TempoEstimate): number {
+  const octaves = Math.abs(Math.log2(a.bpm / b.bpm)) % 1;
+  const error = Math.min(octaves, 1 - octaves);
+  return Math.max(0, 1 - error / Math.log2(1.25));
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export function compareAnalyses(input: AudioAnalysis, output: AudioAnalysis): MatchScore {
+  const key = input.key && output.key ? compareKeys(input.key, output.key) : null;
+  const tempo = input.tempo && output.tempo ? compareTempos(input.tempo, output.tempo) : null;
+  const hasPitch = input.contour.length >= MIN_VOICED_POINTS && output.contour.length >= MIN_VOICED_POINTS;
+  const pitchClasses = hasPitch ? cosineSimilarity(input.pitchClassHistogram, output.pitchClassHistogram) : null;
+
+  const available = [key, tempo, pitchClasses].filter((v): v is number => v !== null);
+  const overall = available.length > 0 ? available.reduce((a, b) => a + b, 0) / available.length : null;
+  return { overall, key, tempo, pitchClasses };
+}
+
+// Compares the end of the user's phrase (16kHz) with the model's reply (24kHz)
+export function analyzeTurn(input: Float32Array, output: Float32Array): TurnAnalysis {
+  const tail = (samples: Float32Array, sampleRate: number) =>
+    samples.subarray(Math.max(0, samples.length - MAX_ANALYSIS_SECONDS * sampleRate));
+
+  const inputAnalysis = analyzeAudio(tail(input, INPUT_SAMPLE_RATE), INPUT_SAMPLE_RATE);
+  const outputAnalysis = analyzeAudio(tail(output, OUTPUT_SAMPLE_RATE), OUTPUT_SAMPLE_RATE);
+  return { input: inputAnalysis, output: outputAnalysis, match: compareAnalyses(inputAnalysis, outputAnalysis) };
+}
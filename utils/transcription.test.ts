@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { TranscribedNote, detectNotes, quantizeNotes } from './transcription';
+import { parseMidiFile, writeMidiFile } from './midiFile';
+import { C_MAJOR_SCALE, legatoMelody, midiToFrequency, sine } from '../test/signals';
+
+const SAMPLE_RATE = 16000;
+
+const note = (start: number, end: number, pitch = 60, velocity = 100): TranscribedNote => ({ start, end, pitch, velocity });
+
+describe('detectNotes', () => {
+  it('finds a single sustained note', () => {
+    const notes = detectNotes(sine(midiToFrequency(69), 1, SAMPLE_RATE), SAMPLE_RATE);
+    expect(notes).toHaveLength(1);
+    expect(notes[0].pitch).toBe(69);
+    expect(notes[0].start).toBeLessThan(0.05);
+    expect(notes[0].end).toBeGreaterThan(0.9);
+  });
+
+  it('splits every step of a legato scale, semitones included', () => {
+    const notes = detectNotes(legatoMelody(C_MAJOR_SCALE, 0.5, SAMPLE_RATE), SAMPLE_RATE);
+    expect(notes.map(n => n.pitch)).toEqual(C_MAJOR_SCALE);
+    notes.forEach((n, i) => {
+      expect(n.start).toBeCloseTo(i * 0.5, 1);
+      expect(n.end).toBeCloseTo((i + 1) * 0.5, 1);
+    });
+  });
+
+  it('separates notes divided by silence', () => {
+    const gap = new Float32Array(0.2 * SAMPLE_RATE);
+    const a = sine(midiToFrequency(60), 0.4, SAMPLE_RATE);
+    const b = sine(midiToFrequency(60), 0.4, SAMPLE_RATE);
+    const samples = new Float32Array(a.length + gap.length + b.length);
+    samples.set(a);
+    samples.set(b, a.length + gap.length);
+
+    const notes = detectNotes(samples, SAMPLE_RATE);
+    expect(notes.map(n => n.pitch)).toEqual([60, 60]);
+    expect(notes[1].start).toBeCloseTo(0.6, 1);
+  });
+
+  it('returns nothing for silence', () => {
+    expect(detectNotes(new Float32Array(SAMPLE_RATE), SAMPLE_RATE)).toEqual([]);
+  });
+});
+
+describe('quantizeNotes', () => {
+  // At 120 BPM a sixteenth is 0.125s
+  it('snaps starts and ends to the sixteenth grid', () => {
+    const [quantized] = quantizeNotes([note(0.13, 0.36)], 120);
+    expect(quantized.start).toBeCloseTo(0.125);
+    expect(quantized.end).toBeCloseTo(0.375);
+  });
+
+  it('keeps at least one step per note', () => {
+    const [quantized] = quantizeNotes([note(0.5, 0.52)], 120);
+    expect(quantized.end - quantized.start).toBeCloseTo(0.125);
+  });
+
+  it('keeps the louder of two notes on the same step', () => {
+    const quantized = quantizeNotes([note(0.5, 0.7, 60, 50), note(0.52, 0.8, 64, 90)], 120);
+    expect(quantized).toHaveLength(1);
+    expect(quantized[0].pitch).toBe(64);
+  });
+
+  it('trims a note that would overlap the next', () => {
+    const quantized = quantizeNotes([note(0, 0.6, 60), note(0.5, 0.75, 62)], 120);
+    expect(quantized[0].end).toBeCloseTo(0.5);
+    expect(quantized[1].start).toBeCloseTo(0.5);
+  });
+});
+
+describe('writeMidiFile / parseMidiFile', () => {
+  it('round-trips notes, tempo, resolution and name', () => {
+    const notes = [
+      { pitch: 60, startTick: 0, durationTicks: 480, velocity: 100, channel: 0 },
+      { pitch: 64, startTick: 480, durationTicks: 240, velocity: 80, channel: 0 },
+      { pitch: 67, startTick: 480, durationTicks: 960, velocity: 64, channel: 1 },
+    ];
+    const parsed = parseMidiFile(writeMidiFile({ ppq: 480, bpm: 100, name: 'Round trip', notes }));
+
+    expect(parsed.format).toBe(0);
+    expect(parsed.ppq).toBe(480);
+    expect(parsed.name).toBe('Round trip');
+    expect(parsed.tempos[0]).toEqual({ tick: 0, microsecondsPerQuarter: 600000 });
+    expect(parsed.notes).toEqual(notes);
+  });
+
+  it('round-trips a long delta time that needs a multi-byte length', () => {
+    const notes = [{ pitch: 72, startTick: 200000, durationTicks: 20000, velocity: 1, channel: 15 }];
+    expect(parseMidiFile(writeMidiFile({ ppq: 96, bpm: 120, notes })).notes).toEqual(notes);
+  });
+});
@@ -0,0 +1,150 @@
+import { detectOnsets, estimateTempo, pitchContour } from './musicAnalysis';
+import { MidiNote, writeMidiFile } from './midiFile';
+
+// Monophonic audio-to-note transcription: pitch tracking segmented by onsets,
+// then quantised to a tempo grid. Pure TypeScript, no DOM dependencies.
+
+export interface TranscribedNote {
+  start: number; // Seconds
+  end: number;
+  pitch: number; // Rounded MIDI note number
+  velocity: number; // 1-127
+}
+
+export interface Transcription {
+  notes: TranscribedNote[];
+  bpm: number;
+}
+
+const HOP_SECONDS = 0.01;
+const MIN_NOTE_SECONDS = 0.06;
+const PITCH_CHANGE_SEMITONES = 0.8; // Beyond this from the note's median pitch, a new note starts
+const MEDIAN_FRAMES = 25; // Recent frames the running median is taken over
+const DEFAULT_BPM = 120;
+const GRID_DIVISION = 4; // Sixteenth notes
+const MIDI_PPQ = 480;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function peakAmplitude(samples: Float32Array, sampleRate: number, start: number, end: number): number {
+  let peak = 0;
+  const from = Math.max(0, Math.floor(start * sampleRate));
+  const to = Math.min(samples.length, Math.ceil(end * sampleRate));
+  for (let i = from; i < to; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  return peak;
+}
+
+// Unquantised notes straight from the pitch contour
+export function detectNotes(samples: Float32Array, sampleRate: number): TranscribedNote[] {
+  const contour = pitchContour(samples, sampleRate, HOP_SECONDS);
+  const onsets = detectOnsets(samples, sampleRate);
+  const segments: { start: number; end: number; midis: number[] }[] = [];
+
+  let onsetIndex = 0;
+  let current: { start: number; end: number; midis: number[] } | null = null;
+  let previousTime = -Infinity;
+
+  for (const point of contour) {
+    // Any onset since the previous voiced frame re-articulates the note
+    let crossedOnset = false;
+    while (onsetIndex < onsets.length && onsets[onsetIndex] <= point.time) {
+      if (onsets[onsetIndex] > previousTime) crossedOnset = true;
+      onsetIndex++;
+    }
+
+    const isGap = point.time - previousTime > HOP_SECONDS * 1.5;
+    // Against the note so far, not the previous frame: a legato step glides
+    // through intermediate frames, each one close to the last
+    const isJump = !!current && Math.abs(point.midi - median(current.midis.slice(-MEDIAN_FRAMES))) > PITCH_CHANGE_SEMITONES;
+    if (!current || isGap || isJump || crossedOnset) {
+      current = { start: point.time - HOP_SECONDS / 2, end: point.time + HOP_SECONDS / 2, midis: [] };
+      segments.push(current);
+    }
+    current.midis.push(point.midi);
+    current.end = point.time + HOP_SECONDS / 2;
+    previousTime = point.time;
+  }
+
+  return segments
+    .filter(segment => segment.end - segment.start >= MIN_NOTE_SECONDS)
+    .map(segment => {
+      const amplitude = peakAmplitude(samples, sampleRate, segment.start, segment.end);
+      return {
+        start: Math.max(0, segment.start),
+        end: segment.end,
+        pitch: Math.round(median(segment.midis)),
+        velocity: Math.max(1, Math.min(127, Math.round(40 + amplitude * 87))),
+      };
+    });
+}
+
+// Snaps notes to a sixteenth-note grid, keeping at least one step each and no overlaps
+export function quantizeNotes(notes: TranscribedNote[], bpm: number): TranscribedNote[] {
+  const step = 60 / bpm / GRID_DIVISION;
+  const quantized = notes.map(note => {
+    const start = Math.round(note.start / step) * step;
+    const end = Math.max(start + step, Math.round(note.end / step) * step);
+    return { ...note, start, end };
+  });
+
+  const result: TranscribedNote[] = [];
+  for (const note of quantized) {
+    const previous = result[result.length - 1];
+    if (previous && note.start <= previous.start) {
+      // Two notes landed on the same step: keep the louder one
+      if (note.velocity > previous.velocity) result[result.length - 1] = note;
+      continue;
+    }
+    if (previous && previous.end > note.start) previous.end = note.start;
+    result.push(note);
+  }
+  return result;
+}
+
+export function transcribe(samples: Float32Array, sampleRate: number, bpm?: number): Transcription {
+  const tempo = bpm ?? estimateTempo(samples, sampleRate)?.bpm ?? DEFAULT_BPM;
+  return { notes: quantizeNotes(detectNotes(samples, sampleRate), tempo), bpm: tempo };
+}
+
+export function notesToMidi(notes: TranscribedNote[], bpm: number, ppq: number, channel: number, offsetSeconds = 0): MidiNote[] {
+  const ticksPerSecond = (bpm / 60) * ppq;
+  return notes.map(note => ({
+    pitch: note.pitch,
+    startTick: Math.round((note.start + offsetSeconds) * ticksPerSecond),
+    durationTicks: Math.round((note.end - note.start) * ticksPerSecond),
+    velocity: note.velocity,
+    channel,
+  }));
+}
+
+// Prompt on channel 1 and continuation on channel 2, the continuation starting
+// where the prompt ends. Both share the prompt's tempo so they line up in a DAW.
+export function transcribeTurnToMidi(
+  input: Float32Array,
+  inputRate: number,
+  output: Float32Array,
+  outputRate: number,
+  name?: string
+): Uint8Array {
+  const bpm = estimateTempo(input, inputRate)?.bpm ?? estimateTempo(output, outputRate)?.bpm ?? DEFAULT_BPM;
+  const prompt = transcribe(input, inputRate, bpm);
+  const continuation = transcribe(output, outputRate, bpm);
+
+  // Start the continuation on the next beat after the prompt
+  const beat = 60 / bpm;
+  const offset = Math.ceil(input.length / inputRate / beat) * beat;
+
+  return writeMidiFile({
+    ppq: MIDI_PPQ,
+    bpm,
+    name,
+    channelNames: { 0: 'Prompt', 1: 'Continuation' },
+    notes: [
+      ...notesToMidi(prompt.notes, bpm, MIDI_PPQ, 0),
+      ...notesToMidi(continuation.notes, bpm, MIDI_PPQ, 1, offset),
+    ],
+  });
+}
@@ -0,0 +1,150 @@
+// Minimal ZIP reader and writer (stored, uncompressed entries). Audio doesn't deflate
+// well anyway, so skipping compression keeps this small and dependency free.
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, forward slashes
+  data: Uint8Array;
+  modified?: Date;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields, local time, 2-second resolution
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+const UTF8_FLAG = 0x0800;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+
+export function writeZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const prepared = entries.map(entry => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+    stamp: dosDateTime(entry.modified ?? new Date()),
+    offset: 0,
+  }));
+
+  const localSize = prepared.reduce((sum, e) => sum + LOCAL_HEADER_SIZE + e.name.length + e.data.length, 0);
+  const centralSize = prepared.reduce((sum, e) => sum + CENTRAL_HEADER_SIZE + e.name.length, 0);
+  const zip = new Uint8Array(localSize + centralSize + END_RECORD_SIZE);
+  const view = new DataView(zip.buffer);
+  let offset = 0;
+
+  for (const entry of prepared) {
+    entry.offset = offset;
+    view.setUint32(offset, 0x04034b50, true); // Local file header signature
+    view.setUint16(offset + 4, 20, true); // Version needed: 2.0
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, 0, true); // Stored
+    view.setUint16(offset + 10, entry.stamp.time, true);
+    view.setUint16(offset + 12, entry.stamp.date, true);
+    view.setUint32(offset + 14, entry.crc, true);
+    view.setUint32(offset + 18, entry.data.length, true); // Compressed size
+    view.setUint32(offset + 22, entry.data.length, true); // Uncompressed size
+    view.setUint16(offset + 26, entry.name.length, true);
+    view.setUint16(offset + 28, 0, true); // Extra field length
+    zip.set(entry.name, offset + LOCAL_HEADER_SIZE);
+    zip.set(entry.data, offset + LOCAL_HEADER_SIZE + entry.name.length);
+    offset += LOCAL_HEADER_SIZE + entry.name.length + entry.data.length;
+  }
+
+  const centralStart = offset;
+  for (const entry of prepared) {
+    view.setUint32(offset, 0x02014b50, true); // Central directory header signature
+    view.setUint16(offset + 4, 20, true); // Version made by
+    view.setUint16(offset + 6, 20, true); // Version needed
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, 0, true); // Stored
+    view.setUint16(offset + 12, entry.stamp.time, true);
+    view.setUint16(offset + 14, entry.stamp.date, true);
+    view.setUint32(offset + 16, entry.crc, true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, entry.name.length, true);
+    // Extra, comment, disk number, internal and external attributes all zero
+    view.setUint32(offset + 42, entry.offset, true);
+    zip.set(entry.name, offset + CENTRAL_HEADER_SIZE);
+    offset += CENTRAL_HEADER_SIZE + entry.name.length;
+  }
+
+  view.setUint32(offset, 0x06054b50, true); // End of central directory signature
+  view.setUint16(offset + 8, prepared.length, true); // Entries on this disk
+  view.setUint16(offset + 10, prepared.length, true); // Total entries
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return zip;
+}
+
+// Reads an archive written by writeZip, or any other whose entries are stored
+// uncompressed. Entries are found through the central directory.
+export function readZip(zip: Uint8Array): ZipEntry[] {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end record sits at the very end unless the archive has a comment
+  let end = zip.length - END_RECORD_SIZE;
+  const earliest = Math.max(0, end - 0xffff);
+  while (end >= earliest && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < earliest) throw new Error("Not a zip file");
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + CENTRAL_HEADER_SIZE > zip.length || view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error("Corrupt zip central directory");
+    }
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(zip.subarray(offset + CENTRAL_HEADER_SIZE, offset + CENTRAL_HEADER_SIZE + nameLength));
+    offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Directory
+    if (method !== 0) throw new Error(`${name} is compressed; only stored entries are supported`);
+
+    if (localOffset + LOCAL_HEADER_SIZE > zip.length || view.getUint32(localOffset, true) !== 0x04034b50) {
+      throw new Error(`Corrupt zip entry ${name}`);
+    }
+    // The local header's name and extra lengths can differ from the central copy
+    const dataStart = localOffset + LOCAL_HEADER_SIZE + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (dataStart + size > zip.length) throw new Error(`Truncated zip entry ${name}`);
+    const data = zip.slice(dataStart, dataStart + size);
+    if (crc32(data) !== crc) throw new Error(`Checksum mismatch in ${name}`);
+    entries.push({ name, data });
+  }
+  return entries;
+}